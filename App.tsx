@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Activity, LayoutDashboard, Database, ArrowRight, Filter, ChevronDown, Check, Play, Settings, FileText, ChevronRight, ChevronLeft, Loader2, Braces, ArrowRightLeft } from 'lucide-react';
+import { Activity, LayoutDashboard, Database, ArrowRight, Filter, ChevronDown, Check, Play, Settings, FileText, ChevronRight, ChevronLeft, Loader2, Braces, ArrowRightLeft, X, AlertTriangle, Layers } from 'lucide-react';
 import FileUpload from './components/FileUpload';
 import Controls from './components/Controls';
 import AccuracyCharts from './components/AccuracyCharts';
@@ -7,36 +7,53 @@ import DataTable from './components/DataTable';
 import SummaryReport from './components/SummaryReport';
 import DataPreview from './components/DataPreview';
 import FormulaEditor from './components/FormulaEditor';
-import { DataPoint, Region, CalculationParams, DailyResult, CalculationStats, RawRow } from './types';
-import { getFormulaDefaultCode, executeCustomFormula, initPyodide } from './services/formulas';
-import { mean, rmse, mae } from './services/mathUtils';
-
-// Helper to get YYYY-MM-DD from timestamp in Local Time
-const toLocalDate = (timestamp: number) => {
-  const d = new Date(timestamp);
-  const year = d.getFullYear();
-  const month = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
+import ReferenceCasePanel from './components/ReferenceCasePanel';
+import RegionRuleManager from './components/RegionRuleManager';
+import ImportReport from './components/ImportReport';
+import DataQualityPanel from './components/DataQualityPanel';
+import StationWorkspace from './components/StationWorkspace';
+import StationComparison from './components/StationComparison';
+import EnsemblePanel from './components/EnsemblePanel';
+import PenaltyPanel from './components/PenaltyPanel';
+import DayDrillDown from './components/DayDrillDown';
+import { DataPoint, Region, CalculationParams, DailyResult, CalculationStats, RawRow, GapPolicy, GapFillMethod, StationConfig, StationResult, ProviderResult, EnsembleConfig, PenaltyModel } from './types';
+import { getFormulaDefaultCode, getDefaultFormulaState, initPyodide } from './services/formulas';
+import { runFormulaBatch, isAbortError, getPythonErrorInfo } from './services/pythonEngine';
+import { ParseReport } from './services/dataParser';
+import { prepareDataPoints, toLocalDate, detectColumnMapping, estimateCapacity, DEFAULT_GAP_POLICY } from './services/dataPrep';
+import { groupIntoDays, computeNativeDailyResults, computeStats } from './services/calculation';
+import { attachErrorMetrics } from './services/errorMetrics';
+import { auditDataQuality } from './services/dataQuality';
+import { evaluateStations } from './services/stationBatch';
+import { ProviderDays, splitDaysByProvider } from './services/providerCompare';
+import { getDefaultPenaltyModel, applyPenaltyModel, totalPenalty } from './services/penalty';
+import { listRegionRules, getRegionRule } from './services/regionRules';
+import { nativeMatchesRule } from './services/referenceCases';
+import { executeNativeFormula } from './services/nativeFormulas';
+import { DEFAULT_ENSEMBLE, EnsembleFit, fitEnsembleWeights, createCombiner, applyEnsemble, restrictToEvalWindow, describeEnsemble } from './services/ensemble';
 
 const App: React.FC = () => {
   // --- Wizard State ---
+  const [mode, setMode] = useState<'single' | 'workspace'>('single');
   const [step, setStep] = useState<number>(1); // 1: Data, 2: Config, 3: Results
 
   // --- Data State ---
   const [rawRows, setRawRows] = useState<RawRow[]>([]);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [parseReport, setParseReport] = useState<ParseReport | null>(null);
   
   // Step 1 Config
   const [realCol, setRealCol] = useState<string>('');
   const [foreCols, setForeCols] = useState<string[]>([]);
   const [dateRange, setDateRange] = useState<{start: string, end: string}>({ start: '', end: '' });
+  const [gapPolicy, setGapPolicy] = useState<GapPolicy>(DEFAULT_GAP_POLICY);
+  const [manualExcludedDates, setManualExcludedDates] = useState<string[]>([]);
   const [isMultiSelectOpen, setIsMultiSelectOpen] = useState(false);
   const multiSelectRef = useRef<HTMLDivElement>(null);
 
   // Step 2 Config
   const [region, setRegion] = useState<Region>('Shanxi');
+  const [regionRules, setRegionRules] = useState(listRegionRules);
   const [params, setParams] = useState<CalculationParams>({
     cap: 100, 
     threshold: 0.03,
@@ -44,10 +61,34 @@ const App: React.FC = () => {
   });
   const [customFormula, setCustomFormula] = useState<string>('');
   const [isCalculating, setIsCalculating] = useState<boolean>(false);
+  const [calcProgress, setCalcProgress] = useState<{ done: number, total: number } | null>(null);
+  const [calcWarning, setCalcWarning] = useState<string | null>(null);
+  const [compareProviders, setCompareProviders] = useState<boolean>(false);
+  const [ensemble, setEnsemble] = useState<EnsembleConfig>(DEFAULT_ENSEMBLE);
+  const [ensembleFit, setEnsembleFit] = useState<EnsembleFit | null>(null); // Fitted on request, see handleFitEnsemble
+  const [isFittingEnsemble, setIsFittingEnsemble] = useState<boolean>(false);
+  const [rowLogic, setRowLogic] = useState<string>(''); // Per-row logic currently in the editor, reused by the drill-down
+  const [formulaLabel, setFormulaLabel] = useState<string>(''); // Library formula/version in the editor
+  const [excludedDays, setExcludedDays] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Step 3 Results
   const [results, setResults] = useState<DailyResult[]>([]);
   const [stats, setStats] = useState<CalculationStats | null>(null);
+  const [providerResults, setProviderResults] = useState<ProviderResult[]>([]);
+  const [resultEnsembleFit, setResultEnsembleFit] = useState<EnsembleFit | null>(null);
+  const [resultFormulaLabel, setResultFormulaLabel] = useState<string>(''); // Formula version that produced the results
+  const [resultPoints, setResultPoints] = useState<DataPoint[]>([]);
+  // Region, parameters and formula that produced the results; later edits in step 2 must not change how they are explained
+  const [resultSetup, setResultSetup] = useState<{ region: Region, params: CalculationParams, foreCols: string[], code: string, rowLogic: string } | null>(null);
+  const [drillDate, setDrillDate] = useState<string | null>(null);
+  const [penaltyModel, setPenaltyModel] = useState<PenaltyModel>(() => getDefaultPenaltyModel('Shanxi'));
+
+  // --- Multi-Station Workspace State ---
+  const [stations, setStations] = useState<StationConfig[]>([]);
+  const [stationGapPolicy, setStationGapPolicy] = useState<GapPolicy>(DEFAULT_GAP_POLICY);
+  const [stationResults, setStationResults] = useState<StationResult[]>([]);
+  const [isEvaluatingStations, setIsEvaluatingStations] = useState<boolean>(false);
 
   // --- Effects ---
 
@@ -69,35 +110,24 @@ const App: React.FC = () => {
 
   // Update threshold defaults and Formula Code when region changes
   useEffect(() => {
-    if (region === 'Northeast') {
-      setParams(p => ({ ...p, threshold: 0.10 }));
-    } else if (region === 'Northwest') {
-      setParams(p => ({ ...p, threshold: 0.03 }));
+    const rule = getRegionRule(region);
+    if (rule.params.useThreshold) {
+      setParams(p => ({ ...p, threshold: rule.params.threshold }));
     }
     // Update the editor code to the default for the new region
     setCustomFormula(getFormulaDefaultCode(region));
+    setPenaltyModel(getDefaultPenaltyModel(region));
   }, [region]);
 
-  const handleDataLoaded = (rows: RawRow[], headers: string[]) => {
+  const handleDataLoaded = (rows: RawRow[], headers: string[], report?: ParseReport) => {
     setRawRows(rows);
     setCsvHeaders(headers);
+    setParseReport(report || null);
+    setManualExcludedDates([]);
 
-    const lowerHeaders = headers.map(h => h.toLowerCase());
-    const realCandidate = headers[lowerHeaders.findIndex(h => h.includes('real') || h.includes('actual') || h.includes('实际') || h.includes('power'))] || headers[1];
-    setRealCol(realCandidate);
-
-    let selectedForeCols: string[] = [];
-    const valCols = headers.filter(h => h.toLowerCase().startsWith('val_'));
-    const foreCandidates = headers.filter(h => {
-        const lower = h.toLowerCase();
-        return lower.includes('fore') || lower.includes('pred') || lower.includes('预测');
-    });
-
-    if (valCols.length > 0) selectedForeCols = valCols;
-    else if (foreCandidates.length > 0) selectedForeCols = foreCandidates;
-    else selectedForeCols = [headers[2] || headers[headers.length-1]];
-
-    setForeCols(selectedForeCols);
+    const mapping = detectColumnMapping(headers);
+    setRealCol(mapping.realCol);
+    setForeCols(mapping.foreCols);
 
     if (rows.length > 0) {
       // Use toLocalDate to avoid timezone shifts (UTC vs Local)
@@ -106,8 +136,14 @@ const App: React.FC = () => {
       setDateRange({ start, end });
     }
 
-    const maxVal = Math.max(...rows.map(r => typeof r[realCandidate] === 'number' ? r[realCandidate] as number : 0));
-    setParams(prev => ({ ...prev, cap: Math.ceil(maxVal * 1.1) || 100 }));
+    setParams(prev => ({ ...prev, cap: estimateCapacity(rows, mapping.realCol) }));
+  };
+
+  // Re-read the registry after an import/removal; fall back to the first rule if the selected one is gone
+  const handleRulesChanged = () => {
+    const rules = listRegionRules();
+    setRegionRules(rules);
+    if (!rules.some(r => r.id === region)) setRegion(rules[0].id);
   };
 
   const toggleForeCol = (col: string) => {
@@ -116,25 +152,50 @@ const App: React.FC = () => {
 
   // --- Helpers for Step 2 ---
   
-  // Calculate a sample day of data to pass to the Editor for "Test Run"
-  const editorSampleData = useMemo(() => {
+  // Data points in range after the missing-data policy, shared by the editor sample and the calculation
+  const preparedData = useMemo(() => {
     if (rawRows.length === 0 || !realCol || foreCols.length === 0) return null;
-    
-    // 1. Find the first valid date within range using Local Time
-    const validRow = rawRows.find(r => {
-        const d = toLocalDate(r.timestamp);
-        return d >= dateRange.start && d <= dateRange.end;
-    });
+    return prepareDataPoints(rawRows, realCol, foreCols, dateRange, gapPolicy, manualExcludedDates);
+  }, [rawRows, realCol, foreCols, dateRange, gapPolicy, manualExcludedDates]);
+
+  // Quality issues shown next to the preview; exclusions made there feed preparedData above
+  const qualityIssues = useMemo(() => {
+    if (rawRows.length === 0 || !realCol) return [];
+    return auditDataQuality(rawRows, realCol, foreCols, dateRange, params.cap);
+  }, [rawRows, realCol, foreCols, dateRange, params.cap]);
 
-    if (!validRow) return null;
+  const toggleExcludedDate = (date: string) => {
+    setManualExcludedDates(prev => prev.includes(date) ? prev.filter(d => d !== date) : [...prev, date].sort());
+  };
+
+  const excludeDates = (dates: string[]) => {
+    setManualExcludedDates(prev => Array.from(new Set([...prev, ...dates])).sort());
+  };
+
+  // A fit belongs to the data, split, formula and parameters it was made with; changing any of them drops it
+  useEffect(() => {
+    setEnsembleFit(null);
+  }, [ensemble.method, ensemble.trainEnd, preparedData, foreCols, region, customFormula, params.cap, params.threshold]);
 
-    const sampleDate = toLocalDate(validRow.timestamp);
-    const dayRows = rawRows.filter(r => toLocalDate(r.timestamp) === sampleDate);
+  // Points actually evaluated: forecasts combined per the ensemble setting; a fitted ensemble is scored on held-out days only
+  const evaluationPoints = useMemo(() => {
+    if (!preparedData) return [];
+    const combined = applyEnsemble(preparedData.points, createCombiner(ensemble, foreCols, ensembleFit));
+    return ensembleFit ? restrictToEvalWindow(combined, ensembleFit) : combined;
+  }, [preparedData, ensemble, foreCols, ensembleFit]);
+
+  // Calculate a sample day of data to pass to the Editor for "Test Run"
+  const editorSampleData = useMemo(() => {
+    if (evaluationPoints.length === 0) return null;
+    
+    // 1. First valid date within range (Local Time)
+    const sampleDate = toLocalDate(evaluationPoints[0].timestamp);
+    const dayPoints = evaluationPoints.filter(p => toLocalDate(p.timestamp) === sampleDate);
     
     // 2. Extract arrays
-    const real = dayRows.map(r => Number(r[realCol]) || 0);
-    const foreRaw = dayRows.map(r => foreCols.map(c => Number(r[c]) || 0));
-    const fore = foreRaw.map(row => row.length > 0 ? mean(row) : 0);
+    const real = dayPoints.map(p => p.real);
+    const foreRaw = dayPoints.map(p => p.forecasts);
+    const fore = dayPoints.map(p => p.forecast);
 
     return {
         date: sampleDate,
@@ -144,110 +205,187 @@ const App: React.FC = () => {
         cap: params.cap,
         threshold: params.threshold
     };
-  }, [rawRows, realCol, foreCols, params.cap, params.threshold, dateRange]);
+  }, [evaluationPoints, params.cap, params.threshold]);
+
+  // Unedited built-in templates run on the native TypeScript engine when it matches the template's reference
+  // fixtures; Python is needed for user edits and imported rules
+  const useNativeEngine = useMemo(() => {
+    if (!nativeMatchesRule(getRegionRule(region))) return false;
+    return customFormula === '' || customFormula === getFormulaDefaultCode(region);
+  }, [customFormula, region]);
+
+  // Fitting scores thousands of weight candidates, so it needs the active formula on the native engine
+  const ensembleFitBlocked = !useNativeEngine
+    ? '当前公式已修改或为导入规则，只能在 Python 引擎中计算，无法用于拟合权重。请改用其他集成方式，或恢复区域默认公式。'
+    : null;
+
+  const handleFitEnsemble = () => {
+    if (!preparedData || ensembleFitBlocked) return;
+    setIsFittingEnsemble(true);
+    // Let the button show its busy state before the synchronous fit runs
+    setTimeout(() => {
+      try {
+        const rule = getRegionRule(region);
+        setEnsembleFit(fitEnsembleWeights(
+          groupIntoDays(preparedData.points),
+          ensemble.trainEnd,
+          (real, fore, foreRaw) => executeNativeFormula(rule, real, fore, params.cap, params.threshold, foreRaw)
+        ));
+      } finally {
+        setIsFittingEnsemble(false);
+      }
+    }, 0);
+  };
+
+
+  // Daily results with the assessment amount attached; re-priced live as the penalty model is edited
+  const resultCap = resultSetup?.params.cap ?? params.cap;
+  const assessedResults = useMemo(() => applyPenaltyModel(results, resultCap, penaltyModel), [results, resultCap, penaltyModel]);
 
+  // Points of the day opened in the drill-down, as used by the last calculation
+  const drillPoints = useMemo(() => {
+    if (!drillDate) return [];
+    return resultPoints.filter(p => toLocalDate(p.timestamp) === drillDate);
+  }, [drillDate, resultPoints]);
 
   // --- Calculation Logic (Async Triggered on Step 2 -> 3) ---
   const handleCalculate = async () => {
-    if (rawRows.length === 0 || !realCol || foreCols.length === 0) return;
+    if (!preparedData) return;
+    if (ensemble.method === 'optimised' && !ensembleFit) {
+      alert(ensembleFitBlocked ?? "请先在「预测集成方式」中拟合优化权重。");
+      return;
+    }
 
     setIsCalculating(true);
+    setCalcWarning(null);
 
-    // 1. Prepare Data
-    const activeData: DataPoint[] = [];
-    for (const row of rawRows) {
-      const rowDateStr = toLocalDate(row.timestamp);
-      if (rowDateStr < dateRange.start || rowDateStr > dateRange.end) continue;
-
-      const realVal = Number(row[realCol]) || 0;
-      const currentForecasts = foreCols.map(col => Number(row[col]) || 0);
-      const avgFore = currentForecasts.length > 0 ? mean(currentForecasts) : 0;
-
-      activeData.push({
-        time: row.time,
-        timestamp: row.timestamp,
-        real: realVal,
-        forecast: avgFore,
-        forecasts: currentForecasts
-      });
-    }
+    // 1. Prepare Data (missing values handled by the gap policy, never coerced to 0; forecasts combined by the ensemble)
+    const { coverageByDate, excludedDates } = preparedData;
+    const activeData = evaluationPoints;
 
     if (activeData.length === 0) {
-      alert("No data found in the selected date range.");
+      alert(ensembleFit ? "评估窗口内没有数据，请调整训练窗口截止日。" : "No data found in the selected date range.");
       setIsCalculating(false);
       return;
     }
 
     // 2. Group by Date (Local Time)
-    const grouped: Record<string, DataPoint[]> = {};
-    activeData.forEach(pt => {
-      const dateKey = toLocalDate(pt.timestamp);
-      if (!grouped[dateKey]) grouped[dateKey] = [];
-      grouped[dateKey].push(pt);
-    });
-
-    // 3. Calculate Daily using CUSTOM PYTHON FORMULA
-    const sortedDates = Object.keys(grouped).sort();
-    
-    // We compute this in a non-blocking way for the UI if possible, 
-    // but Pyodide in main thread blocks. We wrap in setTimeout to allow render cycle to show loading state.
-    setTimeout(async () => {
-      try {
-        // Execute sequentially to avoid race conditions with Pyodide globals
-        const dailyResults: DailyResult[] = [];
-
-        for (const date of sortedDates) {
-          const dayData = grouped[date];
-          const real = dayData.map(d => d.real);
-          const fore = dayData.map(d => d.forecast); // Average forecast
-          const foreRaw = dayData.map(d => d.forecasts); // Matrix forecast
-          
-          // EXECUTE CUSTOM PYTHON FORMULA
-          const acc = await executeCustomFormula(
-            customFormula, 
-            real, 
-            fore, 
-            params.cap, 
-            params.threshold,
-            foreRaw
-          );
-          
-          dailyResults.push({
-            date,
-            accuracy: acc,
-            mae: mae(real, fore),
-            rmse: rmse(real, fore),
-            avgReal: mean(real),
-            avgFore: mean(fore)
+    const days = groupIntoDays(activeData);
+
+    // Ensemble first; each forecast column is scored separately when the comparison is on
+    const runs: ProviderDays[] = [
+      { name: describeEnsemble(ensemble, foreCols, ensembleFit), days },
+      ...(compareProviders && foreCols.length > 1 ? splitDaysByProvider(days, foreCols) : [])
+    ];
+
+    try {
+      // 3. Calculate Daily using the NATIVE engine, or the CUSTOM PYTHON FORMULA (in the worker) if edited
+      const runResults: ProviderResult[] = [];
+      const warnings: string[] = [];
+
+      if (useNativeEngine) {
+        runs.forEach((run, idx) => runResults.push({
+          name: run.name,
+          isEnsemble: idx === 0,
+          daily: attachErrorMetrics(
+            computeNativeDailyResults(run.days, region, params.cap, params.threshold, coverageByDate),
+            run.days,
+            params.cap
+          )
+        }));
+      } else {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const total = days.length * runs.length;
+        setCalcProgress({ done: 0, total });
+
+        for (let idx = 0; idx < runs.length; idx++) {
+          const run = runs[idx];
+          const offset = idx * days.length;
+          const batch = await runFormulaBatch(customFormula, run.days, params.cap, params.threshold, {
+            signal: controller.signal,
+            onProgress: p => setCalcProgress({ done: offset + p.done, total })
           });
-        }
 
-        setResults(dailyResults);
-
-        // 4. Calculate Stats
-        const accuracies = dailyResults.map(r => r.accuracy);
-        if (accuracies.length > 0) {
-          setStats({
-            meanAccuracy: mean(accuracies),
-            maxAccuracy: Math.max(...accuracies),
-            minAccuracy: Math.min(...accuracies),
-            stdDev: Math.sqrt(mean(accuracies.map(a => Math.pow(a - mean(accuracies), 2)))),
-            distribution: {
-              high: accuracies.filter(a => a >= 0.8).length,
-              medium: accuracies.filter(a => a >= 0.6 && a < 0.8).length,
-              low: accuracies.filter(a => a < 0.6).length
+          const daily = attachErrorMetrics(batch.results.map(r => ({ ...r, coverage: coverageByDate[r.date] ?? 1 })), run.days, params.cap);
+
+          // Cancelled: keep the days finished so far and skip the remaining comparison runs
+          if (batch.cancelled) {
+            if (idx === 0 && daily.length === 0) return;
+            runResults.push({ name: run.name, isEnsemble: idx === 0, daily });
+            warnings.push(idx === 0
+              ? `计算已取消。以下仅显示取消前完成的 ${daily.length} / ${days.length} 天。`
+              : `预测源 [${run.name}] 的对比计算已取消，仅含 ${daily.length} / ${days.length} 天，其余预测源未计算。`);
+            break;
+          }
+          runResults.push({ name: run.name, isEnsemble: idx === 0, daily });
+
+          if (batch.error) {
+            console.error(`Python formula failed on ${batch.failedDate} (${run.name}):`, batch.error);
+            if (idx === 0 && daily.length === 0) {
+              alert(`计算过程中发生错误，请检查 Python 代码语法。\n${batch.failedDate}: ${batch.error}`);
+              return;
             }
-          });
+            warnings.push(idx === 0
+              ? `${batch.failedDate} 计算失败，已停止。以下仅显示此前 ${daily.length} / ${days.length} 天的部分结果。\n${batch.error}`
+              : `预测源 [${run.name}] 在 ${batch.failedDate} 计算失败，对比结果仅含 ${daily.length} / ${days.length} 天。`);
+          }
         }
-
-        setStep(3); // Move to results
-      } catch (error) {
-        console.error(error);
-        alert("计算过程中发生错误，请检查 Python 代码语法。\n详细错误信息请查看控制台。");
-      } finally {
-        setIsCalculating(false);
       }
-    }, 100);
+
+      const dailyResults = runResults[0].daily;
+      setProviderResults(runResults.length > 1 ? runResults : []);
+      if (warnings.length > 0) setCalcWarning(warnings.join('\n'));
+
+      setResults(dailyResults);
+      setExcludedDays(excludedDates);
+      setResultEnsembleFit(ensembleFit);
+      setResultFormulaLabel(formulaLabel);
+      setResultPoints(activeData);
+      setResultSetup({
+        region,
+        params,
+        foreCols,
+        code: customFormula || getFormulaDefaultCode(region),
+        rowLogic: rowLogic || getDefaultFormulaState(region).rowLogic
+      });
+
+      // 4. Calculate Stats
+      const dailyStats = computeStats(dailyResults);
+      if (dailyStats) setStats(dailyStats);
+
+      setStep(3); // Move to results
+    } catch (error) {
+      if (isAbortError(error)) return; // Cancelled by the user
+      console.error(error);
+      // Sandbox failures (e.g. a timeout) carry their own explanation
+      alert(getPythonErrorInfo(error)
+        ? `计算过程中发生错误：${(error as Error).message}`
+        : "计算过程中发生错误，请检查 Python 代码语法。\n详细错误信息请查看控制台。");
+    } finally {
+      abortRef.current = null;
+      setCalcProgress(null);
+      setIsCalculating(false);
+    }
+  };
+
+  const handleCancelCalculate = () => {
+    abortRef.current?.abort();
+  };
+
+  // --- Multi-Station Batch (each station with its own region rule; imported rules go through Python) ---
+  const handleEvaluateStations = async () => {
+    setIsEvaluatingStations(true);
+    // Yield one frame so the spinner renders before the synchronous native batch runs
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      setStationResults(await evaluateStations(stations, stationGapPolicy));
+    } catch (error) {
+      console.error(error);
+      alert("批量计算过程中发生错误，详细错误信息请查看控制台。");
+    } finally {
+      setIsEvaluatingStations(false);
+    }
   };
 
   return (
@@ -260,9 +398,25 @@ const App: React.FC = () => {
               <Activity className="w-6 h-6 text-white" />
             </div>
             <h1 className="text-xl font-bold text-slate-800">PowerSight 准确率分析系统</h1>
+            <div className="flex bg-slate-100 rounded-lg p-1 ml-4">
+              <button
+                onClick={() => setMode('single')}
+                className={`px-3 py-1 text-sm rounded-md transition ${mode === 'single' ? 'bg-white shadow text-blue-600 font-semibold' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                单场站分析
+              </button>
+              <button
+                onClick={() => setMode('workspace')}
+                className={`flex items-center px-3 py-1 text-sm rounded-md transition ${mode === 'workspace' ? 'bg-white shadow text-blue-600 font-semibold' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                <Layers className="w-4 h-4 mr-1" />
+                多场站工作区
+              </button>
+            </div>
           </div>
           
           {/* Step Indicator */}
+          {mode === 'single' && (
           <div className="hidden md:flex items-center space-x-4">
              <div className={`flex items-center ${step >= 1 ? 'text-blue-600 font-semibold' : 'text-slate-400'}`}>
                 <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs mr-2 border ${step >= 1 ? 'border-blue-600 bg-blue-50' : 'border-slate-300'}`}>1</div>
@@ -279,19 +433,40 @@ const App: React.FC = () => {
                 结果分析
              </div>
           </div>
+          )}
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+
+        {/* Multi-Station Workspace */}
+        {mode === 'workspace' && (
+          <div className="animate-fade-in space-y-6">
+            <div className="text-center mb-2">
+              <h2 className="text-2xl font-bold text-slate-800">多场站工作区</h2>
+              <p className="mt-2 text-slate-500">导入多个场站文件，一次计算并横向对比各场站准确率。</p>
+            </div>
+            <StationWorkspace
+              stations={stations}
+              setStations={setStations}
+              gapPolicy={stationGapPolicy}
+              setGapPolicy={setStationGapPolicy}
+              onRun={handleEvaluateStations}
+              isRunning={isEvaluatingStations}
+              rules={regionRules}
+            />
+            {stationResults.length > 0 && <StationComparison results={stationResults} />}
+          </div>
+        )}
         
         {/* Step 1: Upload & Data Config */}
-        {step === 1 && (
+        {mode === 'single' && step === 1 && (
           <div className="animate-fade-in">
              {rawRows.length === 0 ? (
                 <div className="mt-10">
                    <div className="text-center mb-8">
                     <h2 className="text-3xl font-extrabold text-slate-900 tracking-tight">第一步：导入与配置数据</h2>
-                    <p className="mt-4 text-lg text-slate-500">上传场站 CSV 数据，配置参与计算的列。</p>
+                    <p className="mt-4 text-lg text-slate-500">上传场站 CSV / Excel 数据，配置参与计算的列。</p>
                   </div>
                   <FileUpload onDataLoaded={handleDataLoaded} />
                 </div>
@@ -373,10 +548,61 @@ const App: React.FC = () => {
                              </div>
                           </div>
                       </div>
+
+                      {/* Missing Data Policy */}
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mt-6 pt-4 border-t border-slate-100">
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">缺测数据处理 (Gap Policy)</label>
+                            <select
+                              value={gapPolicy.method}
+                              onChange={e => setGapPolicy(prev => ({ ...prev, method: e.target.value as GapFillMethod }))}
+                              className="w-full border-slate-300 rounded-md shadow-sm p-2 border focus:ring-blue-500"
+                            >
+                              <option value="exclude">剔除缺测点 (Exclude)</option>
+                              <option value="interpolate">线性插值 (Linear Interpolation)</option>
+                              <option value="ffill">前值填充 (Forward Fill)</option>
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">整日剔除：完整率低于 (%)</label>
+                            <input
+                              type="number" min="0" max="100"
+                              value={gapPolicy.minCoverage}
+                              onChange={e => setGapPolicy(prev => ({ ...prev, minCoverage: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))}
+                              className="w-full border-slate-300 rounded-md shadow-sm p-2 border"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">最长填补缺口 (连续点数)</label>
+                            <input
+                              type="number" min="0"
+                              value={gapPolicy.maxGap}
+                              disabled={gapPolicy.method === 'exclude'}
+                              onChange={e => setGapPolicy(prev => ({ ...prev, maxGap: Math.max(0, Math.round(Number(e.target.value) || 0)) }))}
+                              className="w-full border-slate-300 rounded-md shadow-sm p-2 border disabled:bg-slate-100 disabled:text-slate-400"
+                            />
+                          </div>
+                          <div className="text-xs text-slate-500 flex items-end pb-2">
+                            空白或非数值单元格视为缺测，不再按 0 处理。插值与前值填充只在当日内进行，超过最长缺口的连续缺测保持缺测 (0 表示不限)。完整率设为 0 表示不按完整率剔除整日。
+                          </div>
+                      </div>
                    </div>
 
-                   {/* Data Preview */}
-                   <DataPreview data={rawRows} realCol={realCol} foreCols={foreCols} dateRange={dateRange} />
+                   {parseReport && <ImportReport report={parseReport} />}
+
+                   <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                      {/* Data Preview */}
+                      <div className="lg:col-span-2">
+                         <DataPreview data={rawRows} realCol={realCol} foreCols={foreCols} dateRange={dateRange} />
+                      </div>
+                      <DataQualityPanel
+                         issues={qualityIssues}
+                         excludedDates={manualExcludedDates}
+                         onToggleDate={toggleExcludedDate}
+                         onExcludeDates={excludeDates}
+                         onClearExclusions={() => setManualExcludedDates([])}
+                      />
+                   </div>
 
                    <div className="flex justify-end mt-6">
                       <button 
@@ -394,7 +620,7 @@ const App: React.FC = () => {
         )}
 
         {/* Step 2: Configuration & Formula */}
-        {step === 2 && (
+        {mode === 'single' && step === 2 && (
             <div className="animate-fade-in space-y-6">
                 <div className="flex items-center justify-between mb-2">
                      <button onClick={() => setStep(1)} className="flex items-center text-slate-500 hover:text-blue-600">
@@ -441,7 +667,21 @@ const App: React.FC = () => {
                             params={params} 
                             setParams={setParams} 
                             dataLoaded={true}
+                            rules={regionRules}
                         />
+                        <RegionRuleManager rules={regionRules} onRulesChanged={handleRulesChanged} />
+                        {foreCols.length > 1 && (
+                            <EnsemblePanel
+                                config={ensemble}
+                                setConfig={setEnsemble}
+                                foreCols={foreCols}
+                                fit={ensembleFit}
+                                fitBlocked={ensembleFitBlocked}
+                                isFitting={isFittingEnsemble}
+                                onFit={handleFitEnsemble}
+                                dateRange={dateRange}
+                            />
+                        )}
                          <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4 mt-4">
                             <h4 className="font-bold text-slate-800 mb-2 text-sm flex items-center">
                                 <Check className="w-4 h-4 text-green-500 mr-2" />
@@ -452,8 +692,10 @@ const App: React.FC = () => {
                                 <li><strong>右侧代码</strong>是实际执行的逻辑。选择区域会加载该区域的<strong>默认模板</strong>。</li>
                                 <li>您可以直接修改 Python 代码，或使用 <strong>AI 助手</strong>用自然语言生成代码。</li>
                                 <li>修改后，点击 <strong>"测试运行 (Test Run)"</strong> 按钮，系统会使用第一天的数据进行预演，确保逻辑无误。</li>
+                                <li>未修改默认模板时，使用<strong>内置 TypeScript 引擎</strong>计算，无需加载 Python 环境 (导入的区域规则始终使用 Python 引擎)。</li>
                             </ul>
                         </div>
+                        <ReferenceCasePanel region={region} />
                     </div>
                     
                     {/* Right Col: Formula Editor */}
@@ -463,11 +705,48 @@ const App: React.FC = () => {
                           code={customFormula} 
                           setCode={setCustomFormula} 
                           sampleData={editorSampleData} 
+                          onRowLogicChange={setRowLogic}
+                          onFormulaLabelChange={setFormulaLabel}
+                          onThresholdChange={threshold => setParams(p => ({ ...p, threshold }))}
                         />
                     </div>
                 </div>
 
-                <div className="flex justify-end pt-4 border-t border-slate-200">
+                <div className="flex justify-end items-center gap-4 pt-4 border-t border-slate-200">
+                    {foreCols.length > 1 && (
+                        <label className="flex items-center text-sm text-slate-600 mr-auto cursor-pointer" title="除集合平均外，对每个预测列单独计算准确率">
+                            <input
+                                type="checkbox"
+                                checked={compareProviders}
+                                onChange={e => setCompareProviders(e.target.checked)}
+                                className="mr-2 rounded border-slate-300"
+                            />
+                            分预测源对比 ({foreCols.length} 个预测列 + 集合平均)
+                        </label>
+                    )}
+                    {calcProgress && (
+                        <div className="flex items-center gap-3 flex-1 max-w-md">
+                            <div className="flex-1">
+                                <div className="flex justify-between text-xs text-slate-500 mb-1">
+                                    <span>Python 引擎计算中</span>
+                                    <span className="font-mono">第 {calcProgress.done} / {calcProgress.total} 天</span>
+                                </div>
+                                <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-green-500 transition-all"
+                                        style={{ width: `${calcProgress.total === 0 ? 0 : (calcProgress.done / calcProgress.total) * 100}%` }}
+                                    />
+                                </div>
+                            </div>
+                            <button
+                                onClick={handleCancelCalculate}
+                                className="flex items-center px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded hover:bg-red-50 transition"
+                            >
+                                <X className="w-4 h-4 mr-1" />
+                                取消
+                            </button>
+                        </div>
+                    )}
                     <button 
                         onClick={handleCalculate}
                         disabled={isCalculating}
@@ -476,7 +755,7 @@ const App: React.FC = () => {
                         {isCalculating ? (
                           <>
                             <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                            计算全量数据 (Python Engine)...
+                            计算全量数据 ({useNativeEngine ? 'Native Engine' : 'Python Engine'})...
                           </>
                         ) : (
                           <>
@@ -490,7 +769,7 @@ const App: React.FC = () => {
         )}
 
         {/* Step 3: Results */}
-        {step === 3 && stats && (
+        {mode === 'single' && step === 3 && stats && (
             <div className="animate-fade-in space-y-6">
                 <div className="flex items-center justify-between">
                      <button onClick={() => setStep(2)} className="flex items-center text-slate-500 hover:text-blue-600">
@@ -500,16 +779,68 @@ const App: React.FC = () => {
                      <h2 className="text-2xl font-bold text-slate-800">第三步：分析结果</h2>
                 </div>
 
+                {calcWarning && (
+                    <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-4 flex items-start text-sm">
+                        <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+                        <pre className="whitespace-pre-wrap font-sans">{calcWarning}</pre>
+                    </div>
+                )}
+
+                {resultEnsembleFit && (
+                    <div className="bg-indigo-50 border border-indigo-200 text-indigo-800 rounded-lg p-4 text-sm">
+                        集成权重在 <strong>{resultEnsembleFit.trainDays[0]} ~ {resultEnsembleFit.trainDays[resultEnsembleFit.trainDays.length - 1]}</strong> 上拟合，
+                        以下结果仅统计其后的 <strong>{resultEnsembleFit.evalDays.length}</strong> 天评估窗口。权重：
+                        <span className="font-mono text-xs ml-1">
+                            {(resultSetup?.foreCols ?? foreCols).map((c, i) => `${c}=${resultEnsembleFit.weights[i].toFixed(3)}`).join(', ')}
+                        </span>
+                    </div>
+                )}
+
+                {excludedDays.length > 0 && (
+                    <div className="bg-slate-50 border border-slate-200 text-slate-600 rounded-lg p-4 text-sm">
+                        <strong>{excludedDays.length}</strong> 天因数据完整率低于 {gapPolicy.minCoverage}% 已整日剔除：
+                        <span className="font-mono text-xs ml-1">{excludedDays.join(', ')}</span>
+                    </div>
+                )}
+
+                <PenaltyPanel
+                  model={penaltyModel}
+                  setModel={setPenaltyModel}
+                  onReset={() => setPenaltyModel(getDefaultPenaltyModel(region))}
+                  cap={resultCap}
+                  total={totalPenalty(assessedResults)}
+                />
+
                 <SummaryReport 
-                  results={results} 
+                  results={assessedResults} 
                   stats={stats} 
                   startDate={dateRange.start} 
                   endDate={dateRange.end} 
+                  formulaLabel={resultFormulaLabel}
+                  points={resultPoints}
+                  region={resultSetup?.region ?? region}
+                  cap={resultCap}
+                  threshold={resultSetup?.params.threshold ?? params.threshold}
+                  onSelectDay={setDrillDate}
                 />
                 
-                <AccuracyCharts results={results} stats={stats} />
+                <AccuracyCharts results={assessedResults} stats={stats} providers={providerResults} onSelectDay={setDrillDate} />
                 
-                <DataTable results={results} />
+                <DataTable results={assessedResults} onSelectDay={setDrillDate} />
+
+                {drillDate && resultSetup && (
+                    <DayDrillDown
+                        date={drillDate}
+                        points={drillPoints}
+                        foreCols={resultSetup.foreCols}
+                        region={resultSetup.region}
+                        params={resultSetup.params}
+                        code={resultSetup.code}
+                        rowLogic={resultSetup.rowLogic}
+                        dailyResult={assessedResults.find(r => r.date === drillDate)}
+                        onClose={() => setDrillDate(null)}
+                    />
+                )}
             </div>
         )}
 
@@ -1,30 +1,49 @@
 import React, { useMemo, useState } from 'react';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
-  PieChart, Pie, Cell, AreaChart, Area
+  PieChart, Pie, Cell, AreaChart, Area, BarChart, Bar, ReferenceLine
 } from 'recharts';
-import { DailyResult, CalculationStats } from '../types';
-import { X, Maximize2, Calendar, PieChart as PieChartIcon, Activity, Settings2, AlertCircle } from 'lucide-react';
+import { DailyResult, CalculationStats, ProviderResult } from '../types';
+import { X, Maximize2, Calendar, PieChart as PieChartIcon, Activity, Settings2, AlertCircle, Trophy, GitCompare, Microscope } from 'lucide-react';
 import { mean } from '../services/mathUtils';
+import { buildProviderLeaderboard, pairwiseDifference } from '../services/providerCompare';
+import { ErrorMetricKey, ERROR_METRIC_DEFS, ERROR_METRIC_KEYS, metricChartValue } from '../services/errorMetrics';
 
 interface AccuracyChartsProps {
   results: DailyResult[];
   stats: CalculationStats;
+  providers?: ProviderResult[]; // Ensemble + each forecast column, when the per-provider comparison ran
+  onSelectDay?: (date: string) => void; // Opens the intraday drill-down
 }
 
 const COLORS = ['#10B981', '#F59E0B', '#EF4444']; // Green, Yellow, Red
 
+const METRIC_COLORS: Record<ErrorMetricKey, string> = {
+  bias: '#6366F1',
+  nmae: '#0EA5E9',
+  nrmse: '#EF4444',
+  mape: '#F59E0B',
+  correlation: '#10B981',
+  skill: '#8B5CF6',
+  peakError: '#EC4899',
+  rampHitRate: '#14B8A6'
+};
+
+// Percent metrics share the left axis; MW and unitless ones (bias, correlation) go on the right
+const metricAxis = (key: ErrorMetricKey) => ERROR_METRIC_DEFS[key].unit === '%' ? 'pct' : 'abs';
+
 // Helper to format chart data
 const formatChartData = (data: DailyResult[]) => {
     return data.map(r => ({
         ...r,
         accuracyPct: parseFloat((r.accuracy * 100).toFixed(2)),
+        coveragePct: parseFloat((r.coverage * 100).toFixed(1)),
         shortDate: r.date.substring(8), // DD only for monthly view, or MM-DD for full
         fullShortDate: r.date.substring(5) // MM-DD
     }));
 };
 
-const AccuracyCharts: React.FC<AccuracyChartsProps> = ({ results, stats }) => {
+const AccuracyCharts: React.FC<AccuracyChartsProps> = ({ results, stats, providers = [], onSelectDay }) => {
   // --- State for Dynamic Thresholds ---
   const [thresholds, setThresholds] = useState({ high: 80, medium: 60 });
   const [isEditingThresholds, setIsEditingThresholds] = useState(false);
@@ -88,6 +107,28 @@ const AccuracyCharts: React.FC<AccuracyChartsProps> = ({ results, stats }) => {
     });
   }, [results, thresholds]);
 
+  // Error decomposition series (display units, null where undefined for the day)
+  const [metricSeries, setMetricSeries] = useState<ErrorMetricKey[]>(['nmae', 'nrmse']);
+  const hasMetrics = results.some(r => r.metrics);
+  const metricChartData = useMemo(() => results.map(r => ({
+      date: r.date,
+      fullShortDate: r.date.substring(5),
+      ...Object.fromEntries(ERROR_METRIC_KEYS.map(k => [k, metricChartValue(k, r.metrics?.[k])]))
+  })), [results]);
+
+  const toggleMetricSeries = (key: ErrorMetricKey) =>
+      setMetricSeries(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+
+  // 3. Per-Provider Comparison
+  const leaderboard = useMemo(() => buildProviderLeaderboard(providers), [providers]);
+  const [pairNames, setPairNames] = useState<{ a: string, b: string }>({ a: '', b: '' });
+  const pairA = providers.find(p => p.name === pairNames.a) || providers[1];
+  const pairB = providers.find(p => p.name === pairNames.b) || providers[0];
+  const pairData = useMemo(() => {
+    if (!pairA || !pairB) return [];
+    return pairwiseDifference(pairA, pairB).map(d => ({ ...d, fullShortDate: d.date.substring(5) }));
+  }, [pairA, pairB]);
+
   // --- Handlers ---
   const handleThresholdChange = (key: 'high' | 'medium', value: string) => {
       const num = parseInt(value);
@@ -175,10 +216,19 @@ const AccuracyCharts: React.FC<AccuracyChartsProps> = ({ results, stats }) => {
                 <Activity className="w-5 h-5 mr-2 text-blue-500" />
                 总体准确率趋势 (Overall Trend)
              </h3>
+             {onSelectDay && <span className="text-xs text-slate-400">点击任意日期查看日内明细</span>}
           </div>
           <div className="h-80">
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={overallChartData}>
+              <LineChart
+                data={overallChartData}
+                onClick={state => {
+                  if (state?.activeIndex == null || !onSelectDay) return;
+                  const point = overallChartData[Number(state.activeIndex)];
+                  if (point) onSelectDay(point.date);
+                }}
+                style={onSelectDay ? { cursor: 'pointer' } : undefined}
+              >
                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E2E8F0" />
                 <XAxis dataKey="fullShortDate" stroke="#64748B" fontSize={12} minTickGap={30} />
                 <YAxis domain={[0, 100]} stroke="#64748B" fontSize={12} unit="%" />
@@ -195,6 +245,15 @@ const AccuracyCharts: React.FC<AccuracyChartsProps> = ({ results, stats }) => {
                   dot={{ r: 2, fill: '#3B82F6' }} 
                   activeDot={{ r: 6 }} 
                 />
+                <Line 
+                  type="stepAfter" 
+                  dataKey="coveragePct" 
+                  name="数据完整率 (%)" 
+                  stroke="#94A3B8" 
+                  strokeWidth={1} 
+                  strokeDasharray="4 3" 
+                  dot={false} 
+                />
               </LineChart>
             </ResponsiveContainer>
           </div>
@@ -287,6 +346,71 @@ const AccuracyCharts: React.FC<AccuracyChartsProps> = ({ results, stats }) => {
         </div>
       </div>
 
+      {/* Error Decomposition */}
+      {hasMetrics && (
+        <div className="bg-white p-6 rounded-lg shadow border border-slate-200">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+            <h3 className="text-lg font-semibold text-slate-800 flex items-center">
+              <Microscope className="w-5 h-5 mr-2 text-indigo-500" />
+              误差分解指标 (Error Decomposition)
+            </h3>
+            <div className="flex flex-wrap gap-1">
+              {ERROR_METRIC_KEYS.map(k => {
+                const active = metricSeries.includes(k);
+                return (
+                  <button
+                    key={k}
+                    onClick={() => toggleMetricSeries(k)}
+                    title={ERROR_METRIC_DEFS[k].description}
+                    className={`text-xs px-2 py-1 rounded-full border transition ${active ? 'text-white' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+                    style={active ? { backgroundColor: METRIC_COLORS[k], borderColor: METRIC_COLORS[k] } : undefined}
+                  >
+                    {ERROR_METRIC_DEFS[k].label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={metricChartData}
+                onClick={state => {
+                  if (state?.activeIndex == null || !onSelectDay) return;
+                  const point = metricChartData[Number(state.activeIndex)];
+                  if (point) onSelectDay(point.date);
+                }}
+                style={onSelectDay ? { cursor: 'pointer' } : undefined}
+              >
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E2E8F0" />
+                <XAxis dataKey="fullShortDate" stroke="#64748B" fontSize={12} minTickGap={30} />
+                <YAxis yAxisId="pct" stroke="#64748B" fontSize={12} unit="%" hide={!metricSeries.some(k => metricAxis(k) === 'pct')} />
+                <YAxis yAxisId="abs" orientation="right" stroke="#64748B" fontSize={12} hide={!metricSeries.some(k => metricAxis(k) === 'abs')} />
+                <Tooltip contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0' }} />
+                <Legend />
+                <ReferenceLine yAxisId={metricSeries.some(k => metricAxis(k) === 'pct') ? 'pct' : 'abs'} y={0} stroke="#94A3B8" />
+                {metricSeries.map(k => (
+                  <Line
+                    key={k}
+                    yAxisId={metricAxis(k)}
+                    type="monotone"
+                    dataKey={k}
+                    name={`${ERROR_METRIC_DEFS[k].label}${ERROR_METRIC_DEFS[k].unit ? ` (${ERROR_METRIC_DEFS[k].unit})` : ''}`}
+                    stroke={METRIC_COLORS[k]}
+                    strokeWidth={2}
+                    dot={{ r: 2, fill: METRIC_COLORS[k] }}
+                    activeDot={{ r: 5 }}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            百分比指标使用左轴，偏差 (MW) 与相关系数使用右轴。技能评分以前一日实测作为持续性预测基准；无爬坡或无基准的日期不绘制。
+          </p>
+        </div>
+      )}
+
       {/* 2. Monthly Trend Grid (Small Multiples) */}
       {monthlyGroups.length > 0 && (
           <div className="bg-white p-6 rounded-lg shadow border border-slate-200">
@@ -433,6 +557,104 @@ const AccuracyCharts: React.FC<AccuracyChartsProps> = ({ results, stats }) => {
           </ResponsiveContainer>
         </div>
       </div>
+
+      {/* 5. Forecast Provider Comparison */}
+      {leaderboard.length > 1 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white p-6 rounded-lg shadow border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center">
+              <Trophy className="w-5 h-5 mr-2 text-amber-500" />
+              预测源排行榜 (Provider Leaderboard)
+            </h3>
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2">排名</th>
+                  <th className="px-3 py-2">预测源</th>
+                  <th className="px-3 py-2 text-right">平均准确率</th>
+                  <th className="px-3 py-2 text-right">最低准确率</th>
+                  <th className="px-3 py-2 text-right">平均 RMSE</th>
+                  <th className="px-3 py-2 text-right">日胜出次数</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {leaderboard.map((entry, idx) => (
+                  <tr key={entry.name} className={entry.isEnsemble ? 'bg-blue-50/50' : ''}>
+                    <td className="px-3 py-2 font-mono text-slate-500">{idx + 1}</td>
+                    <td className="px-3 py-2 font-semibold text-slate-800">{entry.name}</td>
+                    <td className={`px-3 py-2 text-right font-mono font-bold ${
+                      entry.meanAccuracy >= (thresholds.high/100) ? 'text-green-600' :
+                      entry.meanAccuracy >= (thresholds.medium/100) ? 'text-yellow-600' : 'text-red-600'
+                    }`}>
+                      {(entry.meanAccuracy * 100).toFixed(2)}%
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono">{(entry.minAccuracy * 100).toFixed(2)}%</td>
+                    <td className="px-3 py-2 text-right font-mono">{entry.meanRmse.toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right font-mono">{entry.isEnsemble ? '-' : `${entry.wins} / ${entry.days}`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow border border-slate-200">
+            <h3 className="text-lg font-semibold text-slate-800 mb-4">日胜出次数 (Daily Wins)</h3>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={leaderboard.filter(e => !e.isEnsemble)}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E2E8F0" />
+                  <XAxis dataKey="name" stroke="#64748B" fontSize={11} />
+                  <YAxis allowDecimals={false} stroke="#64748B" fontSize={12} />
+                  <Tooltip />
+                  <Bar dataKey="wins" name="胜出天数" fill="#F59E0B" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">每天准确率最高的单一预测源记一次胜出，集成预测不参与。</p>
+          </div>
+
+          <div className="lg:col-span-3 bg-white p-6 rounded-lg shadow border border-slate-200">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+              <h3 className="text-lg font-semibold text-slate-800 flex items-center">
+                <GitCompare className="w-5 h-5 mr-2 text-indigo-500" />
+                两两差值 (Pairwise Difference, 百分点)
+              </h3>
+              <div className="flex items-center gap-2 text-sm">
+                <select
+                  value={pairA?.name || ''}
+                  onChange={e => setPairNames(prev => ({ ...prev, a: e.target.value }))}
+                  className="border-slate-300 rounded p-1 border"
+                >
+                  {providers.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+                <span className="text-slate-400">减</span>
+                <select
+                  value={pairB?.name || ''}
+                  onChange={e => setPairNames(prev => ({ ...prev, b: e.target.value }))}
+                  className="border-slate-300 rounded p-1 border"
+                >
+                  {providers.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={pairData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E2E8F0" />
+                  <XAxis dataKey="fullShortDate" stroke="#64748B" fontSize={12} minTickGap={30} />
+                  <YAxis stroke="#64748B" fontSize={12} unit="pp" />
+                  <Tooltip />
+                  <ReferenceLine y={0} stroke="#94A3B8" />
+                  <Bar dataKey="diffPct" name={`${pairA?.name} - ${pairB?.name}`}>
+                    {pairData.map(d => <Cell key={d.date} fill={d.diffPct >= 0 ? '#10B981' : '#EF4444'} />)}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">绿色表示前者当日准确率更高，红色表示后者更高。</p>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { Bot, Check, X, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { AiAssistantResult } from '../services/aiAssistant';
+import { diffLines } from '../services/formulaLibrary';
+
+interface AiReviewPanelProps {
+  current: string; // Row logic currently in the editor
+  result: AiAssistantResult;
+  sampleSize: number;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+/**
+ * Review step for AI-generated row logic: validation rounds, and a diff against the current logic
+ * that the user accepts or rejects. Nothing reaches the editor without the accept click.
+ */
+const AiReviewPanel: React.FC<AiReviewPanelProps> = ({ current, result, sampleSize, onAccept, onReject }) => {
+  const diff = useMemo(() => diffLines(current, result.code), [current, result.code]);
+  const last = result.rounds[result.rounds.length - 1];
+
+  return (
+    <div className="absolute inset-0 z-30 bg-white flex flex-col">
+      <div className="px-4 py-2 border-b border-slate-200 flex items-center justify-between bg-slate-50 shrink-0">
+        <h3 className="font-bold text-slate-700 text-sm flex items-center">
+          <Bot className="w-4 h-4 text-blue-600 mr-2" />
+          AI 生成结果审阅 (Review)
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button onClick={onReject} className="flex items-center text-xs px-3 py-1 border border-slate-300 rounded text-slate-600 hover:bg-white">
+            <X className="w-3 h-3 mr-1" />
+            拒绝
+          </button>
+          <button
+            onClick={onAccept}
+            className={`flex items-center text-xs px-3 py-1 rounded text-white ${result.valid ? 'bg-green-600 hover:bg-green-700' : 'bg-amber-600 hover:bg-amber-700'}`}
+          >
+            <Check className="w-3 h-3 mr-1" />
+            {result.valid ? '接受并替换' : '仍然接受'}
+          </button>
+        </div>
+      </div>
+
+      <div className={`px-4 py-2 text-xs border-b shrink-0 ${result.valid ? 'bg-green-50 border-green-200 text-green-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+        <div className="flex items-center font-semibold">
+          {result.valid ? <CheckCircle2 className="w-3.5 h-3.5 mr-1" /> : <AlertTriangle className="w-3.5 h-3.5 mr-1" />}
+          {result.valid
+            ? `在 ${sampleSize} 行样本上全部计算成功 (共 ${result.rounds.length} 轮${result.rounds.length > 1 ? '，含自动修复' : ''})`
+            : `经过 ${result.rounds.length} 轮仍有问题，请检查后再决定是否接受`}
+        </div>
+        {!result.valid && (
+          <ul className="mt-1 list-disc pl-5 space-y-0.5">
+            {last.problems.map((p, i) => <li key={i}>{p}</li>)}
+          </ul>
+        )}
+        {result.rounds.length > 1 && (
+          <ol className="mt-1 text-[11px] opacity-80 space-y-0.5">
+            {result.rounds.slice(0, -1).map(r => (
+              <li key={r.round}>第 {r.round} 轮：{r.problems.length} 个问题，已反馈给模型修复 — {r.problems[0]}</li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto bg-[#1e1e1e] text-xs font-mono">
+        <div className="px-3 py-1 text-slate-400 bg-[#252526] sticky top-0">当前单行逻辑 → AI 生成</div>
+        {diff.map((l, i) => (
+          <div
+            key={i}
+            className={`px-3 whitespace-pre ${l.type === 'added' ? 'bg-green-900/50 text-green-200' : l.type === 'removed' ? 'bg-red-900/50 text-red-200' : 'text-slate-400'}`}
+          >
+            {l.type === 'added' ? '+ ' : l.type === 'removed' ? '- ' : '  '}{l.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AiReviewPanel;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Bot, X, RefreshCw } from 'lucide-react';
+import { LlmProvider, LlmSettings, LlmBackendStatus, LLM_PROVIDER_LABELS, getLlmSettings, saveLlmSettings, getDefaultLlmSettings, fetchLlmBackendStatus } from '../services/llmProvider';
+
+interface AiSettingsProps {
+  onChange?: (settings: LlmSettings) => void;
+}
+
+/**
+ * Popover choosing the LLM provider used by the AI assistant. Keys stay on the backend; this only picks
+ * the provider, model and (for OpenAI-compatible servers) one of the endpoints the backend allows.
+ */
+const AiSettings: React.FC<AiSettingsProps> = ({ onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<LlmSettings>(getLlmSettings);
+  const [status, setStatus] = useState<LlmBackendStatus | null>(null);
+  const [statusError, setStatusError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const update = (patch: Partial<LlmSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveLlmSettings(next);
+    onChange?.(next);
+  };
+
+  const checkBackend = async (target: LlmSettings = settings) => {
+    setChecking(true);
+    setStatusError(null);
+    try {
+      setStatus(await fetchLlmBackendStatus(target));
+    } catch (err: any) {
+      setStatus(null);
+      setStatusError(err.message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const toggle = () => {
+    if (!open && !status) checkBackend();
+    setOpen(!open);
+  };
+
+  const defaultModel = settings.provider === 'gemini' ? status?.gemini.defaultModel : status?.openai.defaultModel;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="flex items-center text-xs px-2 py-1 border border-slate-200 rounded text-slate-600 hover:bg-slate-50"
+        title="AI 模型服务 (LLM Provider)"
+      >
+        <Bot className={`w-3.5 h-3.5 mr-1 ${settings.provider === 'disabled' ? 'text-slate-400' : 'text-blue-500'}`} />
+        {settings.provider === 'disabled' ? 'AI 关' : settings.provider === 'gemini' ? 'Gemini' : '本地模型'}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-40 w-80 bg-white rounded-lg shadow-lg border border-slate-200 p-3 text-xs space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-slate-700">AI 模型服务</span>
+            <button onClick={() => setOpen(false)} className="text-slate-400 hover:text-slate-700">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            {(Object.keys(LLM_PROVIDER_LABELS) as LlmProvider[]).map(p => (
+              <label key={p} className="flex items-center text-slate-600">
+                <input type="radio" checked={settings.provider === p} onChange={() => update({ provider: p })} className="mr-1.5" />
+                {LLM_PROVIDER_LABELS[p]}
+              </label>
+            ))}
+          </div>
+
+          {settings.provider !== 'disabled' && (
+            <>
+              <label className="block text-slate-600">
+                后端地址
+                <input
+                  value={settings.backendUrl}
+                  onChange={e => update({ backendUrl: e.target.value })}
+                  onBlur={() => checkBackend()}
+                  className="mt-1 w-full border border-slate-300 rounded px-1 py-0.5 font-mono"
+                  placeholder="http://localhost:8000/api"
+                />
+              </label>
+
+              {settings.provider === 'openai' && (
+                <label className="block text-slate-600">
+                  接口地址 (后端允许列表)
+                  {status && status.openai.endpoints.length > 0 ? (
+                    <select
+                      value={settings.endpoint || status.openai.endpoints[0]}
+                      onChange={e => update({ endpoint: e.target.value })}
+                      className="mt-1 w-full border border-slate-300 rounded px-1 py-0.5 font-mono"
+                    >
+                      {status.openai.endpoints.map(url => <option key={url} value={url}>{url}</option>)}
+                    </select>
+                  ) : (
+                    <input
+                      value={settings.endpoint}
+                      onChange={e => update({ endpoint: e.target.value })}
+                      className="mt-1 w-full border border-slate-300 rounded px-1 py-0.5 font-mono"
+                      placeholder="留空则使用后端的 OPENAI_BASE_URL"
+                    />
+                  )}
+                </label>
+              )}
+
+              <label className="block text-slate-600">
+                模型
+                <input
+                  value={settings.model}
+                  onChange={e => update({ model: e.target.value })}
+                  className="mt-1 w-full border border-slate-300 rounded px-1 py-0.5 font-mono"
+                  placeholder={defaultModel ? `留空使用后端默认: ${defaultModel}` : '例如 qwen2.5-coder:7b'}
+                />
+              </label>
+
+              <div className="flex items-start justify-between">
+                <span className={statusError ? 'text-red-600' : 'text-slate-400'}>
+                  {checking ? '正在检查后端...'
+                    : statusError ? statusError
+                    : !status ? ''
+                    : settings.provider === 'gemini'
+                      ? (status.gemini.configured ? '后端已配置 Gemini 密钥' : '后端未配置 GEMINI_API_KEY')
+                      : (status.openai.endpoints.length ? `后端允许 ${status.openai.endpoints.length} 个接口` : '后端未配置 OPENAI_BASE_URL')}
+                </span>
+                <button onClick={() => checkBackend()} disabled={checking} className="text-slate-400 hover:text-slate-700 ml-2" title="重新检查">
+                  <RefreshCw className={`w-3.5 h-3.5 ${checking ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+            </>
+          )}
+
+          <p className="text-slate-400">API 密钥只保存在后端 (server.py 的环境变量)，浏览器中不包含任何密钥。</p>
+          <button onClick={() => update(getDefaultLlmSettings())} className="text-blue-600 hover:underline">恢复默认</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiSettings;
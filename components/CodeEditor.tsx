@@ -0,0 +1,250 @@
+import React, { forwardRef, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CompletionItem, TokenKind, tokenizePythonLine, nextLineIndent, getCompletions } from '../services/pythonSyntax';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  variables: CompletionItem[]; // Context variables of this pane: highlighted and offered by autocomplete
+  placeholder?: string;
+  errorLine?: number | null; // 1-based line to squiggle, e.g. from a PythonError
+  errorTitle?: string; // Tooltip on the squiggled line
+}
+
+export interface CodeEditorHandle {
+  insertAtCursor: (text: string) => void;
+}
+
+// Shared by the gutter, highlight layer and textarea so their lines stay aligned
+const LINE_HEIGHT = 22;
+const PADDING = 12;
+const INDENT = '    ';
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  keyword: 'text-[#c586c0]',
+  builtin: 'text-[#dcdcaa]',
+  variable: 'text-[#9cdcfe] font-semibold',
+  number: 'text-[#b5cea8]',
+  string: 'text-[#ce9178]',
+  comment: 'text-[#6a9955] italic',
+  operator: 'text-[#d4d4d4]',
+  text: 'text-[#d4d4d4]'
+};
+
+/**
+ * Python code editor: a transparent textarea over a highlighted copy of the text, with a line-number
+ * gutter, auto-indent, Tab / Shift+Tab on the selected lines, context-variable autocomplete and a squiggle
+ * on the error line.
+ */
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ value, onChange, variables, placeholder, errorLine, errorTitle }, ref) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const pendingSelection = useRef<{ start: number, end: number } | null>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [completion, setCompletion] = useState<{ from: number, caret: number, items: CompletionItem[], index: number } | null>(null);
+
+  const lines = value.split('\n');
+  const variableNames = useMemo(() => new Set(variables.map(v => v.label)), [variables]);
+
+  // Restore the selection after a controlled (fallback) edit has been rendered
+  useLayoutEffect(() => {
+    if (pendingSelection.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingSelection.current.start, pendingSelection.current.end);
+    pendingSelection.current = null;
+  });
+
+  /**
+   * Replaces a range through the browser's own editing (insertText), so every edit lands in the native undo
+   * history and reaches onChange as an ordinary input event. Falls back to a controlled update where
+   * insertText is unsupported. The caret ends after the text unless `select` says otherwise.
+   */
+  const replaceRange = (start: number, end: number, text: string, select?: { start: number, end: number }) => {
+    const ta = textareaRef.current;
+    const after = select ?? { start: start + text.length, end: start + text.length };
+    if (ta) {
+      ta.focus();
+      ta.setSelectionRange(start, end);
+      if (document.execCommand('insertText', false, text)) {
+        ta.setSelectionRange(after.start, after.end);
+        return;
+      }
+    }
+    onChange(value.slice(0, start) + text + value.slice(end));
+    pendingSelection.current = after;
+  };
+
+  useImperativeHandle(ref, () => ({
+    insertAtCursor: (text: string) => {
+      const ta = textareaRef.current;
+      const start = ta ? ta.selectionStart : value.length;
+      const end = ta ? ta.selectionEnd : value.length;
+      replaceRange(start, end, text);
+    }
+  }));
+
+  // Indents (or dedents by up to one level) every line the selection touches; a selection ending right
+  // at the start of a line leaves that line alone
+  const shiftLines = (start: number, end: number, dedent: boolean) => {
+    const blockStart = value.lastIndexOf('\n', start - 1) + 1;
+    const lastChar = end > start && value[end - 1] === '\n' ? end - 1 : end;
+    const lineEnd = value.indexOf('\n', lastChar);
+    const blockEnd = lineEnd < 0 ? value.length : lineEnd;
+
+    const blockLines = value.slice(blockStart, blockEnd).split('\n');
+    const removed = blockLines.map(line => dedent ? Math.min(INDENT.length, line.match(/^ */)?.[0].length ?? 0) : 0);
+    if (dedent && removed.every(n => n === 0)) return;
+    const block = blockLines.map((line, i) => dedent ? line.slice(removed[i]) : INDENT + line).join('\n');
+
+    // A bare caret stays on its text; a selection covers the shifted lines
+    const select = start === end
+      ? { start: Math.max(blockStart, start - removed[0]), end: Math.max(blockStart, start - removed[0]) }
+      : { start: blockStart, end: blockStart + block.length };
+    replaceRange(blockStart, blockEnd, block, select);
+  };
+
+  const updateCompletion = (text: string, caret: number) => {
+    const lineStart = text.lastIndexOf('\n', caret - 1) + 1;
+    const found = getCompletions(text.slice(lineStart, caret), variables);
+    setCompletion(found ? { from: lineStart + found.from, caret, items: found.items, index: 0 } : null);
+  };
+
+  const acceptCompletion = (item: CompletionItem) => {
+    if (!completion) return;
+    replaceRange(completion.from, completion.caret, item.label);
+    setCompletion(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const ta = e.currentTarget;
+    const { selectionStart: start, selectionEnd: end } = ta;
+
+    if (completion) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCompletion({ ...completion, index: (completion.index + step + completion.items.length) % completion.items.length });
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        acceptCompletion(completion.items[completion.index]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setCompletion(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+      replaceRange(start, end, '\n' + nextLineIndent(value.slice(lineStart, start)));
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      if (e.shiftKey || start !== end) {
+        shiftLines(start, end, e.shiftKey);
+      } else {
+        replaceRange(start, end, INDENT);
+      }
+    }
+  };
+
+  // Caret position of the completion popup, from the monospace character width
+  const popupPosition = (() => {
+    if (!completion) return null;
+    const before = value.slice(0, completion.from);
+    const line = before.split('\n').length - 1;
+    const col = completion.from - (before.lastIndexOf('\n') + 1);
+    const charWidth = (measureRef.current?.getBoundingClientRect().width ?? 84) / 10;
+    return {
+      top: PADDING + (line + 1) * LINE_HEIGHT - scroll.top,
+      left: PADDING + col * charWidth - scroll.left
+    };
+  })();
+
+  const fontStyle: React.CSSProperties = { fontFamily: "'Fira Code', 'Consolas', monospace", lineHeight: `${LINE_HEIGHT}px` };
+
+  return (
+    <div className="w-full h-full flex bg-[#1e1e1e] overflow-hidden">
+      <div className="relative w-10 shrink-0 bg-[#1e1e1e] border-r border-[#3e3e42] overflow-hidden select-none">
+        <div style={{ transform: `translateY(${-scroll.top}px)`, paddingTop: PADDING }}>
+          {lines.map((_, i) => (
+            <div
+              key={i}
+              className={`pr-2 text-right font-mono text-xs ${errorLine === i + 1 ? 'text-red-400 font-bold' : 'text-[#858585]'}`}
+              style={{ height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }}
+              title={errorLine === i + 1 ? errorTitle : undefined}
+            >
+              {i + 1}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative flex-1 min-w-0 overflow-hidden">
+        <span ref={measureRef} className="absolute invisible font-mono text-sm whitespace-pre" style={fontStyle}>MMMMMMMMMM</span>
+
+        {/* Highlight layer, scrolled with the textarea */}
+        <pre
+          aria-hidden
+          className="absolute inset-0 m-0 font-mono text-sm whitespace-pre pointer-events-none"
+          style={{ ...fontStyle, padding: PADDING, transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}
+        >
+          {lines.map((line, i) => {
+            const isError = errorLine === i + 1;
+            return (
+              <div key={i} style={{ height: LINE_HEIGHT }} className={isError ? 'bg-red-900/30' : undefined}>
+                <span className={isError ? 'underline decoration-wavy decoration-red-500 underline-offset-4' : undefined}>
+                  {tokenizePythonLine(line, variableNames).map((t, j) => (
+                    <span key={j} className={TOKEN_CLASSES[t.kind]}>{t.text}</span>
+                  ))}
+                </span>
+                {isError && line.trim() === '' && <span className="underline decoration-wavy decoration-red-500">{'    '}</span>}
+              </div>
+            );
+          })}
+        </pre>
+
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCompletion(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setCompletion(null)}
+          onClick={() => setCompletion(null)}
+          onScroll={(e) => setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })}
+          className="relative w-full h-full font-mono text-sm bg-transparent text-transparent caret-white selection:bg-[#264f78] placeholder-[#6a6a6a] focus:outline-none resize-none whitespace-pre overflow-auto"
+          spellCheck={false}
+          wrap="off"
+          placeholder={placeholder}
+          style={{ ...fontStyle, padding: PADDING }}
+        />
+
+        {completion && popupPosition && (
+          <ul
+            className="absolute z-20 min-w-[200px] bg-[#252526] border border-[#454545] rounded shadow-lg text-xs font-mono py-0.5"
+            style={{ top: popupPosition.top, left: popupPosition.left }}
+          >
+            {completion.items.map((item, i) => (
+              <li
+                key={item.label}
+                // Keep focus in the textarea while picking with the mouse
+                onMouseDown={(e) => { e.preventDefault(); acceptCompletion(item); }}
+                className={`px-2 py-0.5 flex justify-between cursor-pointer ${i === completion.index ? 'bg-[#04395e] text-white' : 'text-[#cccccc] hover:bg-[#2a2d2e]'}`}
+              >
+                <span className={item.kind === 'variable' ? 'text-[#9cdcfe]' : item.kind === 'keyword' ? 'text-[#c586c0]' : 'text-[#dcdcaa]'}>{item.label}</span>
+                <span className="ml-4 text-[#858585] font-sans">{item.detail}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default CodeEditor;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Settings, MapPin, Zap } from 'lucide-react';
-import { Region, CalculationParams } from '../types';
+import { Region, RegionRule, CalculationParams } from '../types';
+import { getRegionRule } from '../services/regionRules';
 
 interface ControlsProps {
   region: Region;
@@ -8,22 +9,14 @@ interface ControlsProps {
   params: CalculationParams;
   setParams: (p: CalculationParams) => void;
   dataLoaded: boolean;
+  rules: RegionRule[]; // Built-in and imported region rules
 }
 
-const Controls: React.FC<ControlsProps> = ({ region, setRegion, params, setParams, dataLoaded }) => {
+const Controls: React.FC<ControlsProps> = ({ region, setRegion, params, setParams, dataLoaded, rules }) => {
   
-  const regions: Region[] = ['Shanxi', 'Northwest', 'Northeast', 'South', 'East', 'Central'];
-  const regionNames: Record<Region, string> = {
-    'Shanxi': '山西 (Shanxi)',
-    'Northwest': '西北 (Northwest)',
-    'Northeast': '东北 (Dongbei)',
-    'South': '南方 (South)',
-    'East': '华东 (Huadong)',
-    'Central': '华中 (Central)'
-  };
-
-  // Enable threshold for Northwest (usually 3%) and Northeast (usually 10%)
-  const showThreshold = region === 'Northwest' || region === 'Northeast';
+  // Only rules with a dead band (e.g. Northwest 3%, Northeast 10%) take a threshold
+  const rule = getRegionRule(region);
+  const showThreshold = rule.params.useThreshold;
 
   if (!dataLoaded) return null;
 
@@ -46,8 +39,8 @@ const Controls: React.FC<ControlsProps> = ({ region, setRegion, params, setParam
             onChange={(e) => setRegion(e.target.value as Region)}
             className="w-full border-slate-300 rounded-md shadow-sm p-2 border focus:ring-blue-500 focus:border-blue-500 bg-slate-50"
           >
-            {regions.map(r => (
-              <option key={r} value={r}>{regionNames[r]}</option>
+            {rules.map(r => (
+              <option key={r.id} value={r.id}>{r.name}{r.builtin ? '' : ' · 导入'}</option>
             ))}
           </select>
           <p className="text-xs text-slate-500 mt-1">
@@ -89,7 +82,7 @@ const Controls: React.FC<ControlsProps> = ({ region, setRegion, params, setParam
           </div>
           <p className="text-xs text-slate-500 mt-1">
             {showThreshold ? 
-              (region === 'Northeast' ? '东北区域建议 10%' : '西北区域建议 3%') 
+              (rule.params.thresholdHint || `默认 ${(rule.params.threshold * 100).toFixed(0)}%`) 
               : '当前区域无需配置此项'}
           </p>
         </div>
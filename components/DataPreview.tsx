@@ -1,5 +1,6 @@
 import React from 'react';
 import { RawRow } from '../types';
+import { cellValue } from '../services/dataPrep';
 import { Table, ArrowRight } from 'lucide-react';
 
 interface DataPreviewProps {
@@ -65,18 +66,21 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, realCol, foreCols, date
                 </tr>
             ) : (
                 previewRows.map((row, idx) => {
-                  const realVal = Number(row[realCol]) || 0;
-                  const foreVals = foreCols.map(c => Number(row[c]) || 0);
-                  const avgFore = foreVals.reduce((a,b)=>a+b,0) / (foreVals.length || 1);
+                  const realVal = cellValue(row, realCol);
+                  const foreVals = foreCols.map(c => cellValue(row, c));
+                  const validFore = foreVals.filter((v): v is number => v !== null);
+                  const avgFore = validFore.length === foreVals.length && validFore.length > 0
+                    ? validFore.reduce((a,b)=>a+b,0) / validFore.length
+                    : null;
 
                   return (
                     <tr key={idx} className="hover:bg-slate-50">
                       <td className="px-4 py-2 text-slate-700 whitespace-nowrap">{row.time}</td>
-                      <td className="px-4 py-2 font-mono text-blue-700">{realVal.toFixed(2)}</td>
-                      <td className="px-4 py-2 font-mono text-green-700">{avgFore.toFixed(2)}</td>
+                      <td className="px-4 py-2 font-mono text-blue-700">{realVal === null ? <span className="text-red-400">缺测</span> : realVal.toFixed(2)}</td>
+                      <td className="px-4 py-2 font-mono text-green-700">{avgFore === null ? <span className="text-red-400">缺测</span> : avgFore.toFixed(2)}</td>
                       {foreCols.length > 1 && (
                           <td className="px-4 py-2 text-xs text-slate-400">
-                              [{foreVals.map(v => v.toFixed(1)).join(', ')}]
+                              [{foreVals.map(v => v === null ? '—' : v.toFixed(1)).join(', ')}]
                           </td>
                       )}
                     </tr>
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert, AlertCircle, AlertTriangle, ChevronDown, ChevronRight, Ban, RotateCcw } from 'lucide-react';
+import { QualityIssue } from '../services/dataQuality';
+
+interface DataQualityPanelProps {
+  issues: QualityIssue[];
+  excludedDates: string[];
+  onToggleDate: (date: string) => void;
+  onExcludeDates: (dates: string[]) => void;
+  onClearExclusions: () => void;
+}
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ issues, excludedDates, onToggleDate, onExcludeDates, onClearExclusions }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const excluded = new Set(excludedDates);
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-slate-200 mt-6 flex flex-col">
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+        <div className="flex items-center">
+          {issues.length === 0
+            ? <ShieldCheck className="w-5 h-5 text-green-600 mr-2" />
+            : <ShieldAlert className="w-5 h-5 text-amber-600 mr-2" />}
+          <h3 className="font-bold text-slate-800">数据质量检查 (Quality Audit)</h3>
+        </div>
+        <span className="text-xs text-slate-500">{issues.length} 项问题</span>
+      </div>
+
+      {excludedDates.length > 0 && (
+        <div className="px-4 py-2 bg-red-50 border-b border-red-100 text-xs text-red-700 flex items-center justify-between">
+          <span>已手动剔除 <strong>{excludedDates.length}</strong> 天，不参与计算</span>
+          <button onClick={onClearExclusions} className="flex items-center text-red-600 hover:text-red-800">
+            <RotateCcw className="w-3 h-3 mr-1" />
+            全部恢复
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto max-h-[420px] divide-y divide-slate-100">
+        {issues.length === 0 ? (
+          <div className="p-8 text-center text-sm text-slate-500">
+            未发现重复、缺失、卡死、负值、超容量或全零预测等问题。
+          </div>
+        ) : (
+          issues.map(issue => {
+            const isExpanded = expandedId === issue.id;
+            const remaining = issue.days.filter(d => !excluded.has(d));
+            return (
+              <div key={issue.id} className="p-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : issue.id)}
+                    className="flex items-start text-left flex-1"
+                  >
+                    {isExpanded
+                      ? <ChevronDown className="w-4 h-4 mr-1 mt-0.5 text-slate-400 flex-shrink-0" />
+                      : <ChevronRight className="w-4 h-4 mr-1 mt-0.5 text-slate-400 flex-shrink-0" />}
+                    {issue.severity === 'error'
+                      ? <AlertCircle className="w-4 h-4 mr-2 mt-0.5 text-red-500 flex-shrink-0" />
+                      : <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 text-amber-500 flex-shrink-0" />}
+                    <div>
+                      <div className="font-semibold text-slate-800">{issue.title}</div>
+                      <div className="text-xs text-slate-500 mt-0.5">{issue.detail}</div>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => onExcludeDates(remaining)}
+                    disabled={remaining.length === 0}
+                    className="flex items-center px-2 py-1 text-xs text-red-600 border border-red-200 rounded hover:bg-red-50 disabled:opacity-40 disabled:cursor-not-allowed whitespace-nowrap"
+                    title="将受影响的日期全部剔除"
+                  >
+                    <Ban className="w-3 h-3 mr-1" />
+                    剔除 {remaining.length} 天
+                  </button>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-2 ml-11 flex flex-wrap gap-1">
+                    {issue.days.map(d => (
+                      <button
+                        key={d}
+                        onClick={() => onToggleDate(d)}
+                        className={`px-2 py-0.5 rounded text-[11px] font-mono border transition ${
+                          excluded.has(d)
+                            ? 'bg-red-100 text-red-700 border-red-200 line-through'
+                            : 'bg-slate-50 text-slate-600 border-slate-200 hover:bg-slate-100'
+                        }`}
+                        title={excluded.has(d) ? '点击恢复该日' : '点击剔除该日'}
+                      >
+                        {d}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -1,23 +1,44 @@
 import React, { useState } from 'react';
 import { DailyResult } from '../types';
-import { ArrowUpDown, Download } from 'lucide-react';
+import { ArrowUpDown, Download, Columns3 } from 'lucide-react';
+import { formatFee, totalPenalty } from '../services/penalty';
+import { computeMonthlyStats } from '../services/calculation';
+import { ErrorMetricKey, ERROR_METRIC_DEFS, ERROR_METRIC_KEYS, formatMetric } from '../services/errorMetrics';
 
 interface DataTableProps {
   results: DailyResult[];
+  onSelectDay?: (date: string) => void; // Opens the intraday drill-down
 }
 
-const DataTable: React.FC<DataTableProps> = ({ results }) => {
-  const [sortConfig, setSortConfig] = useState<{ key: keyof DailyResult; direction: 'asc' | 'desc' } | null>(null);
+type SortKey = keyof DailyResult | ErrorMetricKey;
+
+const isMetricKey = (key: SortKey): key is ErrorMetricKey => key in ERROR_METRIC_DEFS;
+
+const DataTable: React.FC<DataTableProps> = ({ results, onSelectDay }) => {
+  const hasPenalty = results.some(r => r.penaltyFee !== undefined);
+  const hasMetrics = results.some(r => r.metrics);
+  const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: 'asc' | 'desc' } | null>(null);
+  const [metricColumns, setMetricColumns] = useState<ErrorMetricKey[]>([]);
+  const [showColumnPicker, setShowColumnPicker] = useState(false);
+
+  // Monthly subtotals and the period total, the same figures as the summary report
+  const monthlyStats = React.useMemo(() => computeMonthlyStats(results), [results]);
+  const periodPenalty = React.useMemo(() => totalPenalty(results), [results]);
 
   const sortedResults = React.useMemo(() => {
     let sortableItems = [...results];
     if (sortConfig !== null) {
+      const { key, direction } = sortConfig;
       sortableItems.sort((a, b) => {
-        if (a[sortConfig.key] < b[sortConfig.key]) {
-          return sortConfig.direction === 'asc' ? -1 : 1;
+        const va = isMetricKey(key) ? a.metrics?.[key] : a[key];
+        const vb = isMetricKey(key) ? b.metrics?.[key] : b[key];
+        // Days where a metric is undefined (e.g. no ramps) stay at the bottom either way
+        if (isMetricKey(key) && (va == null || vb == null)) return (va == null ? 1 : 0) - (vb == null ? 1 : 0);
+        if ((va ?? 0) < (vb ?? 0)) {
+          return direction === 'asc' ? -1 : 1;
         }
-        if (a[sortConfig.key] > b[sortConfig.key]) {
-          return sortConfig.direction === 'asc' ? 1 : -1;
+        if ((va ?? 0) > (vb ?? 0)) {
+          return direction === 'asc' ? 1 : -1;
         }
         return 0;
       });
@@ -25,7 +46,12 @@ const DataTable: React.FC<DataTableProps> = ({ results }) => {
     return sortableItems;
   }, [results, sortConfig]);
 
-  const requestSort = (key: keyof DailyResult) => {
+  const toggleMetricColumn = (key: ErrorMetricKey) => {
+    // Keep the picker's order regardless of click order
+    setMetricColumns(prev => prev.includes(key) ? prev.filter(k => k !== key) : ERROR_METRIC_KEYS.filter(k => k === key || prev.includes(k)));
+  };
+
+  const requestSort = (key: SortKey) => {
     let direction: 'asc' | 'desc' = 'asc';
     if (sortConfig && sortConfig.key === key && sortConfig.direction === 'asc') {
       direction = 'desc';
@@ -34,15 +60,34 @@ const DataTable: React.FC<DataTableProps> = ({ results }) => {
   };
 
   const exportCSV = () => {
-    const header = ['日期', '准确率', 'MAE (MW)', 'RMSE (MW)', '实际均值', '预测均值'];
-    const rows = results.map(r => [
-      r.date, 
-      (r.accuracy * 100).toFixed(2) + '%', 
-      r.mae.toFixed(2), 
-      r.rmse.toFixed(2), 
-      r.avgReal.toFixed(2), 
-      r.avgFore.toFixed(2)
-    ]);
+    const header = ['日期', '准确率', 'MAE (MW)', 'RMSE (MW)', '实际均值', '预测均值', '数据完整率'];
+    metricColumns.forEach(k => header.push(ERROR_METRIC_DEFS[k].label + (ERROR_METRIC_DEFS[k].unit === 'MW' ? ' (MW)' : '')));
+    if (hasPenalty) header.push('考核电量 (MWh)', '考核费用 (元)');
+    const blanks = ['', '', '', '', '', '', ...metricColumns.map(() => '')];
+    const rows: string[][] = [];
+    results.forEach((r, i) => {
+      rows.push([
+        r.date,
+        (r.accuracy * 100).toFixed(2) + '%',
+        r.mae.toFixed(2),
+        r.rmse.toFixed(2),
+        r.avgReal.toFixed(2),
+        r.avgFore.toFixed(2),
+        (r.coverage * 100).toFixed(1) + '%',
+        ...metricColumns.map(k => formatMetric(k, r.metrics?.[k])),
+        ...(hasPenalty ? [(r.penaltyMwh ?? 0).toFixed(3), (r.penaltyFee ?? 0).toFixed(2)] : [])
+      ]);
+      // Monthly subtotal after the last day of each month (results are in date order)
+      const month = r.date.substring(0, 7);
+      const m = monthlyStats.find(stat => stat.month === month);
+      if (hasPenalty && m && results[i + 1]?.date.substring(0, 7) !== month) {
+        rows.push([`${month} 小计`, ...blanks, (m.penaltyMwh ?? 0).toFixed(3), (m.penaltyFee ?? 0).toFixed(2)]);
+      }
+    });
+    if (hasPenalty) {
+      // Period total row for the finance sheet
+      rows.push(['合计', ...blanks, periodPenalty.mwh.toFixed(3), periodPenalty.fee.toFixed(2)]);
+    }
     
     const csvContent = "data:text/csv;charset=utf-8,\uFEFF" 
       + header.join(",") + "\n" 
@@ -61,13 +106,39 @@ const DataTable: React.FC<DataTableProps> = ({ results }) => {
     <div className="bg-white shadow rounded-lg overflow-hidden">
       <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
         <h3 className="font-semibold text-slate-800">详细数据 (Detailed Data)</h3>
-        <button 
-          onClick={exportCSV}
-          className="flex items-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition"
-        >
-          <Download className="w-4 h-4 mr-1" />
-          导出 CSV
-        </button>
+        <div className="flex items-center space-x-2">
+          {hasMetrics && (
+            <div className="relative">
+              <button
+                onClick={() => setShowColumnPicker(!showColumnPicker)}
+                className="flex items-center px-3 py-1.5 border border-slate-300 text-slate-600 text-sm rounded hover:bg-white transition"
+              >
+                <Columns3 className="w-4 h-4 mr-1" />
+                误差指标列{metricColumns.length > 0 ? ` (${metricColumns.length})` : ''}
+              </button>
+              {showColumnPicker && (
+                <div className="absolute right-0 top-full mt-1 z-20 w-72 bg-white rounded-lg shadow-lg border border-slate-200 p-2 space-y-1">
+                  {ERROR_METRIC_KEYS.map(k => (
+                    <label key={k} className="flex items-start text-xs text-slate-700 p-1 rounded hover:bg-slate-50 cursor-pointer">
+                      <input type="checkbox" checked={metricColumns.includes(k)} onChange={() => toggleMetricColumn(k)} className="mr-2 mt-0.5" />
+                      <span>
+                        <span className="font-medium">{ERROR_METRIC_DEFS[k].label}</span>
+                        <span className="block text-slate-400">{ERROR_METRIC_DEFS[k].description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          <button 
+            onClick={exportCSV}
+            className="flex items-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            导出 CSV
+          </button>
+        </div>
       </div>
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-slate-200">
@@ -88,11 +159,36 @@ const DataTable: React.FC<DataTableProps> = ({ results }) => {
               <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                 实际功率均值
               </th>
+              <th onClick={() => requestSort('coverage')} className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider cursor-pointer hover:bg-slate-100">
+                数据完整率
+              </th>
+              {metricColumns.map(k => (
+                <th
+                  key={k}
+                  onClick={() => requestSort(k)}
+                  title={ERROR_METRIC_DEFS[k].description}
+                  className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider cursor-pointer hover:bg-slate-100"
+                >
+                  <div className="flex items-center whitespace-nowrap">
+                    {ERROR_METRIC_DEFS[k].label}{ERROR_METRIC_DEFS[k].unit === 'MW' ? ' (MW)' : ''} <ArrowUpDown className="w-3 h-3 ml-1" />
+                  </div>
+                </th>
+              ))}
+              {hasPenalty && (
+                <th onClick={() => requestSort('penaltyFee')} className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider cursor-pointer hover:bg-slate-100">
+                  <div className="flex items-center">考核电量 / 费用 <ArrowUpDown className="w-3 h-3 ml-1" /></div>
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-slate-200">
             {sortedResults.map((row, idx) => (
-              <tr key={idx} className="hover:bg-slate-50 transition">
+              <tr
+                key={idx}
+                onClick={() => onSelectDay?.(row.date)}
+                className={`hover:bg-slate-50 transition ${onSelectDay ? 'cursor-pointer' : ''}`}
+                title={onSelectDay ? '点击查看日内明细' : undefined}
+              >
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900 font-medium">{row.date}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
                   <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
@@ -105,9 +201,40 @@ const DataTable: React.FC<DataTableProps> = ({ results }) => {
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{row.rmse.toFixed(2)}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{row.mae.toFixed(2)}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{row.avgReal.toFixed(2)}</td>
+                <td className={`px-6 py-4 whitespace-nowrap text-sm ${row.coverage < 1 ? 'text-amber-600 font-medium' : 'text-slate-500'}`}>{(row.coverage * 100).toFixed(1)}%</td>
+                {metricColumns.map(k => (
+                  <td key={k} className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-500">{formatMetric(k, row.metrics?.[k])}</td>
+                ))}
+                {hasPenalty && (
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm font-mono ${(row.penaltyFee ?? 0) > 0 ? 'text-red-600' : 'text-slate-400'}`}>
+                    {(row.penaltyMwh ?? 0).toFixed(2)} MWh / ¥{formatFee(row.penaltyFee ?? 0)}
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
+          {hasPenalty && (
+            <tfoot className="bg-slate-50 border-t-2 border-slate-200 text-sm">
+              {monthlyStats.map(m => (
+                <tr key={m.month} className="text-slate-600">
+                  <td className="px-6 py-2 whitespace-nowrap font-medium">{m.month} 小计</td>
+                  <td colSpan={5 + metricColumns.length} className="px-6 py-2 text-xs text-slate-400">{m.daysCount} 天</td>
+                  <td className={`px-6 py-2 whitespace-nowrap font-mono ${(m.penaltyFee ?? 0) > 0 ? 'text-red-600' : 'text-slate-400'}`}>
+                    {(m.penaltyMwh ?? 0).toFixed(2)} MWh / ¥{formatFee(m.penaltyFee ?? 0)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="font-bold text-slate-800 border-t border-slate-200">
+                <td className="px-6 py-3 whitespace-nowrap">合计</td>
+                <td colSpan={5 + metricColumns.length} className="px-6 py-3 text-xs font-normal text-slate-500">
+                  {results.length} 天，其中 {periodPenalty.assessedDays} 天被考核
+                </td>
+                <td className={`px-6 py-3 whitespace-nowrap font-mono ${periodPenalty.fee > 0 ? 'text-red-600' : 'text-slate-500'}`}>
+                  {periodPenalty.mwh.toFixed(2)} MWh / ¥{formatFee(periodPenalty.fee)}
+                </td>
+              </tr>
+            </tfoot>
+          )}
         </table>
       </div>
     </div>
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { X, Calendar, Loader2, AlertCircle } from 'lucide-react';
+import { DataPoint, DailyResult, Region, CalculationParams } from '../types';
+import { runRowPreview } from '../services/formulas';
+import { getRegionRule } from '../services/regionRules';
+import FormulaExplainer from './FormulaExplainer';
+
+interface DayDrillDownProps {
+  date: string;
+  points: DataPoint[]; // The day's points exactly as they went into the calculation
+  foreCols: string[];
+  region: Region;
+  params: CalculationParams;
+  code: string; // Full formula script, for the audit trail's reconciliation
+  rowLogic: string;
+  dailyResult?: DailyResult;
+  onClose: () => void;
+}
+
+// HH:MM in local time, for the x axis
+const toClock = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const FORECAST_COLORS = ['#A855F7', '#F97316', '#06B6D4', '#84CC16', '#EC4899', '#64748B'];
+
+const DayDrillDown: React.FC<DayDrillDownProps> = ({ date, points, foreCols, region, params, code, rowLogic, dailyResult, onClose }) => {
+  const { cap, threshold } = params;
+  const [rowResults, setRowResults] = useState<(number | string)[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [rowError, setRowError] = useState<string | null>(null);
+
+  // Per-interval `result` values from the formula's row logic, over the whole day
+  useEffect(() => {
+    if (!rowLogic || points.length === 0) return;
+    let cancelled = false;
+
+    const run = async () => {
+      setIsRunning(true);
+      setRowError(null);
+      try {
+        const results = await runRowPreview(rowLogic, {
+          real: points.map(p => p.real),
+          fore: points.map(p => p.forecast),
+          fore_list: points.map(p => p.forecasts),
+          cap,
+          threshold
+        });
+        if (!cancelled) setRowResults(results.values);
+      } catch (err: any) {
+        if (!cancelled) {
+          setRowError(err.message);
+          setRowResults([]);
+        }
+      } finally {
+        if (!cancelled) setIsRunning(false);
+      }
+    };
+    run();
+
+    return () => { cancelled = true; };
+  }, [rowLogic, points, cap, threshold]);
+
+  // Dead band as the rules define it: an interval is exempt when R and F are both below threshold * Cap.
+  // Rules without a dead band show neither the shading nor the count.
+  const hasDeadBand = getRegionRule(region).params.useThreshold;
+  const deadBand = cap * threshold;
+  const isInDeadBand = (p: DataPoint) => hasDeadBand && p.real < deadBand && p.forecast < deadBand;
+
+  const chartData = useMemo(() => points.map((p, i) => {
+    const row: Record<string, any> = {
+      time: toClock(p.timestamp),
+      real: p.real,
+      forecast: parseFloat(p.forecast.toFixed(3)),
+      band: [0, deadBand],
+      result: typeof rowResults[i] === 'number' ? rowResults[i] : null
+    };
+    p.forecasts.forEach((v, k) => { row[`f${k}`] = v; });
+    return row;
+  }), [points, rowResults, deadBand]);
+
+  const inBandCount = points.filter(isInDeadBand).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100 bg-slate-50">
+          <div className="flex items-center space-x-2">
+            <Calendar className="w-5 h-5 text-blue-600" />
+            <h3 className="text-xl font-bold text-slate-800">{date} 日内明细 (Intraday)</h3>
+            {dailyResult && (
+              <span className="ml-2 text-sm text-slate-500">
+                准确率 <strong className="text-slate-800">{(dailyResult.accuracy * 100).toFixed(2)}%</strong>
+                ，{points.length} 个时段{hasDeadBand && `，死区内 ${inBandCount} 个`}
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition">
+            <X className="w-6 h-6 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <div className="h-96">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E2E8F0" />
+                <XAxis dataKey="time" stroke="#64748B" fontSize={12} minTickGap={30} />
+                <YAxis yAxisId="power" stroke="#64748B" fontSize={12} unit="MW" />
+                <YAxis yAxisId="result" orientation="right" stroke="#EF4444" fontSize={12} />
+                <Tooltip contentStyle={{ borderRadius: '8px' }} />
+                <Legend />
+                {hasDeadBand && (
+                  <Area
+                    yAxisId="power"
+                    type="monotone"
+                    dataKey="band"
+                    name={`死区 (实际与预测均 < ${deadBand.toFixed(2)} MW)`}
+                    stroke="none"
+                    fill="#3B82F6"
+                    fillOpacity={0.12}
+                    isAnimationActive={false}
+                  />
+                )}
+                {foreCols.map((col, k) => (
+                  <Line
+                    key={col}
+                    yAxisId="power"
+                    type="monotone"
+                    dataKey={`f${k}`}
+                    name={col}
+                    stroke={FORECAST_COLORS[k % FORECAST_COLORS.length]}
+                    strokeWidth={1}
+                    strokeDasharray="3 3"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+                <Line yAxisId="power" type="monotone" dataKey="real" name="实际功率" stroke="#1E293B" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line yAxisId="power" type="monotone" dataKey="forecast" name="预测 (集成)" stroke="#10B981" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line yAxisId="result" type="stepAfter" dataKey="result" name="逐点 result" stroke="#EF4444" strokeWidth={1} dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {isRunning && (
+            <div className="flex items-center text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              正在计算逐点 result ...
+            </div>
+          )}
+          {rowError && (
+            <div className="flex items-start p-3 bg-red-50 border border-red-100 rounded text-xs text-red-700">
+              <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+              <pre className="whitespace-pre-wrap font-mono">{rowError}</pre>
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-80 border border-slate-200 rounded-lg">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-slate-500">时间</th>
+                  <th className="px-3 py-2 text-right font-medium text-slate-500">实际</th>
+                  <th className="px-3 py-2 text-right font-medium text-slate-500">预测 (集成)</th>
+                  {foreCols.map(col => <th key={col} className="px-3 py-2 text-right font-medium text-slate-500">{col}</th>)}
+                  <th className="px-3 py-2 text-right font-medium text-slate-500">|R-F|</th>
+                  <th className="px-3 py-2 text-right font-medium text-slate-500">result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 font-mono">
+                {points.map((p, i) => {
+                  return (
+                    <tr key={i} className={isInDeadBand(p) ? 'bg-blue-50/40' : ''} title={isInDeadBand(p) ? '死区时段 (实际与预测均低于阈值)' : undefined}>
+                      <td className="px-3 py-1 text-slate-600">
+                        {p.time}
+                        {p.filled && <span className="ml-1 text-amber-500" title="该时段含插补值">*</span>}
+                      </td>
+                      <td className="px-3 py-1 text-right">{p.real.toFixed(2)}</td>
+                      <td className="px-3 py-1 text-right text-green-700">{p.forecast.toFixed(2)}</td>
+                      {p.forecasts.map((v, k) => <td key={k} className="px-3 py-1 text-right text-slate-500">{v.toFixed(2)}</td>)}
+                      <td className="px-3 py-1 text-right">{Math.abs(p.real - p.forecast).toFixed(2)}</td>
+                      <td className="px-3 py-1 text-right text-red-600">
+                        {typeof rowResults[i] === 'number' ? (rowResults[i] as number).toFixed(4) : (rowResults[i] ?? '-')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Step-by-step audit trail, ending with the reconciliation against the formula engine */}
+          <FormulaExplainer
+            region={region}
+            params={params}
+            sampleDayData={points}
+            dateStr={date}
+            code={code}
+            reportedAccuracy={dailyResult?.accuracy}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DayDrillDown;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Combine, Loader2, Play } from 'lucide-react';
+import { EnsembleConfig, EnsembleMethod } from '../types';
+import { ENSEMBLE_METHOD_LABELS, EnsembleFit } from '../services/ensemble';
+
+interface EnsemblePanelProps {
+  config: EnsembleConfig;
+  setConfig: React.Dispatch<React.SetStateAction<EnsembleConfig>>;
+  foreCols: string[];
+  fit: EnsembleFit | null;
+  fitBlocked: string | null; // Why fitted weights are unavailable for the active formula
+  isFitting: boolean;
+  onFit: () => void;
+  dateRange: { start: string, end: string };
+}
+
+const EnsemblePanel: React.FC<EnsemblePanelProps> = ({ config, setConfig, foreCols, fit, fitBlocked, isFitting, onFit, dateRange }) => {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4 mt-4">
+      <h4 className="font-bold text-slate-800 mb-3 text-sm flex items-center">
+        <Combine className="w-4 h-4 text-indigo-500 mr-2" />
+        预测集成方式 (Ensemble)
+      </h4>
+
+      <select
+        value={config.method}
+        onChange={e => setConfig(prev => ({ ...prev, method: e.target.value as EnsembleMethod }))}
+        className="w-full border-slate-300 rounded-md shadow-sm p-2 border text-sm"
+      >
+        {(Object.keys(ENSEMBLE_METHOD_LABELS) as EnsembleMethod[]).map(m => (
+          <option key={m} value={m}>{ENSEMBLE_METHOD_LABELS[m]}</option>
+        ))}
+      </select>
+
+      {config.method === 'weighted' && (
+        <div className="mt-3 space-y-2">
+          {foreCols.map(col => (
+            <div key={col} className="flex items-center justify-between text-xs">
+              <span className="text-slate-600 truncate mr-2" title={col}>{col}</span>
+              <input
+                type="number" min="0" step="0.1"
+                value={config.weights[col] ?? 1}
+                onChange={e => {
+                  const w = Math.max(0, Number(e.target.value) || 0);
+                  setConfig(prev => ({ ...prev, weights: { ...prev.weights, [col]: w } }));
+                }}
+                className="w-20 border-slate-300 rounded p-1 border"
+              />
+            </div>
+          ))}
+          <p className="text-[11px] text-slate-400">权重按总和归一化；全部为 0 时退化为简单平均。</p>
+        </div>
+      )}
+
+      {config.method === 'trimmed' && (
+        <div className="mt-3 flex items-center justify-between text-xs">
+          <label className="text-slate-600">两端各截去 (%)</label>
+          <input
+            type="number" min="0" max="49"
+            value={config.trimPct}
+            onChange={e => setConfig(prev => ({ ...prev, trimPct: Math.min(49, Math.max(0, Number(e.target.value) || 0)) }))}
+            className="w-20 border-slate-300 rounded p-1 border"
+          />
+        </div>
+      )}
+
+      {config.method === 'optimised' && (
+        <div className="mt-3 space-y-2 text-xs">
+          <div className="flex items-center justify-between">
+            <label className="text-slate-600">训练窗口截止日</label>
+            <input
+              type="date"
+              min={dateRange.start}
+              max={dateRange.end}
+              value={config.trainEnd}
+              onChange={e => setConfig(prev => ({ ...prev, trainEnd: e.target.value }))}
+              className="border-slate-300 rounded p-1 border"
+            />
+          </div>
+          <p className="text-[11px] text-slate-400">
+            按当前公式在训练窗口内拟合权重，结果只统计截止日之后的评估窗口。未设置时取前一半天数训练。
+          </p>
+          {fitBlocked ? (
+            <div className="text-amber-600">{fitBlocked}</div>
+          ) : (
+            <button
+              onClick={onFit}
+              disabled={isFitting}
+              className="w-full flex items-center justify-center px-2 py-1.5 rounded border border-indigo-200 text-indigo-700 hover:bg-indigo-50 disabled:opacity-50"
+            >
+              {isFitting ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+              {fit ? '重新拟合权重' : '拟合权重'}
+            </button>
+          )}
+          {fit ? (
+            <div className="bg-indigo-50 border border-indigo-100 rounded p-2 space-y-1">
+              {foreCols.map((col, i) => (
+                <div key={col} className="flex items-center justify-between">
+                  <span className="text-slate-600 truncate mr-2" title={col}>{col}</span>
+                  <span className="font-mono font-bold text-indigo-700">{fit.weights[i].toFixed(3)}</span>
+                </div>
+              ))}
+              <div className="pt-1 border-t border-indigo-100 text-slate-500">
+                训练 {fit.trainDays.length} 天 (准确率 {(fit.trainAccuracy * 100).toFixed(2)}%)，评估 {fit.evalDays.length} 天
+              </div>
+            </div>
+          ) : !fitBlocked && (
+            <div className="text-slate-500">尚未拟合：需要至少 2 个预测列和 2 天数据。数据、截止日、公式或参数变化后需重新拟合。</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnsemblePanel;
@@ -1,9 +1,10 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Upload, AlertCircle, Server, Folder, FileText, RefreshCw, Check, HardDrive, Settings, Link as LinkIcon, ToggleLeft, ToggleRight } from 'lucide-react';
 import { RawRow } from '../types';
+import { parseDataFile, parseDelimitedText, ParseReport, toParseReport } from '../services/dataParser';
 
 interface FileUploadProps {
-  onDataLoaded: (data: RawRow[], headers: string[]) => void;
+  onDataLoaded: (data: RawRow[], headers: string[], report?: ParseReport) => void;
 }
 
 const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
@@ -104,8 +105,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
                 
                 mockCsv += `${timeStr},${real.toFixed(2)},${fore1.toFixed(2)},${fore2.toFixed(2)}\n`;
             }
-            const { data, headers } = parseCSV(mockCsv);
-            onDataLoaded(data, headers);
+            const parsed = parseDelimitedText(mockCsv);
+            onDataLoaded(parsed.data, parsed.headers, toParseReport(parsed, filename));
           } catch(e) {
              setError("模拟数据生成失败"); 
           } finally {
@@ -128,8 +129,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
                  try { csvText = JSON.parse(csvText); } catch(e) {}
               }
 
-              const { data, headers } = parseCSV(csvText);
-              onDataLoaded(data, headers);
+              const parsed = parseDelimitedText(csvText);
+              onDataLoaded(parsed.data, parsed.headers, toParseReport(parsed, filename));
           } catch (err: any) {
               console.error(err);
               setError(`无法加载文件内容: ${err.message}`);
@@ -140,77 +141,22 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
   };
 
   // --- Local Mode Logic ---
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
     setLoading(true);
     setError(null);
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const text = event.target?.result as string;
-        const { data, headers } = parseCSV(text);
-        onDataLoaded(data, headers);
-      } catch (err) {
-        console.error(err);
-        setError('无法解析 CSV 文件，请确保文件格式正确。');
-      } finally {
-        setLoading(false);
-      }
-    };
-    reader.readAsText(file);
-  };
-
-  // --- Shared CSV Parser ---
-  const parseCSV = (csvText: string): { data: RawRow[], headers: string[] } => {
-    const lines = csvText.trim().split('\n');
-    if (lines.length < 2) throw new Error("文件内容过短");
-
-    const headers = lines[0].split(',').map(h => h.trim());
-    
-    // Auto-detect time column
-    const timeIdx = headers.findIndex(h => {
-        const lower = h.toLowerCase();
-        return lower.includes('time') || lower.includes('timestamp') || lower.includes('时间');
-    });
-
-    if (timeIdx === -1) {
-      throw new Error("无法自动识别时间列 (需包含 time/timestamp/时间)");
-    }
-
-    const result: RawRow[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const currentLine = lines[i].split(',');
-      if (currentLine.length < headers.length) continue;
-
-      const row: RawRow = {
-        time: currentLine[timeIdx],
-        timestamp: 0,
-      };
-
-      const timeStr = currentLine[timeIdx];
-      // Robust Date Parsing
-      const timestamp = new Date(timeStr.replace(/-/g, '/')).getTime();
-      
-      if (isNaN(timestamp)) continue;
-      row.timestamp = timestamp;
-
-      headers.forEach((header, index) => {
-        if (index === timeIdx) return;
-        const val = parseFloat(currentLine[index]);
-        row[header] = isNaN(val) ? 0 : val;
-      });
-
-      result.push(row);
+    try {
+      const parsed = await parseDataFile(file);
+      onDataLoaded(parsed.data, parsed.headers, toParseReport(parsed, file.name));
+    } catch (err: any) {
+      console.error(err);
+      setError(`无法解析文件: ${err.message || '请确保文件格式正确。'}`);
+    } finally {
+      setLoading(false);
     }
-
-    if (result.length === 0) throw new Error("No valid data rows found");
-
-    result.sort((a, b) => a.timestamp - b.timestamp);
-    return { data: result, headers };
   };
 
   return (
@@ -251,13 +197,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
                 <Upload className="w-8 h-8 text-blue-500" />
             </div>
             <h3 className="text-lg font-semibold text-slate-700">点击上传场站数据</h3>
-            <p className="text-sm text-slate-500 mt-2">支持 CSV 格式 (UTF-8)</p>
+            <p className="text-sm text-slate-500 mt-2">支持 CSV / TXT / XLSX 格式 (UTF-8 / GBK 自动识别)</p>
             <p className="text-xs text-slate-400 mt-1">系统将自动识别时间列与功率列</p>
             <input 
               type="file" 
               ref={fileInputRef} 
               onChange={handleFileChange} 
-              accept=".csv"
+              accept=".csv,.txt,.tsv,.xlsx"
               className="hidden" 
             />
             {loading && <p className="mt-4 text-blue-600 font-medium flex items-center"><RefreshCw className="w-4 h-4 mr-2 animate-spin"/> 正在解析数据...</p>}
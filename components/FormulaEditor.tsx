@@ -1,7 +1,22 @@
-import React, { useState, useEffect } from 'react';
-import { Code, RotateCcw, Play, Check, AlertCircle, Plus, Table2, FunctionSquare, ArrowDown, Calculator, Bot, Wand2, Loader2, Save } from 'lucide-react';
-import { generateBatchScript, runRowPreview, generateFormulaWithAI, getDefaultFormulaState, saveFormulaToStorage, loadFormulaFromStorage, clearFormulaFromStorage } from '../services/formulas';
-import { Region } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Code, RotateCcw, Play, AlertCircle, Plus, Table2, FunctionSquare, ArrowDown, Calculator, Bot, Wand2, Loader2, Save, Sigma, AlertTriangle, RefreshCw, Unlink, BookMarked, FlaskConical, ScrollText } from 'lucide-react';
+import { generateBatchScript, runRowPreview, getDefaultFormulaState, executeCustomFormula, mapBatchLineToSource, getAggregationCode, AGG_METHOD_LABELS, AGG_CODE_HEADER } from '../services/formulas';
+import { Region, AggMethod } from '../types';
+import { FormulaContent, FormulaTestCase, LibraryFormula, getActiveFormula, setActiveFormula, latestVersion, isSameContent, formatFormulaLabel } from '../services/formulaLibrary';
+import { ReferenceCheck, checkGoldenCases } from '../services/referenceCases';
+import FormulaLibraryPanel from './FormulaLibraryPanel';
+import GoldenCasePanel from './GoldenCasePanel';
+import CodeEditor, { CodeEditorHandle } from './CodeEditor';
+import { ROW_VARIABLES, AGG_VARIABLES, SCRIPT_VARIABLES } from '../services/pythonSyntax';
+import SandboxSettings from './SandboxSettings';
+import AiSettings from './AiSettings';
+import { isAiEnabled } from '../services/llmProvider';
+import AiReviewPanel from './AiReviewPanel';
+import RuleDocumentPanel from './RuleDocumentPanel';
+import { RuleDocumentDraft, examplesToGoldenCases } from '../services/ruleDocument';
+import { AiAssistantResult, DEFAULT_AI_REPAIR_ROUNDS, generateValidatedFormula } from '../services/aiAssistant';
+import { getPythonErrorInfo, formatPythonError } from '../services/pythonEngine';
+import type { PythonErrorInfo } from '../services/workerProtocol';
 
 interface FormulaEditorProps {
   region: Region;
@@ -15,109 +30,533 @@ interface FormulaEditorProps {
       cap: number;
       threshold: number;
   } | null;
+  onRowLogicChange?: (rowLogic: string) => void; // Lets the results drill-down re-run the same per-row logic
+  onFormulaLabelChange?: (label: string) => void; // Which library formula/version the editor holds, for reports
+  onThresholdChange?: (threshold: number) => void; // Applies a dead band extracted from a rule document
 }
 
-const FormulaEditor: React.FC<FormulaEditorProps> = ({ region, code, setCode, sampleData }) => {
+const FormulaEditor: React.FC<FormulaEditorProps> = ({ region, code, setCode, sampleData, onRowLogicChange, onFormulaLabelChange, onThresholdChange }) => {
   // Mode: 'atomic' (Table based) or 'script' (Full Python)
-  
+  const [mode, setMode] = useState<'atomic' | 'script'>('atomic');
+  // Once the full script is edited by hand it no longer follows the row logic / aggregation
+  const [script, setScript] = useState('');
+  const [detached, setDetached] = useState(false);
+
   // Initial state is just a placeholder, useEffect handles loading correct logic
   const [rowLogic, setRowLogic] = useState('');
-  const [aggMethod, setAggMethod] = useState<'mean' | 'sum' | 'rmse' | 'custom'>('mean');
+  const [aggMethod, setAggMethod] = useState<AggMethod>('mean');
+  const [aggCode, setAggCode] = useState(''); // Aggregation pane, used when aggMethod is 'custom'
   
   const [previewResults, setPreviewResults] = useState<(number | string)[]>([]);
   const [previewError, setPreviewError] = useState<string | null>(null);
   const [isRunning, setIsRunning] = useState(false);
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
+
+  // Formula library: the region's active formula and whether the library overlay is open
+  const [activeFormula, setActiveFormulaState] = useState<LibraryFormula | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+
+  // Day-level preview: the full script (row logic + aggregation) over the whole sample day
+  const [dayAccuracy, setDayAccuracy] = useState<number | null>(null);
+  const [dayError, setDayError] = useState<string | null>(null);
+
+  // Lets the "+ variable" buttons insert at the caret of the row logic / aggregation editors
+  const rowEditorRef = useRef<CodeEditorHandle>(null);
+  const aggEditorRef = useRef<CodeEditorHandle>(null);
+
+  // Structured Python errors located in each pane, for the line highlight
+  const [errorMarks, setErrorMarks] = useState<{ row: PythonErrorInfo | null, agg: PythonErrorInfo | null, script: PythonErrorInfo | null }>({ row: null, agg: null, script: null });
+
+  // Golden regression cases attached to the formula, re-checked on every edit
+  const [testCases, setTestCases] = useState<FormulaTestCase[]>([]);
+  const [goldenChecks, setGoldenChecks] = useState<ReferenceCheck[] | null>(null);
+  const [showGolden, setShowGolden] = useState(false);
+
+  // Full-day test run of the script shown in script mode
+  const [scriptAccuracy, setScriptAccuracy] = useState<number | null>(null);
+  const [scriptError, setScriptError] = useState<string | null>(null);
+  const [isScriptRunning, setIsScriptRunning] = useState(false);
 
   // AI State
+  const [aiEnabled, setAiEnabled] = useState(() => isAiEnabled());
   const [showAiInput, setShowAiInput] = useState(false);
   const [aiPrompt, setAiPrompt] = useState('');
   const [isAiGenerating, setIsAiGenerating] = useState(false);
+  const [aiMaxRepairs, setAiMaxRepairs] = useState(DEFAULT_AI_REPAIR_ROUNDS);
+  const [aiProgress, setAiProgress] = useState<string | null>(null);
+  const [aiCandidate, setAiCandidate] = useState<AiAssistantResult | null>(null);
+  const [showRuleDocument, setShowRuleDocument] = useState(false);
+  // Card of the last applied rule document; names the formula when it is saved to the library
+  const [ruleCard, setRuleCard] = useState<RuleDocumentDraft['card'] | null>(null);
+
+  // Puts a library version (or the region defaults when null) into the editors
+  const applyContent = (content: FormulaContent | null) => {
+    const next = content ?? getDefaultFormulaState(region);
+    setRowLogic(next.rowLogic);
+    setAggMethod(next.aggMethod);
+    setAggCode(next.aggCode ?? '');
+    setScript(content?.script ?? '');
+    setDetached(!!content?.script);
+    setMode(content?.script ? 'script' : 'atomic');
+    setScriptAccuracy(null);
+    setScriptError(null);
+    setRuleCard(null);
+  };
 
-  // Sync initial logic when region changes (Load from Storage or Defaults)
+  // Sync initial logic when region changes (Active library formula or Defaults)
   useEffect(() => {
-    const saved = loadFormulaFromStorage(region);
-    
-    if (saved) {
-        setRowLogic(saved.rowLogic);
-        setAggMethod(saved.aggMethod as any);
-    } else {
-        const defaults = getDefaultFormulaState(region);
-        setRowLogic(defaults.rowLogic);
-        setAggMethod(defaults.aggMethod as any);
-    }
+    const active = getActiveFormula(region);
+    setActiveFormulaState(active);
+    applyContent(active ? latestVersion(active) : null);
+    setTestCases(active?.testCases ?? []);
+    setGoldenChecks(null);
+    setShowGolden(false);
+    setShowLibrary(false);
   }, [region]);
 
-  // Run Preview on the Sample Data (First 10 rows) whenever row logic changes
+  // Checks belong to the current case list only once a run over all of them has finished
+  const goldenPending = testCases.length > 0 && (isRunning || goldenChecks?.length !== testCases.length);
+  const goldenFailed = goldenChecks && !goldenPending ? goldenChecks.filter(c => !c.passed).length : 0;
+
+  const currentContent: FormulaContent = { rowLogic, aggMethod, aggCode, ...(detached ? { script } : {}) };
+
+  // Report which formula version is in use; edits since the last save are flagged
+  const formulaLabel = (() => {
+    if (activeFormula) {
+      const latest = latestVersion(activeFormula);
+      return formatFormulaLabel(activeFormula, latest) + (isSameContent(latest, currentContent) ? '' : ' · 含未保存修改');
+    }
+    return isSameContent({ ...getDefaultFormulaState(region) }, currentContent) ? '区域默认模板' : '未保存的自定义公式';
+  })();
+
+  useEffect(() => {
+    if (rowLogic) onFormulaLabelChange?.(formulaLabel);
+  }, [formulaLabel, rowLogic, onFormulaLabelChange]);
+
+  // A detached script is the code the main app runs
+  useEffect(() => {
+    if (detached) setCode(script);
+  }, [detached, script, setCode]);
+
   useEffect(() => {
-    if (!sampleData || !rowLogic) return;
+    if (rowLogic) onRowLogicChange?.(rowLogic);
+  }, [rowLogic, onRowLogicChange]);
+
+  // Run Preview on the Sample Data (First 10 rows) and the golden cases whenever the formula changes.
+  // A newer edit supersedes the run in flight: nothing it resolves afterwards reaches the state.
+  useEffect(() => {
+    if (!rowLogic) {
+        // A superseded run no longer clears the spinner itself
+        setIsRunning(false);
+        return;
+    }
+    let cancelled = false;
 
     const timer = setTimeout(async () => {
         setIsRunning(true);
         setPreviewError(null);
+        setDayError(null);
+        const marks: typeof errorMarks = { row: null, agg: null, script: null };
+        let rowLogicOk = true;
         try {
-            // Run on top 10 rows
-            const limit = 10;
-            const inputs = {
-                real: sampleData.real.slice(0, limit),
-                fore: sampleData.fore.slice(0, limit),
-                fore_list: sampleData.foreRaw.slice(0, limit),
-                cap: sampleData.cap,
-                threshold: sampleData.threshold
-            };
-            
-            const results = await runRowPreview(rowLogic, inputs);
-            setPreviewResults(results);
-            
+            if (sampleData) {
+                // Run on top 10 rows
+                const limit = 10;
+                const inputs = {
+                    real: sampleData.real.slice(0, limit),
+                    fore: sampleData.fore.slice(0, limit),
+                    fore_list: sampleData.foreRaw.slice(0, limit),
+                    cap: sampleData.cap,
+                    threshold: sampleData.threshold
+                };
+
+                try {
+                    const preview = await runRowPreview(rowLogic, inputs);
+                    if (cancelled) return;
+                    setPreviewResults(preview.values);
+                    marks.row = preview.errors.find(e => e !== null) ?? null;
+                } catch (err: any) {
+                    if (cancelled) return;
+                    rowLogicOk = false;
+                    marks.row = getPythonErrorInfo(err);
+                    setPreviewError(err.message);
+                    setPreviewResults([]);
+                    setDayAccuracy(null);
+                }
+            }
+
+            // A detached script stays as edited and is checked as-is; otherwise it needs valid row logic
+            if (!detached && !rowLogicOk) {
+                if (!cancelled) setGoldenChecks(testCases.map(c => ({ expected: c.expected, actual: null, passed: false, error: '单行逻辑执行失败' })));
+                return;
+            }
+            const fullScript = detached ? script : generateBatchScript(rowLogic, aggMethod, aggCode);
+
             // Also update the Global Full Script code used by the main app
-            const fullScript = generateBatchScript(rowLogic, aggMethod, region);
-            setCode(fullScript);
+            if (!detached) setCode(fullScript);
 
-        } catch (err: any) {
-            setPreviewError(err.message);
-            setPreviewResults([]);
+            // Day-level accuracy, so the aggregation step can be checked too
+            if (sampleData) {
+                try {
+                    const accuracy = await executeCustomFormula(
+                        fullScript, sampleData.real, sampleData.fore, sampleData.cap, sampleData.threshold, sampleData.foreRaw
+                    );
+                    if (cancelled) return;
+                    setDayAccuracy(accuracy);
+                } catch (err: any) {
+                    if (cancelled) return;
+                    setDayError(err.message);
+                    setDayAccuracy(null);
+                    // Script lines map back to the row logic / aggregation pane they were generated from
+                    const info = getPythonErrorInfo(err);
+                    marks.script = info;
+                    const source = info?.line && !detached ? mapBatchLineToSource(fullScript, info.line) : null;
+                    if (source) {
+                        const mapped = { ...info!, line: source.line };
+                        if (!marks[source.pane]) marks[source.pane] = mapped;
+                        // Report the line in the user's pane, not in the generated script
+                        setDayError(`${source.pane === 'row' ? '单行逻辑' : '聚合代码'} ${formatPythonError(mapped)}`);
+                    }
+                }
+            }
+
+            // Golden regression cases
+            const checks = await checkGoldenCases(fullScript, testCases);
+            if (!cancelled) setGoldenChecks(checks);
         } finally {
-            setIsRunning(false);
+            if (!cancelled) {
+                setErrorMarks(marks);
+                setIsRunning(false);
+            }
         }
     }, 800); // Debounce
 
-    return () => clearTimeout(timer);
-  }, [rowLogic, aggMethod, sampleData, region, setCode]);
+    return () => {
+        cancelled = true;
+        clearTimeout(timer);
+    };
+  }, [rowLogic, aggMethod, aggCode, detached, script, testCases, sampleData, region, setCode]);
+
+  const handleAggMethodChange = (method: AggMethod) => {
+      // Start the custom pane from the Python of the method being replaced
+      if (method === 'custom' && !aggCode.trim() && aggMethod !== 'custom') {
+          setAggCode(`${AGG_CODE_HEADER}\n${getAggregationCode(aggMethod).trim()}`);
+      }
+      setAggMethod(method);
+  };
+
+  const handleModeChange = (next: 'atomic' | 'script') => {
+      // Until edited, the script view shows what the atomic editors generate
+      if (next === 'script' && !detached) setScript(generateBatchScript(rowLogic, aggMethod, aggCode));
+      setMode(next);
+  };
+
+  const handleScriptChange = (value: string) => {
+      setScript(value);
+      setDetached(true);
+  };
+
+  const handleResync = () => {
+      if (!confirm('重新同步将丢弃对完整脚本的手动修改，改用单行逻辑与聚合方式生成脚本。是否继续？')) return;
+      setDetached(false);
+      setScript(generateBatchScript(rowLogic, aggMethod, aggCode));
+      setScriptAccuracy(null);
+      setScriptError(null);
+  };
+
+  const handleScriptTestRun = async () => {
+      if (!sampleData) return;
+      setIsScriptRunning(true);
+      setScriptError(null);
+      try {
+          setScriptAccuracy(await executeCustomFormula(
+              script, sampleData.real, sampleData.fore, sampleData.cap, sampleData.threshold, sampleData.foreRaw
+          ));
+      } catch (err: any) {
+          setScriptError(err.message);
+          setScriptAccuracy(null);
+          setErrorMarks(prev => ({ ...prev, script: getPythonErrorInfo(err) }));
+      } finally {
+          setIsScriptRunning(false);
+      }
+  };
 
   const handleAiGenerate = async () => {
-    if (!aiPrompt.trim()) return;
+    if (!aiPrompt.trim() || !sampleData) return;
     setIsAiGenerating(true);
     setPreviewError(null);
+    setAiProgress('第 1 轮：生成中...');
     try {
-      const generatedCode = await generateFormulaWithAI(aiPrompt, region);
-      setRowLogic(generatedCode);
-      setShowAiInput(false);
-      setAiPrompt('');
+      const result = await generateValidatedFormula(aiPrompt, region, {
+          real: sampleData.real,
+          fore: sampleData.fore,
+          foreRaw: sampleData.foreRaw,
+          cap: sampleData.cap,
+          threshold: sampleData.threshold
+      }, {
+          maxRepairs: aiMaxRepairs,
+          onRound: round => {
+              if (round.problems.length > 0 && round.round <= aiMaxRepairs) {
+                  setAiProgress(`第 ${round.round} 轮发现 ${round.problems.length} 个问题，第 ${round.round + 1} 轮修复中...`);
+              }
+          }
+      });
+      setAiCandidate(result);
     } catch (e: any) {
         setPreviewError(e.message);
     } finally {
       setIsAiGenerating(false);
+      setAiProgress(null);
     }
   };
 
-  const handleSave = () => {
-      saveFormulaToStorage(region, rowLogic, aggMethod);
-      setSaveStatus('saved');
-      setTimeout(() => setSaveStatus('idle'), 2000);
+  const handleAiAccept = () => {
+      if (!aiCandidate) return;
+      setRowLogic(aiCandidate.code);
+      setAiCandidate(null);
+      setShowAiInput(false);
+      setAiPrompt('');
+  };
+
+  // Applies a translated rule document; its worked examples join the golden cases
+  const handleRuleDocumentApply = (draft: RuleDocumentDraft) => {
+      applyContent({ rowLogic: draft.rowLogic, aggMethod: draft.aggMethod, aggCode: draft.aggCode });
+      setRuleCard(draft.card);
+      setTestCases(prev => [...prev, ...examplesToGoldenCases(draft)]);
+      setShowRuleDocument(false);
+      setShowAiInput(false);
+  };
+
+  const handleLibraryLoad = (formula: LibraryFormula) => {
+      setActiveFormula(region, formula.id);
+      setActiveFormulaState(formula);
+      applyContent(latestVersion(formula));
+      setTestCases(formula.testCases ?? []);
+      setGoldenChecks(null);
   };
 
   const handleReset = () => {
-      if(!confirm(`确认重置 ${region} 区域的计算公式为默认模板吗？此操作无法撤销。`)) return;
+      if(!confirm(`确认将 ${region} 区域切换为默认模板吗？公式库中已保存的公式不受影响，未保存的修改将丢失。`)) return;
       
-      clearFormulaFromStorage(region);
-      const defaults = getDefaultFormulaState(region);
-      setRowLogic(defaults.rowLogic);
-      setAggMethod(defaults.aggMethod as any);
+      setActiveFormula(region, null);
+      setActiveFormulaState(null);
+      applyContent(null);
+      setTestCases([]);
+      setGoldenChecks(null);
   };
 
+  const actionButtons = (
+      <div className="flex items-center space-x-2">
+           <button 
+              onClick={handleReset}
+              className="flex items-center px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-red-600 hover:bg-red-50 rounded transition border border-transparent hover:border-red-200"
+              title="恢复默认公式"
+           >
+               <RotateCcw className="w-3.5 h-3.5 mr-1" />
+               恢复默认
+           </button>
+           <div className="h-6 w-px bg-slate-300 mx-2"></div>
+           <button 
+              onClick={() => setShowLibrary(true)}
+              className="flex items-center px-4 py-1.5 text-xs font-bold text-white rounded shadow-sm transition bg-slate-700 hover:bg-slate-800"
+           >
+               <Save className="w-3.5 h-3.5 mr-1" />
+               保存到公式库
+           </button>
+      </div>
+  );
+
   return (
-    <div className="flex flex-col h-full bg-white rounded-lg shadow-lg border border-slate-200 overflow-hidden">
-      
+    <div className="relative flex flex-col h-full bg-white rounded-lg shadow-lg border border-slate-200 overflow-hidden">
+
+      {showLibrary && (
+          <FormulaLibraryPanel
+              region={region}
+              current={currentContent}
+              testCases={testCases}
+              golden={{ total: testCases.length, failed: goldenFailed, pending: goldenPending }}
+              activeId={activeFormula?.id ?? null}
+              suggested={ruleCard ? {
+                  name: ruleCard.name,
+                  notes: [`来自规则文档：${ruleCard.desc}`, ruleCard.formula].filter(Boolean).join(' ')
+              } : undefined}
+              onLoad={handleLibraryLoad}
+              onActiveChange={formula => {
+                  setActiveFormulaState(formula);
+                  if (!formula) setActiveFormula(region, null);
+              }}
+              onClose={() => setShowLibrary(false)}
+          />
+      )}
+
+      {aiCandidate && (
+          <AiReviewPanel
+              current={rowLogic}
+              result={aiCandidate}
+              sampleSize={sampleData?.real.length ?? 0}
+              onAccept={handleAiAccept}
+              onReject={() => setAiCandidate(null)}
+          />
+      )}
+
+      {showRuleDocument && (
+          <RuleDocumentPanel
+              region={region}
+              sampleDay={sampleData}
+              onApply={handleRuleDocumentApply}
+              onApplyThreshold={onThresholdChange}
+              onClose={() => setShowRuleDocument(false)}
+          />
+      )}
+
+      {showGolden && (
+          <GoldenCasePanel
+              region={region}
+              cases={testCases}
+              setCases={setTestCases}
+              checks={goldenPending ? null : goldenChecks}
+              isRunning={goldenPending}
+              sampleDay={sampleData}
+              sampleAccuracy={dayError ? null : dayAccuracy}
+              onClose={() => setShowGolden(false)}
+          />
+      )}
+
+      {/* Mode toggle: atomic editors or the whole generated batch script */}
+      <div className="px-4 py-2 bg-white border-b border-slate-200 flex items-center justify-between shrink-0">
+          <div className="flex bg-slate-100 rounded p-0.5 text-xs">
+              <button
+                  onClick={() => handleModeChange('atomic')}
+                  className={`flex items-center px-3 py-1 rounded transition ${mode === 'atomic' ? 'bg-white shadow-sm font-bold text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                  <Table2 className="w-3.5 h-3.5 mr-1" />
+                  单行模式 (Atomic)
+              </button>
+              <button
+                  onClick={() => handleModeChange('script')}
+                  className={`flex items-center px-3 py-1 rounded transition ${mode === 'script' ? 'bg-white shadow-sm font-bold text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                  <Code className="w-3.5 h-3.5 mr-1" />
+                  完整脚本 (Script)
+              </button>
+          </div>
+          <div className="flex items-center space-x-3">
+              {detached && (
+                  <span className="text-xs font-medium text-amber-600 flex items-center">
+                      <Unlink className="w-3.5 h-3.5 mr-1" />
+                      脚本已脱离单行逻辑
+                  </span>
+              )}
+              <AiSettings onChange={settings => {
+                  setAiEnabled(isAiEnabled(settings));
+                  if (!isAiEnabled(settings)) setShowAiInput(false);
+              }} />
+              <SandboxSettings />
+              <button
+                  onClick={() => setShowGolden(true)}
+                  className={`flex items-center text-xs px-2 py-1 border rounded transition ${
+                      testCases.length === 0 ? 'border-slate-200 text-slate-500 hover:bg-slate-50'
+                      : goldenPending ? 'border-slate-200 text-slate-500'
+                      : goldenFailed > 0 ? 'border-red-200 bg-red-50 text-red-700' : 'border-green-200 bg-green-50 text-green-700'
+                  }`}
+                  title="回归用例 (Golden Cases)"
+              >
+                  {goldenPending ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <FlaskConical className="w-3.5 h-3.5 mr-1" />}
+                  {testCases.length === 0 ? '回归用例' : goldenPending ? `回归 ${testCases.length} 例` : `回归 ${testCases.length - goldenFailed}/${testCases.length}`}
+              </button>
+              <button
+                  onClick={() => setShowLibrary(true)}
+                  className="flex items-center text-xs px-2 py-1 border border-slate-200 rounded text-slate-600 hover:bg-slate-50 max-w-[260px]"
+                  title="打开公式库 (Formula Library)"
+              >
+                  <BookMarked className="w-3.5 h-3.5 mr-1 text-indigo-500 flex-shrink-0" />
+                  <span className="truncate">{formulaLabel}</span>
+              </button>
+          </div>
+      </div>
+
+      {detached && (
+          <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-xs text-amber-800 flex items-start justify-between shrink-0">
+              <div className="flex items-start">
+                  <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5" />
+                  <span>
+                      完整脚本已被手动修改，计算将使用该脚本；单行逻辑与聚合方式的改动不会再同步到脚本中
+                      {mode === 'atomic' ? '，下方逐行预览仅反映单行逻辑' : ''}。
+                  </span>
+              </div>
+              <button
+                  onClick={handleResync}
+                  className="ml-4 flex items-center px-2 py-1 rounded border border-amber-300 bg-white hover:bg-amber-100 text-amber-800 whitespace-nowrap transition"
+              >
+                  <RefreshCw className="w-3 h-3 mr-1" />
+                  重新同步 (Re-sync)
+              </button>
+          </div>
+      )}
+
+      {ruleCard && (
+          <div className="px-4 py-2 bg-indigo-50 border-b border-indigo-100 text-xs text-indigo-900 flex items-start shrink-0">
+              <ScrollText className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5 text-indigo-600" />
+              <div className="min-w-0">
+                  <span className="font-semibold">{ruleCard.name}</span>
+                  {ruleCard.desc && <span className="ml-2 text-indigo-700">{ruleCard.desc}</span>}
+                  {ruleCard.formula && <div className="font-mono text-indigo-800 truncate" title={ruleCard.formula}>{ruleCard.formula}</div>}
+              </div>
+              <span className="ml-auto pl-4 text-indigo-500 whitespace-nowrap">保存到公式库时作为名称与说明</span>
+          </div>
+      )}
+
+      {mode === 'script' ? (
+      <>
+      {/* Full Script Editor: whole-day logic over the real / fore / fore_list arrays */}
+      <div className="flex-1 min-h-0 bg-[#1e1e1e] flex flex-col text-white">
+        <div className="flex items-center justify-between px-3 py-2 bg-[#252526] border-b border-[#3e3e42]">
+            <div className="flex items-center space-x-2">
+                <Code className="w-4 h-4 text-blue-400" />
+                <span className="text-xs font-bold text-slate-200">完整批处理脚本 (Batch Script)</span>
+            </div>
+            <span className="text-[10px] text-slate-400">可用变量: real, fore, fore_list, cap, threshold, np · 最终赋值给 result</span>
+        </div>
+        <div className="flex-1 relative">
+            <CodeEditor
+                value={script}
+                onChange={handleScriptChange}
+                variables={SCRIPT_VARIABLES}
+                errorLine={errorMarks.script?.line}
+                errorTitle={errorMarks.script ? formatPythonError(errorMarks.script) : undefined}
+            />
+            {scriptError && (
+                <div className="absolute bottom-2 left-2 right-2 bg-red-900/90 text-red-200 text-xs p-2 rounded border border-red-700 backdrop-blur-sm flex items-start animate-fade-in">
+                    <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5" />
+                    <pre className="whitespace-pre-wrap font-mono">{scriptError}</pre>
+                </div>
+            )}
+        </div>
+      </div>
+
+      {/* Script Test Run & Save Actions */}
+      <div className="h-16 bg-slate-100 border-t border-slate-200 flex items-center px-4 justify-between shrink-0">
+          <div className="flex items-center space-x-4">
+              <button
+                  onClick={handleScriptTestRun}
+                  disabled={isScriptRunning || !sampleData}
+                  className="flex items-center px-3 py-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded shadow-sm disabled:opacity-50 transition"
+              >
+                  {isScriptRunning ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <Play className="w-3.5 h-3.5 mr-1" />}
+                  全天测试运行 (Test Run)
+              </button>
+              <span className="text-xs text-slate-500">
+                  {sampleData ? `${sampleData.date}, ${sampleData.real.length} 点` : '等待数据加载...'}
+                  {' '}准确率: <span className={`font-mono font-bold ${scriptError ? 'text-red-500' : 'text-slate-800'}`}>
+                      {scriptError ? '错误' : scriptAccuracy !== null ? `${(scriptAccuracy * 100).toFixed(4)}%` : '-'}
+                  </span>
+              </span>
+          </div>
+
+          {actionButtons}
+      </div>
+      </>
+      ) : (
+      <>
       {/* 1. Top Section: Data Preview Table (Excel-like) */}
       <div className="flex-1 bg-slate-50 flex flex-col min-h-0 border-b-4 border-slate-200">
         <div className="px-4 py-2 border-b border-slate-200 bg-white flex justify-between items-center shadow-sm z-10">
@@ -186,25 +625,38 @@ const FormulaEditor: React.FC<FormulaEditorProps> = ({ region, code, setCode, sa
         </div>
       </div>
 
-      {/* 2. Middle Section: Row Logic Editor */}
-      <div className="h-[280px] bg-[#1e1e1e] flex flex-col text-white border-t border-slate-300">
+      {/* 2. Middle Section: Row Logic Editor (+ Aggregation Editor for custom aggregation) */}
+      <div className="h-[280px] flex border-t border-slate-300">
+      <div className="flex-1 min-w-0 bg-[#1e1e1e] flex flex-col text-white">
         <div className="flex items-center justify-between px-3 py-2 bg-[#252526] border-b border-[#3e3e42]">
              <div className="flex items-center space-x-2">
                 <FunctionSquare className="w-4 h-4 text-yellow-500" />
                 <span className="text-xs font-bold text-slate-200">单行计算逻辑 (Row Logic)</span>
-                <button
-                    onClick={() => setShowAiInput(!showAiInput)}
-                    className={`flex items-center px-2 py-0.5 ml-4 rounded transition text-[10px] ${showAiInput ? 'bg-blue-600 text-white' : 'bg-[#3e3e42] text-slate-300 hover:bg-[#505055]'}`}
-                >
-                    <Bot className="w-3 h-3 mr-1" />
-                    AI 智能生成
-                </button>
+                {aiEnabled && (
+                    <button
+                        onClick={() => setShowAiInput(!showAiInput)}
+                        className={`flex items-center px-2 py-0.5 ml-4 rounded transition text-[10px] ${showAiInput ? 'bg-blue-600 text-white' : 'bg-[#3e3e42] text-slate-300 hover:bg-[#505055]'}`}
+                    >
+                        <Bot className="w-3 h-3 mr-1" />
+                        AI 智能生成
+                    </button>
+                )}
+                {aiEnabled && (
+                    <button
+                        onClick={() => setShowRuleDocument(true)}
+                        className="flex items-center px-2 py-0.5 rounded transition text-[10px] bg-[#3e3e42] text-slate-300 hover:bg-[#505055]"
+                        title="粘贴规则文档章节，提取参数并生成公式"
+                    >
+                        <ScrollText className="w-3 h-3 mr-1" />
+                        规则文档
+                    </button>
+                )}
              </div>
              <div className="flex space-x-1">
-                 {['real', 'fore', 'fore_list', 'cap'].map(v => (
+                 {['real', 'fore', 'fore_list', 'cap', 'threshold'].map(v => (
                      <button 
                         key={v}
-                        onClick={() => setRowLogic(prev => prev + ` ${v}`)}
+                        onClick={() => rowEditorRef.current?.insertAtCursor(v)}
                         className="px-2 py-0.5 bg-[#3e3e42] hover:bg-[#505055] text-[10px] rounded text-slate-300 transition"
                      >
                         + {v}
@@ -223,11 +675,20 @@ const FormulaEditor: React.FC<FormulaEditorProps> = ({ region, code, setCode, sa
                         onChange={e => setAiPrompt(e.target.value)}
                         placeholder="描述计算逻辑，例如：如果实测值小于 3% 容量，则结果为 0，否则为绝对误差的平方..."
                         className="flex-1 bg-[#1e1e1e] border border-[#3e3e42] text-slate-200 text-xs px-3 py-2 rounded focus:outline-none focus:border-blue-500 placeholder-slate-500"
-                        onKeyDown={e => e.key === 'Enter' && handleAiGenerate()}
+                        onKeyDown={e => e.key === 'Enter' && !isAiGenerating && handleAiGenerate()}
                     />
+                    <select
+                        value={aiMaxRepairs}
+                        onChange={e => setAiMaxRepairs(Number(e.target.value))}
+                        disabled={isAiGenerating}
+                        title="校验失败后自动修复的最多轮数"
+                        className="bg-[#1e1e1e] border border-[#3e3e42] text-slate-300 text-xs px-2 rounded focus:outline-none focus:border-blue-500"
+                    >
+                        {[0, 1, 2, 3, 5].map(n => <option key={n} value={n}>修复 {n} 轮</option>)}
+                    </select>
                     <button 
                         onClick={handleAiGenerate}
-                        disabled={isAiGenerating || !aiPrompt.trim()}
+                        disabled={isAiGenerating || !aiPrompt.trim() || !sampleData}
                         className="bg-blue-600 hover:bg-blue-700 text-white text-xs px-4 py-2 rounded disabled:opacity-50 flex items-center transition"
                     >
                         {isAiGenerating ? <Loader2 className="w-3 h-3 animate-spin mr-1" /> : <Wand2 className="w-3 h-3 mr-1" />}
@@ -236,29 +697,78 @@ const FormulaEditor: React.FC<FormulaEditorProps> = ({ region, code, setCode, sa
                 </div>
                 <p className="text-[10px] text-slate-500 mt-1 flex items-center">
                     <Bot className="w-3 h-3 mr-1" />
-                    AI 将根据您的描述自动编写 Python 代码。生成后请观察下方代码变化并自动测试。
+                    {aiProgress ?? (sampleData
+                        ? `AI 生成的代码会先在样本日 ${sampleData.real.length} 行上试运行，出错时自动反馈修复，确认差异后才会替换当前代码。`
+                        : '等待样本数据加载后才能生成 (生成结果需要在样本上校验)。')}
                 </p>
             </div>
         )}
         
         <div className="flex-1 relative">
-            <textarea
+            <CodeEditor
+                ref={rowEditorRef}
                 value={rowLogic}
-                onChange={(e) => setRowLogic(e.target.value)}
-                className="w-full h-full p-3 font-mono text-sm bg-[#1e1e1e] text-[#d4d4d4] focus:outline-none resize-none leading-relaxed"
-                spellCheck={false}
-                placeholder="# 输入计算逻辑, 最终赋值给 result&#10;if real < cap * 0.1:&#10;    result = 0"
-                style={{ fontFamily: "'Fira Code', 'Consolas', monospace" }}
+                onChange={setRowLogic}
+                variables={ROW_VARIABLES}
+                placeholder={"# 输入计算逻辑, 最终赋值给 result\nif real < cap * 0.1:\n    result = 0"}
+                errorLine={errorMarks.row?.line}
+                errorTitle={errorMarks.row ? formatPythonError(errorMarks.row) : undefined}
             />
-            {previewError && (
+            {(previewError || errorMarks.row) && (
                 <div className="absolute bottom-2 left-2 right-2 bg-red-900/90 text-red-200 text-xs p-2 rounded border border-red-700 backdrop-blur-sm flex items-start animate-fade-in">
                     <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5" />
-                    <pre className="whitespace-pre-wrap font-mono">{previewError}</pre>
+                    <pre className="whitespace-pre-wrap font-mono">{errorMarks.row ? formatPythonError(errorMarks.row) : previewError}</pre>
                 </div>
             )}
         </div>
       </div>
 
+      {aggMethod === 'custom' && (
+        <div className="w-1/2 min-w-0 bg-[#1e1e1e] flex flex-col text-white border-l-2 border-[#3e3e42]">
+            <div className="flex items-center justify-between px-3 py-2 bg-[#252526] border-b border-[#3e3e42]">
+                <div className="flex items-center space-x-2">
+                    <Sigma className="w-4 h-4 text-purple-400" />
+                    <span className="text-xs font-bold text-slate-200">聚合逻辑 (Aggregation)</span>
+                </div>
+                <div className="flex space-x-1">
+                    {['row_results', 'real', 'fore', 'fore_list', 'cap', 'threshold'].map(v => (
+                        <button
+                            key={v}
+                            onClick={() => aggEditorRef.current?.insertAtCursor(v)}
+                            className="px-2 py-0.5 bg-[#3e3e42] hover:bg-[#505055] text-[10px] rounded text-slate-300 transition"
+                        >
+                            + {v}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex-1 relative">
+                <CodeEditor
+                    ref={aggEditorRef}
+                    value={aggCode}
+                    onChange={setAggCode}
+                    variables={AGG_VARIABLES}
+                    placeholder={"# 由 row_results 计算当日准确率, 最终赋值给 result\nresult = max(0, 1 - np.mean(row_results))"}
+                    errorLine={errorMarks.agg?.line}
+                    errorTitle={errorMarks.agg ? formatPythonError(errorMarks.agg) : undefined}
+                />
+                {dayError && !previewError && (
+                    <div className="absolute bottom-10 left-2 right-2 bg-red-900/90 text-red-200 text-xs p-2 rounded border border-red-700 backdrop-blur-sm flex items-start animate-fade-in">
+                        <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5" />
+                        <pre className="whitespace-pre-wrap font-mono">{dayError}</pre>
+                    </div>
+                )}
+            </div>
+            <div className="px-3 py-1.5 bg-[#252526] border-t border-[#3e3e42] text-xs text-slate-400 flex items-center justify-between">
+                <span>当日准确率预览{sampleData ? ` (${sampleData.date}, ${sampleData.real.length} 点)` : ''}</span>
+                <span className={`font-mono font-bold ${dayError ? 'text-red-400' : 'text-green-400'}`}>
+                    {isRunning ? '...' : dayError ? '错误' : dayAccuracy !== null ? `${(dayAccuracy * 100).toFixed(4)}%` : '-'}
+                </span>
+            </div>
+        </div>
+      )}
+      </div>
+
       {/* 3. Bottom Section: Aggregation Settings & Save Actions */}
       <div className="h-16 bg-slate-100 border-t border-slate-200 flex items-center px-4 justify-between shrink-0">
           <div className="flex items-center space-x-4">
@@ -271,46 +781,27 @@ const FormulaEditor: React.FC<FormulaEditorProps> = ({ region, code, setCode, sa
               <div className="relative">
                   <select 
                     value={aggMethod}
-                    onChange={(e) => setAggMethod(e.target.value as any)}
-                    className="block w-48 pl-3 pr-10 py-1.5 text-sm border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md shadow-sm"
+                    onChange={(e) => handleAggMethodChange(e.target.value as AggMethod)}
+                    className="block w-64 pl-3 pr-10 py-1.5 text-sm border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md shadow-sm"
                   >
-                      <option value="mean">1 - Average(Result)</option>
-                      <option value="rmse">1 - RMSE(Result)/Cap</option>
-                      <option value="sum">1 - Sum(Result)</option>
+                      {(Object.keys(AGG_METHOD_LABELS) as AggMethod[]).map(m => (
+                          <option key={m} value={m}>{AGG_METHOD_LABELS[m]}</option>
+                      ))}
                   </select>
               </div>
+              {aggMethod !== 'custom' && (
+                  <span className="text-xs text-slate-500" title={dayError || undefined}>
+                      当日准确率: <span className={`font-mono font-bold ${dayError ? 'text-red-500' : 'text-slate-800'}`}>
+                          {dayError ? '错误' : dayAccuracy !== null ? `${(dayAccuracy * 100).toFixed(2)}%` : '-'}
+                      </span>
+                  </span>
+              )}
           </div>
 
-          <div className="flex items-center space-x-2">
-               <button 
-                  onClick={handleReset}
-                  className="flex items-center px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-red-600 hover:bg-red-50 rounded transition border border-transparent hover:border-red-200"
-                  title="恢复默认公式"
-               >
-                   <RotateCcw className="w-3.5 h-3.5 mr-1" />
-                   恢复默认
-               </button>
-               <div className="h-6 w-px bg-slate-300 mx-2"></div>
-               <button 
-                  onClick={handleSave}
-                  className={`flex items-center px-4 py-1.5 text-xs font-bold text-white rounded shadow-sm transition ${
-                      saveStatus === 'saved' ? 'bg-green-600' : 'bg-slate-700 hover:bg-slate-800'
-                  }`}
-               >
-                   {saveStatus === 'saved' ? (
-                       <>
-                           <Check className="w-3.5 h-3.5 mr-1" />
-                           已保存
-                       </>
-                   ) : (
-                       <>
-                           <Save className="w-3.5 h-3.5 mr-1" />
-                           保存配置
-                       </>
-                   )}
-               </button>
-          </div>
+          {actionButtons}
       </div>
+      </>
+      )}
     </div>
   );
 };
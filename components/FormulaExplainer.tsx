@@ -1,154 +1,102 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Region, CalculationParams, DataPoint } from '../types';
-import { getFormulaInfo } from '../services/formulas';
-import { mean, sum } from '../services/mathUtils';
-import { Calculator, HelpCircle } from 'lucide-react';
+import { getFormulaInfo, executeCustomFormula, runRowPreview } from '../services/formulas';
+import { getRegionRule } from '../services/regionRules';
+import { Calculator, HelpCircle, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
 
 interface FormulaExplainerProps {
   region: Region;
   params: CalculationParams;
   sampleDayData: DataPoint[]; // Just one day or a slice of data
   dateStr: string;
+  code?: string; // Formula script to reconcile against via executeCustomFormula
+  reportedAccuracy?: number; // Accuracy shown in the results for this day
 }
 
-const FormulaExplainer: React.FC<FormulaExplainerProps> = ({ region, params, sampleDayData, dateStr }) => {
+// Differences below this are float noise between the JS and Python implementations
+const RECONCILE_TOLERANCE = 1e-6;
+
+// Same combined forecast the calculation used (ensemble setting already applied)
+const getFore = (d: DataPoint) => d.forecast;
+
+const FormulaExplainer: React.FC<FormulaExplainerProps> = ({ region, params, sampleDayData, dateStr, code, reportedAccuracy }) => {
   const info = getFormulaInfo(region);
+  const rule = getRegionRule(region);
   const data = sampleDayData || [];
-  
-  // -- Table Generation Logic --
-  // We calculate row-by-row values for display based on the region logic
-  // This duplicates some logic from formulas.ts but focuses on display (intermediate steps)
-  
-  const renderTableContent = () => {
-    // Shared Helper
-    const getFore = (d: DataPoint) => d.forecasts && d.forecasts.length > 0 ? mean(d.forecasts) : d.forecast;
 
-    if (region === 'Shanxi') {
-      // Logic: (R-F)^2 * |R-F| / Sum(|R-F|)
-      const totalAbsDiff = sum(data.map(d => Math.abs(d.real - getFore(d))));
-      
-      return (
-        <table className="min-w-full divide-y divide-slate-200 text-xs md:text-sm">
-          <thead className="bg-slate-50">
-            <tr>
-              <th className="px-3 py-2 text-left text-slate-500">Time</th>
-              <th className="px-3 py-2 text-right text-slate-500">Real (R)</th>
-              <th className="px-3 py-2 text-right text-slate-500">Fore (F)</th>
-              <th className="px-3 py-2 text-right text-slate-500">Diff (R-F)</th>
-              <th className="px-3 py-2 text-right text-slate-500">|Diff|</th>
-              <th className="px-3 py-2 text-right text-slate-500">Sq.Err (D²)</th>
-              <th className="px-3 py-2 text-right text-blue-600 font-medium">Weighted Sq.Err</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-slate-200">
-            {data.map((row, i) => {
-              const f = getFore(row);
-              const diff = row.real - f;
-              const absDiff = Math.abs(diff);
-              const sqErr = Math.pow(diff, 2);
-              const weight = totalAbsDiff === 0 ? 0 : absDiff / totalAbsDiff;
-              const weightedSqErr = sqErr * weight;
-              
-              return (
-                <tr key={i} className="hover:bg-slate-50">
-                  <td className="px-3 py-1 text-slate-700 whitespace-nowrap">{row.time}</td>
-                  <td className="px-3 py-1 text-right text-slate-600">{row.real.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right text-slate-600">{f.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right text-slate-400">{diff.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right text-slate-400">{absDiff.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right text-slate-400">{sqErr.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right font-mono text-blue-700">{weightedSqErr.toFixed(4)}</td>
-                </tr>
-              );
-            })}
-            <tr className="bg-blue-50 font-bold">
-              <td colSpan={4} className="px-3 py-2 text-right">Sum |Diff|: {totalAbsDiff.toFixed(2)}</td>
-              <td colSpan={3} className="px-3 py-2 text-right text-blue-700">Sum Weighted: {sum(data.map(d => {
-                 const f = getFore(d);
-                 const diff = d.real - f;
-                 const absDiff = Math.abs(diff);
-                 return Math.pow(diff, 2) * (totalAbsDiff === 0 ? 0 : absDiff/totalAbsDiff);
-              })).toFixed(4)}</td>
-            </tr>
-          </tbody>
-        </table>
-      );
-    } 
-    
-    else if (region === 'Northwest') {
-      // Northwest Logic: | R/(R+F) - 0.5 | * |R-F| / Sum(|R-F|)
-      // Filter dead band
-      const thresholdVal = params.cap * params.threshold;
-      
-      // We calculate total P_sum based on valid rows only
-      const validRows = data.filter(d => {
-          const f = getFore(d);
-          return !(d.real < thresholdVal && f < thresholdVal);
-      });
-      const pSum = sum(validRows.map(d => Math.abs(d.real - getFore(d))));
+  // Imported rules: per-row `result` from the rule's own row logic stands in for the intermediate columns
+  const [ruleRowResults, setRuleRowResults] = useState<(number | string)[]>([]);
 
-      return (
-        <table className="min-w-full divide-y divide-slate-200 text-xs md:text-sm">
-          <thead className="bg-slate-50">
-            <tr>
-              <th className="px-3 py-2 text-left text-slate-500">Time</th>
-              <th className="px-3 py-2 text-right text-slate-500">Real (R)</th>
-              <th className="px-3 py-2 text-right text-slate-500">Fore (F)</th>
-              <th className="px-3 py-2 text-center text-slate-500">Status</th>
-              <th className="px-3 py-2 text-right text-slate-500">Term 1: |R/(R+F)-0.5|</th>
-              <th className="px-3 py-2 text-right text-slate-500">Term 2: |R-F|/Σ</th>
-              <th className="px-3 py-2 text-right text-blue-600">Step Value</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-slate-200">
-            {data.map((row, i) => {
-              const f = getFore(row);
-              const r = row.real;
-              const isDeadBand = (r < thresholdVal && f < thresholdVal);
-              
-              if (isDeadBand) {
-                 return (
-                    <tr key={i} className="bg-gray-50 text-gray-400">
-                        <td className="px-3 py-1">{row.time}</td>
-                        <td className="px-3 py-1 text-right">{r.toFixed(2)}</td>
-                        <td className="px-3 py-1 text-right">{f.toFixed(2)}</td>
-                        <td className="px-3 py-1 text-center text-xs">免考 (DeadBand)</td>
-                        <td className="px-3 py-1 text-right">-</td>
-                        <td className="px-3 py-1 text-right">-</td>
-                        <td className="px-3 py-1 text-right">0</td>
-                    </tr>
-                 )
-              }
+  useEffect(() => {
+    if (rule.explainer.handCalc || data.length === 0) return;
+    let cancelled = false;
+    runRowPreview(rule.rowLogic, {
+      real: data.map(d => d.real),
+      fore: data.map(d => getFore(d)),
+      fore_list: data.map(d => d.forecasts),
+      cap: params.cap,
+      threshold: params.threshold
+    })
+      .then(results => { if (!cancelled) setRuleRowResults(results.values); })
+      .catch(err => { if (!cancelled) setRuleRowResults(data.map(() => err.message)); });
+    return () => { cancelled = true; };
+  }, [rule, data, params.cap, params.threshold]);
 
-              const denom = r + f;
-              const term1 = denom === 0 ? 0 : Math.abs((r/denom) - 0.5);
-              const absDiff = Math.abs(r - f);
-              const term2 = pSum === 0 ? 0 : absDiff / pSum;
-              const stepVal = term1 * term2;
+  // The rule's step-by-step derivation of the day; imported rules have none beyond their own Python row logic
+  const handCalc = rule.explainer.handCalc
+    ? rule.explainer.handCalc(data.map(d => d.real), data.map(d => getFore(d)), params.cap, params.threshold)
+    : null;
 
-              return (
-                <tr key={i} className="hover:bg-slate-50">
-                  <td className="px-3 py-1 text-slate-700 whitespace-nowrap">{row.time}</td>
-                  <td className="px-3 py-1 text-right text-slate-600">{r.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right text-slate-600">{f.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-center text-green-600 text-xs">Valid</td>
-                  <td className="px-3 py-1 text-right text-slate-500">{term1.toFixed(4)}</td>
-                  <td className="px-3 py-1 text-right text-slate-500">{term2.toFixed(4)}</td>
-                  <td className="px-3 py-1 text-right font-mono text-blue-700">{stepVal.toFixed(6)}</td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
-      );
-    } 
+  // --- Reconciliation: hand-computed vs. the formula engine ---
+  const handAccuracy = handCalc === null ? null : data.length === 0 ? 1 : handCalc.accuracy;
+  const [engineAccuracy, setEngineAccuracy] = useState<number | null>(null);
+  const [engineError, setEngineError] = useState<string | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
 
-    else if (region === 'Northeast') {
-      // Northeast Logic: RMSE based with Dead Band
-      const thresholdVal = params.cap * params.threshold;
-      
-      let sumSqError = 0;
-      let count = 0;
+  useEffect(() => {
+    if (!code || data.length === 0) return;
+    let cancelled = false;
+
+    const run = async () => {
+      setIsReconciling(true);
+      setEngineError(null);
+      try {
+        const value = await executeCustomFormula(
+          code,
+          data.map(d => d.real),
+          data.map(d => getFore(d)),
+          params.cap,
+          params.threshold,
+          data.map(d => d.forecasts)
+        );
+        if (!cancelled) setEngineAccuracy(value);
+      } catch (err: any) {
+        if (!cancelled) {
+          setEngineError(err.message);
+          setEngineAccuracy(null);
+        }
+      } finally {
+        if (!cancelled) setIsReconciling(false);
+      }
+    };
+    run();
+
+    return () => { cancelled = true; };
+  }, [code, data, params.cap, params.threshold]);
+
+  // Without a hand derivation (imported rules) the engine is checked against the results table alone
+  const engineMatches = engineAccuracy !== null && (handAccuracy === null
+    ? reportedAccuracy === undefined || Math.abs(engineAccuracy - reportedAccuracy) < RECONCILE_TOLERANCE
+    : Math.abs(engineAccuracy - handAccuracy) < RECONCILE_TOLERANCE);
+  const reportedMatches = handAccuracy === null || reportedAccuracy === undefined || Math.abs(reportedAccuracy - handAccuracy) < RECONCILE_TOLERANCE;
+  
+  // -- Table Generation Logic --
+  // Intermediate per-interval columns come from the rule's hand calculation (see handCalculations.ts)
+
+  const renderTableContent = () => {
+    if (handCalc) {
+      const showStatus = rule.params.useThreshold;
+      const last = handCalc.columns.length - 1;
 
       return (
         <table className="min-w-full divide-y divide-slate-200 text-xs md:text-sm">
@@ -157,64 +105,49 @@ const FormulaExplainer: React.FC<FormulaExplainerProps> = ({ region, params, sam
               <th className="px-3 py-2 text-left text-slate-500">Time</th>
               <th className="px-3 py-2 text-right text-slate-500">Real (R)</th>
               <th className="px-3 py-2 text-right text-slate-500">Fore (F)</th>
-              <th className="px-3 py-2 text-center text-slate-500">Status</th>
-              <th className="px-3 py-2 text-right text-slate-500">Diff (R-F)</th>
-              <th className="px-3 py-2 text-right text-blue-600">Sq.Error (D²)</th>
+              {showStatus && <th className="px-3 py-2 text-center text-slate-500">Status</th>}
+              {handCalc.columns.map((col, k) => (
+                <th key={k} className={`px-3 py-2 text-right ${k === last ? 'text-blue-600 font-medium' : 'text-slate-500'}`}>{col.label}</th>
+              ))}
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-200">
             {data.map((row, i) => {
-              const f = getFore(row);
-              const r = row.real;
-              const isDeadBand = (r < thresholdVal && f < thresholdVal);
-              
-              if (isDeadBand) {
-                 count++; // Still counts towards N usually in some systems, but effectively 0 error. 
-                 // If standard says "Excluded points", we shouldn't inc count, but typically for daily RMSE it is N=96.
-                 // Assuming Fixed 96 points per day for RMSE denominator usually.
-                 return (
-                    <tr key={i} className="bg-gray-50 text-gray-400">
-                        <td className="px-3 py-1">{row.time}</td>
-                        <td className="px-3 py-1 text-right">{r.toFixed(2)}</td>
-                        <td className="px-3 py-1 text-right">{f.toFixed(2)}</td>
-                        <td className="px-3 py-1 text-center text-xs">免考 (DeadBand)</td>
-                        <td className="px-3 py-1 text-right">-</td>
-                        <td className="px-3 py-1 text-right">0.00</td>
-                    </tr>
-                 )
-              }
-
-              const diff = r - f;
-              const sqErr = Math.pow(diff, 2);
-              sumSqError += sqErr;
-              count++;
-
+              const step = handCalc.rows[i];
               return (
-                <tr key={i} className="hover:bg-slate-50">
-                  <td className="px-3 py-1 text-slate-700 whitespace-nowrap">{row.time}</td>
-                  <td className="px-3 py-1 text-right text-slate-600">{r.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right text-slate-600">{f.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-center text-green-600 text-xs">Valid</td>
-                  <td className="px-3 py-1 text-right text-slate-400">{diff.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right font-mono text-blue-700">{sqErr.toFixed(2)}</td>
+                <tr key={i} className={step.exempt ? 'bg-gray-50 text-gray-400' : 'hover:bg-slate-50'}>
+                  <td className={`px-3 py-1 whitespace-nowrap ${step.exempt ? '' : 'text-slate-700'}`}>{row.time}</td>
+                  <td className={`px-3 py-1 text-right ${step.exempt ? '' : 'text-slate-600'}`}>{row.real.toFixed(2)}</td>
+                  <td className={`px-3 py-1 text-right ${step.exempt ? '' : 'text-slate-600'}`}>{getFore(row).toFixed(2)}</td>
+                  {showStatus && (
+                    step.exempt
+                      ? <td className="px-3 py-1 text-center text-xs">免考 (DeadBand)</td>
+                      : <td className="px-3 py-1 text-center text-green-600 text-xs">Valid</td>
+                  )}
+                  {step.values.map((v, k) => (
+                    <td key={k} className={`px-3 py-1 text-right ${
+                      step.exempt ? '' : step.marked?.includes(k) ? 'text-amber-600' : k === last ? 'font-mono text-blue-700' : 'text-slate-400'
+                    }`}>
+                      {v === null ? '-' : v.toFixed(handCalc.columns[k].digits)}
+                    </td>
+                  ))}
                 </tr>
               );
             })}
-             <tr className="bg-blue-50 font-bold">
-              <td colSpan={4} className="px-3 py-2 text-right">Count: {data.length}</td>
-              <td colSpan={2} className="px-3 py-2 text-right text-blue-700">
-                RMSE = √({sumSqError.toFixed(2)} / {data.length}) = {Math.sqrt(sumSqError/data.length).toFixed(4)}
-                <br/>
-                Acc = 1 - (RMSE / {params.cap})
-              </td>
-            </tr>
+            {handCalc.summary.length > 0 && (
+              <tr className="bg-blue-50 font-bold">
+                <td colSpan={3 + (showStatus ? 1 : 0) + handCalc.columns.length} className="px-3 py-2 text-right text-blue-700">
+                  {handCalc.summary.map((line, k) => <div key={k}>{line}</div>)}
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       );
     }
-    
+
     else {
-      // General Table (Difference & Square Error)
+      // Imported rule: the rule's own per-row result
       return (
         <table className="min-w-full divide-y divide-slate-200 text-xs md:text-sm">
           <thead className="bg-slate-50">
@@ -223,20 +156,22 @@ const FormulaExplainer: React.FC<FormulaExplainerProps> = ({ region, params, sam
               <th className="px-3 py-2 text-right text-slate-500">Real (R)</th>
               <th className="px-3 py-2 text-right text-slate-500">Fore (F)</th>
               <th className="px-3 py-2 text-right text-slate-500">Diff (R-F)</th>
-              <th className="px-3 py-2 text-right text-blue-600">Sq.Error (R-F)²</th>
+              <th className="px-3 py-2 text-right text-blue-600">result ({rule.aggMethod})</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-200">
             {data.map((row, i) => {
               const f = getFore(row);
-              const diff = row.real - f;
+              const value = ruleRowResults[i];
               return (
                 <tr key={i} className="hover:bg-slate-50">
                   <td className="px-3 py-1 text-slate-700 whitespace-nowrap">{row.time}</td>
                   <td className="px-3 py-1 text-right text-slate-600">{row.real.toFixed(2)}</td>
                   <td className="px-3 py-1 text-right text-slate-600">{f.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right text-slate-400">{diff.toFixed(2)}</td>
-                  <td className="px-3 py-1 text-right font-mono text-blue-700">{Math.pow(diff, 2).toFixed(2)}</td>
+                  <td className="px-3 py-1 text-right text-slate-400">{(row.real - f).toFixed(2)}</td>
+                  <td className="px-3 py-1 text-right font-mono text-blue-700">
+                    {typeof value === 'number' ? value.toFixed(6) : (value ?? '-')}
+                  </td>
                 </tr>
               );
             })}
@@ -272,7 +207,7 @@ const FormulaExplainer: React.FC<FormulaExplainerProps> = ({ region, params, sam
            <div className="mt-3 p-3 bg-white rounded border border-slate-200 font-mono text-sm text-center text-slate-800 overflow-x-auto">
              {info.formula}
            </div>
-           {(region === 'Northwest' || region === 'Northeast') && (
+           {rule.params.useThreshold && (
              <p className="text-xs text-slate-500 mt-2 text-right">
                *免考阈值: {params.threshold*100}% Cap ({params.cap * params.threshold} MW)
              </p>
@@ -286,6 +221,40 @@ const FormulaExplainer: React.FC<FormulaExplainerProps> = ({ region, params, sam
         <p className="text-xs text-slate-400 mt-2 text-center">
           * 表格展示当日每个时间点的中间计算变量。最终准确率由上述变量汇总计算得出。
         </p>
+
+        {/* Reconciliation Line */}
+        <div className={`mt-4 p-3 rounded-md border text-sm flex flex-wrap items-center gap-x-4 gap-y-1 ${
+          engineError || (engineAccuracy !== null && !engineMatches) || !reportedMatches
+            ? 'bg-red-50 border-red-200 text-red-800'
+            : 'bg-green-50 border-green-200 text-green-800'
+        }`}>
+          <span className="font-semibold">复核 (Reconciliation)：</span>
+          {handAccuracy !== null && (
+            <span>手工推导 <strong className="font-mono">{(handAccuracy * 100).toFixed(4)}%</strong></span>
+          )}
+          {code && (
+            <span className="flex items-center">
+              executeCustomFormula&nbsp;
+              {isReconciling ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : engineAccuracy !== null ? (
+                <strong className="font-mono">{(engineAccuracy * 100).toFixed(4)}%</strong>
+              ) : (
+                <span className="text-xs">{engineError ? `失败: ${engineError}` : '-'}</span>
+              )}
+            </span>
+          )}
+          {reportedAccuracy !== undefined && (
+            <span>结果表 <strong className="font-mono">{(reportedAccuracy * 100).toFixed(4)}%</strong></span>
+          )}
+          {!isReconciling && !engineError && (
+            engineMatches && reportedMatches ? (
+              <span className="flex items-center font-semibold"><CheckCircle2 className="w-4 h-4 mr-1" />一致 (|Δ| &lt; {RECONCILE_TOLERANCE})</span>
+            ) : (engineAccuracy !== null || !reportedMatches) && (
+              <span className="flex items-center font-semibold"><XCircle className="w-4 h-4 mr-1" />不一致，请检查自定义公式</span>
+            )
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,292 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { BookMarked, X, Download, FileUp, History, Trash2, RotateCcw, Save, FilePlus2, AlertCircle, CheckCircle2, FlaskConical } from 'lucide-react';
+import { Region } from '../types';
+import {
+  FormulaContent, FormulaTestCase, LibraryFormula, listLibraryFormulas, saveFormulaVersion, restoreFormulaVersion, deleteLibraryFormula,
+  exportFormulaBundle, importFormulaBundle, diffLines, formatVersionCode, latestVersion, isSameContent, getLastAuthor
+} from '../services/formulaLibrary';
+
+interface FormulaLibraryPanelProps {
+  region: Region;
+  current: FormulaContent; // What the editor holds right now
+  testCases: FormulaTestCase[]; // Golden cases in the editor, saved with the formula
+  golden: { total: number, failed: number, pending: boolean };
+  activeId: string | null;
+  suggested?: { name: string, notes: string }; // Prefill from an applied rule document card
+  onLoad: (formula: LibraryFormula) => void; // Load the formula's latest version into the editor
+  onActiveChange: (formula: LibraryFormula | null) => void; // Active formula changed, editor content kept
+  onClose: () => void;
+}
+
+const sameCases = (a: FormulaTestCase[], b: FormulaTestCase[]) => JSON.stringify(a) === JSON.stringify(b);
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString('zh-CN', { hour12: false });
+
+/**
+ * Named formulas of a region with their version history, line diffs, restore and JSON bundle sharing.
+ */
+const FormulaLibraryPanel: React.FC<FormulaLibraryPanelProps> = ({ region, current, testCases, golden, activeId, suggested, onLoad, onActiveChange, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [formulas, setFormulas] = useState(() => listLibraryFormulas(region));
+  const active = formulas.find(f => f.id === activeId) || null;
+
+  const [name, setName] = useState(suggested?.name ?? active?.name ?? '');
+  const [author, setAuthor] = useState(getLastAuthor);
+  const [notes, setNotes] = useState(suggested?.notes ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [overrideGolden, setOverrideGolden] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // History view: the formula being inspected and the version shown against its predecessor
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const historyFormula = formulas.find(f => f.id === historyId) || null;
+
+  const unchanged = active ? isSameContent(latestVersion(active), current) && sameCases(active.testCases ?? [], testCases) : false;
+
+  // Failing (or still running) golden cases block saving unless explicitly overridden
+  const goldenBlocked = golden.total > 0 && (golden.pending || golden.failed > 0);
+  const canSave = !goldenBlocked || (overrideGolden && !golden.pending);
+
+  const refresh = () => setFormulas(listLibraryFormulas(region));
+
+  const run = (action: () => string | void) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const msg = action();
+      if (msg) setMessage(msg);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSaveVersion = (asNew: boolean) => run(() => {
+    if (!canSave) return;
+    // An override is recorded in the version notes so reviewers can see it
+    const overrideNote = goldenBlocked ? `[忽略 ${golden.failed} 个失败的回归用例]` : '';
+    const saved = saveFormulaVersion(region, asNew ? null : activeId, current, {
+      name, author, notes: [notes.trim(), overrideNote].filter(Boolean).join(' '), testCases
+    });
+    refresh();
+    setNotes('');
+    setOverrideGolden(false);
+    onActiveChange(saved);
+    return `已保存 ${saved.name} v${latestVersion(saved).version}`;
+  });
+
+  const handleRestore = (formula: LibraryFormula, version: number) => run(() => {
+    if (!confirm(`将 ${formula.name} v${version} 恢复为最新版本并载入编辑器？`)) return;
+    const restored = restoreFormulaVersion(formula.id, version, author);
+    refresh();
+    onLoad(restored);
+    return `已将 v${version} 恢复为 v${latestVersion(restored).version}`;
+  });
+
+  const handleDelete = (formula: LibraryFormula) => run(() => {
+    if (!confirm(`确认删除公式 ${formula.name} 及其全部 ${formula.versions.length} 个版本吗？此操作无法撤销。`)) return;
+    deleteLibraryFormula(formula.id);
+    refresh();
+    if (historyId === formula.id) setHistoryId(null);
+    if (formula.id === activeId) onActiveChange(null);
+  });
+
+  const handleExport = () => {
+    const link = document.createElement("a");
+    link.setAttribute("href", "data:application/json;charset=utf-8," + encodeURIComponent(exportFormulaBundle(formulas)));
+    link.setAttribute("download", `powersight_formulas_${region}.json`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    run(() => {
+      const { added, updated } = importFormulaBundle(text);
+      refresh();
+      return `导入完成：新增 ${added} 个公式，更新 ${updated} 个公式 (其他区域的公式切换区域后可见)`;
+    });
+  };
+
+  const diff = useMemo(() => {
+    if (!historyFormula || selectedVersion === null) return null;
+    const idx = historyFormula.versions.findIndex(v => v.version === selectedVersion);
+    if (idx < 0) return null;
+    const prev = historyFormula.versions[idx - 1];
+    return {
+      base: prev ? `v${prev.version}` : '空',
+      lines: diffLines(prev ? formatVersionCode(prev) : '', formatVersionCode(historyFormula.versions[idx]))
+    };
+  }, [historyFormula, selectedVersion]);
+
+  return (
+    <div className="absolute inset-0 z-30 bg-white flex flex-col">
+      <div className="px-4 py-2 border-b border-slate-200 flex items-center justify-between bg-slate-50 shrink-0">
+        <h3 className="font-bold text-slate-700 text-sm flex items-center">
+          <BookMarked className="w-4 h-4 text-indigo-500 mr-2" />
+          公式库 (Formula Library) · {region}
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button onClick={handleExport} disabled={formulas.length === 0} className="flex items-center text-xs px-2 py-1 border border-slate-200 rounded text-slate-600 hover:bg-white disabled:opacity-50">
+            <Download className="w-3 h-3 mr-1" />
+            导出 JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center text-xs px-2 py-1 border border-slate-200 rounded text-slate-600 hover:bg-white">
+            <FileUp className="w-3 h-3 mr-1" />
+            导入 JSON
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" title="关闭">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        {/* Left: save form + formula list */}
+        <div className="w-1/2 border-r border-slate-200 flex flex-col min-h-0">
+          <div className="p-3 border-b border-slate-100 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <input value={name} onChange={e => setName(e.target.value)} placeholder="公式名称" className="text-xs border border-slate-300 rounded px-2 py-1.5" />
+              <input value={author} onChange={e => setAuthor(e.target.value)} placeholder="作者" className="text-xs border border-slate-300 rounded px-2 py-1.5" />
+            </div>
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} placeholder="版本说明，例如：按 2024 版细则调整死区" className="w-full text-xs border border-slate-300 rounded px-2 py-1.5 resize-none" />
+            <div className="flex items-center justify-between">
+              <span className="text-[11px] text-slate-400">
+                {active ? (unchanged ? `编辑器内容与 ${active.name} v${latestVersion(active).version} 一致` : `基于 ${active.name} v${latestVersion(active).version}，有未保存修改`) : '当前未关联公式库中的公式'}
+              </span>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => handleSaveVersion(false)}
+                  disabled={!active || unchanged || !canSave}
+                  className="flex items-center text-xs px-2 py-1 rounded text-white bg-slate-700 hover:bg-slate-800 disabled:opacity-40"
+                >
+                  <Save className="w-3 h-3 mr-1" />
+                  保存为 v{active ? latestVersion(active).version + 1 : 1}
+                </button>
+                <button onClick={() => handleSaveVersion(true)} disabled={!canSave} className="flex items-center text-xs px-2 py-1 rounded border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-40">
+                  <FilePlus2 className="w-3 h-3 mr-1" />
+                  另存为新公式
+                </button>
+              </div>
+            </div>
+            {goldenBlocked && (
+              <div className="text-xs text-red-700 bg-red-50 rounded p-2 space-y-1">
+                <div className="flex items-start">
+                  <FlaskConical className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                  {golden.pending
+                    ? `回归用例仍在计算 (${golden.total} 例)，完成后才能保存`
+                    : `${golden.failed} / ${golden.total} 个回归用例未通过，当前公式会改变已校验的结果`}
+                </div>
+                {!golden.pending && (
+                  <label className="flex items-center cursor-pointer">
+                    <input type="checkbox" checked={overrideGolden} onChange={e => setOverrideGolden(e.target.checked)} className="mr-1 rounded border-red-300" />
+                    我确认结果变化是预期的，仍然保存 (Override)
+                  </label>
+                )}
+              </div>
+            )}
+            {message && (
+              <div className="flex items-start text-xs text-green-700 bg-green-50 rounded p-2">
+                <CheckCircle2 className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                {message}
+              </div>
+            )}
+            {error && (
+              <div className="flex items-start text-xs text-red-700 bg-red-50 rounded p-2">
+                <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                <span className="whitespace-pre-wrap">{error}</span>
+              </div>
+            )}
+          </div>
+
+          <ul className="flex-1 overflow-auto divide-y divide-slate-100">
+            {formulas.length === 0 && <li className="p-6 text-center text-xs text-slate-400">该区域还没有保存的公式</li>}
+            {formulas.map(f => {
+              const latest = latestVersion(f);
+              return (
+                <li key={f.id} className={`px-3 py-2 text-xs ${historyId === f.id ? 'bg-indigo-50' : ''}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-slate-700">
+                      {f.name} <span className="font-mono text-slate-400">v{latest.version}</span>
+                      {f.id === activeId && <span className="ml-2 px-1.5 py-0.5 rounded bg-green-100 text-green-700 text-[10px]">当前</span>}
+                    </span>
+                    <span className="flex items-center space-x-2">
+                      <button onClick={() => run(() => { onLoad(f); setName(f.name); })} className="text-blue-600 hover:underline">载入</button>
+                      <button onClick={() => { setHistoryId(f.id); setSelectedVersion(latest.version); }} className="text-slate-500 hover:text-slate-800" title="版本历史">
+                        <History className="w-3 h-3" />
+                      </button>
+                      <button onClick={() => handleDelete(f)} className="text-slate-400 hover:text-red-600" title="删除该公式">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  </div>
+                  <div className="text-slate-400 mt-0.5">
+                    {latest.author || '未署名'} · {formatTime(latest.timestamp)} · 共 {f.versions.length} 个版本
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {/* Right: version history and diff */}
+        <div className="w-1/2 flex flex-col min-h-0">
+          {historyFormula ? (
+            <>
+              <ul className="max-h-40 overflow-auto divide-y divide-slate-100 border-b border-slate-200 shrink-0">
+                {[...historyFormula.versions].reverse().map(v => (
+                  <li
+                    key={v.version}
+                    onClick={() => setSelectedVersion(v.version)}
+                    className={`px-3 py-1.5 text-xs cursor-pointer flex items-start justify-between ${selectedVersion === v.version ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <span className="min-w-0">
+                      <span className="font-mono font-bold text-slate-700 mr-2">v{v.version}</span>
+                      <span className="text-slate-500">{v.author || '未署名'} · {formatTime(v.timestamp)}</span>
+                      {v.notes && <span className="block text-slate-600 truncate" title={v.notes}>{v.notes}</span>}
+                    </span>
+                    {v.version !== latestVersion(historyFormula).version && (
+                      <button
+                        onClick={e => { e.stopPropagation(); handleRestore(historyFormula, v.version); }}
+                        className="ml-2 flex items-center text-indigo-600 hover:underline whitespace-nowrap"
+                      >
+                        <RotateCcw className="w-3 h-3 mr-0.5" />
+                        恢复
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {diff && (
+                <div className="flex-1 overflow-auto bg-[#1e1e1e] text-xs font-mono">
+                  <div className="px-3 py-1 text-slate-400 bg-[#252526] sticky top-0">
+                    对比 {diff.base} → v{selectedVersion}
+                  </div>
+                  {diff.lines.map((l, i) => (
+                    <div
+                      key={i}
+                      className={`px-3 whitespace-pre ${l.type === 'added' ? 'bg-green-900/50 text-green-200' : l.type === 'removed' ? 'bg-red-900/50 text-red-200' : 'text-slate-400'}`}
+                    >
+                      {l.type === 'added' ? '+ ' : l.type === 'removed' ? '- ' : '  '}{l.text}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-xs text-slate-400 p-6 text-center">
+              点击公式右侧的 <History className="w-3 h-3 mx-1 inline" /> 查看版本历史与差异
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FormulaLibraryPanel;
@@ -0,0 +1,162 @@
+import React from 'react';
+import { FlaskConical, X, Plus, Trash2, CheckCircle2, XCircle, Loader2, BookCheck } from 'lucide-react';
+import { Region } from '../types';
+import { FormulaTestCase, newTestCaseId } from '../services/formulaLibrary';
+import { ReferenceCheck, fixturesToGoldenCases } from '../services/referenceCases';
+import { getRegionRule } from '../services/regionRules';
+
+interface GoldenCasePanelProps {
+  region: Region;
+  cases: FormulaTestCase[];
+  setCases: (cases: FormulaTestCase[]) => void;
+  checks: ReferenceCheck[] | null; // Same order as `cases`; null while not yet run
+  isRunning: boolean;
+  sampleDay: { date: string, real: number[], fore: number[], foreRaw: number[][], cap: number, threshold: number } | null;
+  sampleAccuracy: number | null; // Current script's accuracy on the sample day, used as the snapshot's expected value
+  onClose: () => void;
+}
+
+// New cases from the sample day allow 0.01 percentage points of drift
+const DEFAULT_TOLERANCE = 1e-4;
+
+/**
+ * Golden regression cases of the formula: each pins the accuracy of a small dataset so edits
+ * that shift historical numbers are caught before saving.
+ */
+const GoldenCasePanel: React.FC<GoldenCasePanelProps> = ({ region, cases, setCases, checks, isRunning, sampleDay, sampleAccuracy, onClose }) => {
+  const rule = getRegionRule(region);
+
+  const updateCase = (id: string, patch: Partial<FormulaTestCase>) =>
+    setCases(cases.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const handleAddSampleDay = () => {
+    if (!sampleDay || sampleAccuracy === null) return;
+    setCases([...cases, {
+      id: newTestCaseId(),
+      name: `${sampleDay.date} 样本日`,
+      cap: sampleDay.cap,
+      threshold: sampleDay.threshold,
+      real: sampleDay.real,
+      fore: sampleDay.fore,
+      fore_list: sampleDay.foreRaw,
+      expected: sampleAccuracy,
+      tolerance: DEFAULT_TOLERANCE
+    }]);
+  };
+
+  const handleRemove = (c: FormulaTestCase) => {
+    if (!confirm(`确认删除回归用例 ${c.name || '(未命名)'} 吗？`)) return;
+    setCases(cases.filter(x => x.id !== c.id));
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-white flex flex-col">
+      <div className="px-4 py-2 border-b border-slate-200 flex items-center justify-between bg-slate-50 shrink-0">
+        <h3 className="font-bold text-slate-700 text-sm flex items-center">
+          <FlaskConical className="w-4 h-4 text-indigo-500 mr-2" />
+          回归用例 (Golden Cases)
+          {isRunning && <Loader2 className="w-3 h-3 ml-2 animate-spin text-slate-400" />}
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleAddSampleDay}
+            disabled={!sampleDay || sampleAccuracy === null}
+            className="flex items-center text-xs px-2 py-1 border border-slate-200 rounded text-slate-600 hover:bg-white disabled:opacity-50"
+            title="以当前公式在样本日上的准确率作为预期值"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            添加样本日快照
+          </button>
+          <button
+            onClick={() => setCases([...cases, ...fixturesToGoldenCases(rule)])}
+            className="flex items-center text-xs px-2 py-1 border border-slate-200 rounded text-slate-600 hover:bg-white"
+          >
+            <BookCheck className="w-3 h-3 mr-1" />
+            添加规则参考算例
+          </button>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" title="关闭">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <p className="px-4 py-2 text-xs text-slate-500 border-b border-slate-100 shrink-0">
+        每次编辑公式都会用完整脚本重新计算全部用例；存在失败用例时，保存到公式库需要显式确认。用例随公式保存。
+      </p>
+
+      <div className="flex-1 overflow-auto">
+        {cases.length === 0 ? (
+          <div className="p-8 text-center text-xs text-slate-400">尚未添加回归用例</div>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-100 sticky top-0">
+              <tr className="text-slate-500">
+                <th className="px-3 py-2 text-left font-semibold">用例</th>
+                <th className="px-3 py-2 text-right font-semibold">点数</th>
+                <th className="px-3 py-2 text-right font-semibold">Cap / 阈值</th>
+                <th className="px-3 py-2 text-right font-semibold">预期 (%)</th>
+                <th className="px-3 py-2 text-right font-semibold">容差 (%)</th>
+                <th className="px-3 py-2 text-right font-semibold">实际 (%)</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {cases.map((c, i) => {
+                const check = checks?.[i];
+                return (
+                  <tr key={c.id} className={check && !check.passed ? 'bg-red-50' : ''}>
+                    <td className="px-3 py-1.5">
+                      <input
+                        value={c.name}
+                        onChange={e => updateCase(c.id, { name: e.target.value })}
+                        className="w-full border border-transparent hover:border-slate-200 focus:border-slate-300 rounded px-1 py-0.5"
+                      />
+                    </td>
+                    <td className="px-3 py-1.5 text-right font-mono text-slate-500">{c.real.length}</td>
+                    <td className="px-3 py-1.5 text-right font-mono text-slate-500">{c.cap} / {(c.threshold * 100).toFixed(0)}%</td>
+                    <td className="px-3 py-1.5 text-right">
+                      <input
+                        type="number"
+                        step="0.0001"
+                        value={Number((c.expected * 100).toFixed(8))}
+                        onChange={e => updateCase(c.id, { expected: Number(e.target.value) / 100 })}
+                        className="w-28 text-right font-mono border border-slate-200 rounded px-1 py-0.5"
+                      />
+                    </td>
+                    <td className="px-3 py-1.5 text-right">
+                      <input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        value={Number((c.tolerance * 100).toFixed(8))}
+                        onChange={e => updateCase(c.id, { tolerance: Math.max(0, Number(e.target.value)) / 100 })}
+                        className="w-20 text-right font-mono border border-slate-200 rounded px-1 py-0.5"
+                      />
+                    </td>
+                    <td className="px-3 py-1.5 text-right font-mono" title={check?.error}>
+                      {!check ? (
+                        <span className="text-slate-300">-</span>
+                      ) : (
+                        <span className={`inline-flex items-center ${check.passed ? 'text-green-700' : 'text-red-700'}`}>
+                          {check.passed ? <CheckCircle2 className="w-3 h-3 mr-1" /> : <XCircle className="w-3 h-3 mr-1" />}
+                          {check.actual !== null ? (check.actual * 100).toFixed(4) : '执行失败'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 text-right">
+                      <button onClick={() => handleRemove(c)} className="text-slate-400 hover:text-red-600" title="删除该用例">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GoldenCasePanel;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { FileCheck, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { ParseReport, DELIMITER_LABELS } from '../services/dataParser';
+
+interface ImportReportProps {
+  report: ParseReport;
+}
+
+const ImportReport: React.FC<ImportReportProps> = ({ report }) => {
+  const [expanded, setExpanded] = useState(false);
+  const hasSkipped = report.skipped.length > 0;
+
+  return (
+    <div className={`rounded-lg border p-4 text-sm ${hasSkipped ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          {hasSkipped
+            ? <AlertTriangle className="w-4 h-4 mr-2 text-amber-600" />
+            : <FileCheck className="w-4 h-4 mr-2 text-green-600" />}
+          <span className="font-semibold text-slate-800 mr-3">{report.fileName}</span>
+          <span className="text-slate-600">
+            已导入 <strong>{report.rowCount}</strong> 行
+            {hasSkipped && <>，跳过 <strong className="text-amber-700">{report.skipped.length}</strong> 行</>}
+          </span>
+        </div>
+        <div className="flex items-center space-x-3 text-xs text-slate-500">
+          <span>格式: {report.format.toUpperCase()}</span>
+          {report.delimiter && <span>分隔符: {DELIMITER_LABELS[report.delimiter] || report.delimiter}</span>}
+          {report.encoding && <span>编码: {report.encoding}</span>}
+          {hasSkipped && (
+            <button onClick={() => setExpanded(!expanded)} className="flex items-center text-amber-700 hover:text-amber-900">
+              {expanded ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+              查看跳过的行
+            </button>
+          )}
+        </div>
+      </div>
+
+      {expanded && hasSkipped && (
+        <div className="mt-3 max-h-48 overflow-y-auto bg-white rounded border border-amber-100">
+          <table className="min-w-full divide-y divide-slate-100 text-xs">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-1.5 text-left font-medium text-slate-500 w-24">行号</th>
+                <th className="px-3 py-1.5 text-left font-medium text-slate-500">原因</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {report.skipped.map(s => (
+                <tr key={s.row}>
+                  <td className="px-3 py-1 font-mono text-slate-600">{s.row}</td>
+                  <td className="px-3 py-1 text-slate-700">{s.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportReport;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Banknote, RotateCcw } from 'lucide-react';
+import { PenaltyModel } from '../types';
+import { formatFee } from '../services/penalty';
+
+interface PenaltyPanelProps {
+  model: PenaltyModel;
+  setModel: (m: PenaltyModel) => void;
+  onReset: () => void;
+  cap: number;
+  total: { mwh: number, fee: number, assessedDays: number };
+}
+
+const FIELDS: { key: keyof PenaltyModel, label: string, step: string, percent?: boolean }[] = [
+  { key: 'passLine', label: '合格线 (%)', step: '1', percent: true },
+  { key: 'coefficient', label: '考核系数 (h)', step: '0.05' },
+  { key: 'pointsPerMwh', label: '分/MWh', step: '0.1' },
+  { key: 'pricePerPoint', label: '每分单价 (元)', step: '100' }
+];
+
+const PenaltyPanel: React.FC<PenaltyPanelProps> = ({ model, setModel, onReset, cap, total }) => {
+  return (
+    <div className="bg-white rounded-lg shadow border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center">
+          <Banknote className="w-5 h-5 mr-2 text-emerald-600" />
+          考核费用测算 (Assessment)
+        </h3>
+        <button onClick={onReset} className="flex items-center text-xs text-slate-500 hover:text-blue-600" title="恢复当前区域的默认参数">
+          <RotateCcw className="w-3 h-3 mr-1" />
+          区域默认
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {FIELDS.map(f => (
+          <div key={f.key}>
+            <label className="block text-xs font-medium text-slate-600 mb-1">{f.label}</label>
+            <input
+              type="number" min="0" step={f.step}
+              value={f.percent ? parseFloat((model[f.key] * 100).toFixed(2)) : model[f.key]}
+              onChange={e => {
+                const v = Math.max(0, Number(e.target.value) || 0);
+                setModel({ ...model, [f.key]: f.percent ? v / 100 : v });
+              }}
+              className="w-full border-slate-300 rounded-md shadow-sm p-2 border text-sm"
+            />
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500 mt-3">
+        日考核电量 = max(0, 合格线 - 准确率) × 装机容量 ({cap} MW) × 考核系数；考核费用 = 考核电量 × 分/MWh × 每分单价。
+      </p>
+
+      <div className="grid grid-cols-3 gap-4 mt-4 pt-4 border-t border-slate-100 text-center">
+        <div>
+          <div className="text-2xl font-bold text-slate-800">{total.assessedDays}</div>
+          <div className="text-xs text-slate-500">被考核天数</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-slate-800">{total.mwh.toFixed(2)}</div>
+          <div className="text-xs text-slate-500">考核电量合计 (MWh)</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-red-600">¥{formatFee(total.fee)}</div>
+          <div className="text-xs text-slate-500">考核费用合计 (元)</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PenaltyPanel;
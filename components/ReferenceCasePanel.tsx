@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { BookCheck, CheckCircle2, XCircle, Loader2, Play } from 'lucide-react';
+import { Region } from '../types';
+import { getRegionRule } from '../services/regionRules';
+import { ReferenceCheck, checkNativeReference, checkRuleFixtures } from '../services/referenceCases';
+
+interface ReferenceCasePanelProps {
+  region: Region;
+}
+
+const CheckBadge: React.FC<{ label: string, checks: ReferenceCheck[] }> = ({ label, checks }) => {
+  const passed = checks.every(c => c.passed);
+  const failed = checks.find(c => !c.passed);
+  return (
+    <div className={`flex items-center justify-between text-xs px-2 py-1 rounded ${passed ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+      <span className="flex items-center">
+        {passed ? <CheckCircle2 className="w-3 h-3 mr-1" /> : <XCircle className="w-3 h-3 mr-1" />}
+        {label}
+      </span>
+      <span className="font-mono" title={failed?.error}>
+        {failed
+          ? (failed.actual !== null ? `${(failed.actual * 100).toFixed(4)}%` : '执行失败')
+          : `${checks.length} / ${checks.length} 通过`}
+      </span>
+    </div>
+  );
+};
+
+/**
+ * Shows the region rule's first worked fixture and checks both calculation engines against all of them.
+ */
+const ReferenceCasePanel: React.FC<ReferenceCasePanelProps> = ({ region }) => {
+  const rule = getRegionRule(region);
+  const refCase = rule.fixtures[0];
+  const nativeChecks = useMemo(() => {
+    const checks = rule.fixtures.map(f => checkNativeReference(rule, f));
+    return checks.every(c => c !== null) ? checks as ReferenceCheck[] : null;
+  }, [rule]);
+  const [pythonChecks, setPythonChecks] = useState<{ region: Region, checks: ReferenceCheck[] } | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  // A result for another region is stale
+  const shownPythonChecks = pythonChecks?.region === region ? pythonChecks.checks : null;
+
+  const handleCheckPython = async () => {
+    setIsChecking(true);
+    try {
+      setPythonChecks({ region, checks: await checkRuleFixtures(rule) });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (!refCase) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4 mt-4">
+      <h4 className="font-bold text-slate-800 mb-2 text-sm flex items-center">
+        <BookCheck className="w-4 h-4 text-indigo-500 mr-2" />
+        参考算例 (Reference Case)
+        {rule.fixtures.length > 1 && <span className="ml-2 text-xs font-normal text-slate-400">共 {rule.fixtures.length} 个</span>}
+      </h4>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs font-mono">
+          <tbody>
+            <tr>
+              <td className="pr-2 text-slate-500">R</td>
+              {refCase.real.map((v, i) => <td key={i} className="px-1 text-right">{v}</td>)}
+            </tr>
+            <tr>
+              <td className="pr-2 text-slate-500">F</td>
+              {refCase.fore.map((v, i) => <td key={i} className="px-1 text-right">{v}</td>)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400 mt-1">
+        Cap = {refCase.cap} MW，阈值 = {refCase.threshold * 100}%，预期准确率 {(refCase.expected * 100).toFixed(4)}%
+      </p>
+
+      {refCase.steps && (
+        <ol className="text-xs text-slate-600 space-y-1 list-decimal pl-4 mt-2">
+          {refCase.steps.map((s, i) => <li key={i}>{s}</li>)}
+        </ol>
+      )}
+
+      <div className="mt-3 space-y-1">
+        {nativeChecks && <CheckBadge label="内置引擎 (TypeScript)" checks={nativeChecks} />}
+        {shownPythonChecks ? (
+          <CheckBadge label="规则模板 (Python)" checks={shownPythonChecks} />
+        ) : (
+          <button
+            onClick={handleCheckPython}
+            disabled={isChecking}
+            className="w-full flex items-center justify-center text-xs px-2 py-1 border border-slate-200 rounded text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+          >
+            {isChecking ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+            校验规则 Python 模板
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceCasePanel;
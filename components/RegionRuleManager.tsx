@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import { FileUp, Trash2, Loader2, AlertCircle, CheckCircle2, Library } from 'lucide-react';
+import { RegionRule } from '../types';
+import { parseRegionRuleFile, registerRegionRules, removeRegionRule } from '../services/regionRules';
+import { checkRuleFixtures } from '../services/referenceCases';
+
+interface RegionRuleManagerProps {
+  rules: RegionRule[];
+  onRulesChanged: () => void; // Re-read the registry after an import or removal
+}
+
+/**
+ * Imports province rules from JSON/YAML definitions. A definition is only registered
+ * once every one of its fixtures reproduces the expected accuracy on the Python engine.
+ */
+const RegionRuleManager: React.FC<RegionRuleManagerProps> = ({ rules, onRulesChanged }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const importedRules = rules.filter(r => !r.builtin);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const parsed = parseRegionRuleFile(await file.text(), file.name);
+
+      for (const rule of parsed) {
+        const checks = await checkRuleFixtures(rule);
+        const failedIdx = checks.findIndex(c => !c.passed);
+        if (failedIdx >= 0) {
+          const failed = checks[failedIdx];
+          throw new Error(failed.error
+            ? `规则 "${rule.id}" 的第 ${failedIdx + 1} 个算例执行失败: ${failed.error}`
+            : `规则 "${rule.id}" 的第 ${failedIdx + 1} 个算例不通过: 预期 ${failed.expected}，实际 ${failed.actual}`);
+        }
+      }
+
+      registerRegionRules(parsed);
+      onRulesChanged();
+      setMessage(`已导入 ${parsed.map(r => r.name).join('、')}，共 ${parsed.reduce((acc, r) => acc + r.fixtures.length, 0)} 个算例校验通过`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleRemove = (rule: RegionRule) => {
+    if (!confirm(`确认删除导入的规则 ${rule.name} 吗？`)) return;
+    removeRegionRule(rule.id);
+    onRulesChanged();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4 mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-slate-800 text-sm flex items-center">
+          <Library className="w-4 h-4 text-indigo-500 mr-2" />
+          区域规则库 (Rule Registry)
+        </h4>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="flex items-center text-xs px-2 py-1 border border-slate-200 rounded text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+        >
+          {isImporting ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <FileUp className="w-3 h-3 mr-1" />}
+          导入 JSON / YAML
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,.yaml,.yml" onChange={handleFile} className="hidden" />
+      </div>
+
+      <p className="text-xs text-slate-500">
+        内置 {rules.length - importedRules.length} 个区域。规则文件需声明 id、name、rowLogic、aggMethod 与 fixtures 参考算例，导入时自动用 Python 引擎校验。
+      </p>
+
+      {importedRules.length > 0 && (
+        <ul className="mt-2 divide-y divide-slate-100 border border-slate-100 rounded">
+          {importedRules.map(rule => (
+            <li key={rule.id} className="flex items-center justify-between px-2 py-1 text-xs">
+              <span className="text-slate-700">
+                {rule.name} <span className="font-mono text-slate-400">({rule.id} · {rule.aggMethod})</span>
+              </span>
+              <button onClick={() => handleRemove(rule)} className="text-slate-400 hover:text-red-600" title="删除该规则">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && (
+        <div className="mt-2 flex items-start text-xs text-green-700 bg-green-50 rounded p-2">
+          <CheckCircle2 className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="mt-2 flex items-start text-xs text-red-700 bg-red-50 rounded p-2">
+          <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+          <span className="whitespace-pre-wrap">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegionRuleManager;
@@ -0,0 +1,326 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollText, X, Loader2, Wand2, CheckCircle2, XCircle, AlertTriangle, Download, RefreshCw, Check } from 'lucide-react';
+import { Region } from '../types';
+import { AGG_METHOD_LABELS, generateBatchScript } from '../services/formulas';
+import { RuleDocumentDraft, RuleResolution, translateRuleDocument, examplesToGoldenCases, draftToRuleDefinition } from '../services/ruleDocument';
+import { ReferenceCheck, checkGoldenCases } from '../services/referenceCases';
+import { validateRowLogic } from '../services/aiAssistant';
+
+interface RuleDocumentPanelProps {
+  region: Region;
+  sampleDay: { date: string, real: number[], fore: number[], foreRaw: number[][], cap: number, threshold: number } | null;
+  onApply: (draft: RuleDocumentDraft) => void;
+  onApplyThreshold?: (threshold: number) => void; // Sets the calculation's dead band to the extracted one
+  onClose: () => void;
+}
+
+/**
+ * Pastes a section of an official rule document and turns it into a formula draft: card, parameters,
+ * row logic and aggregation. Every ambiguity the model flagged must be answered before the draft is applied.
+ */
+const RuleDocumentPanel: React.FC<RuleDocumentPanelProps> = ({ region, sampleDay, onApply, onApplyThreshold, onClose }) => {
+  const [documentText, setDocumentText] = useState('');
+  const [draft, setDraft] = useState<RuleDocumentDraft | null>(null);
+  const [card, setCard] = useState<RuleDocumentDraft['card']>({ name: '', desc: '', formula: '' }); // Editable; kept apart so edits don't re-run the checks
+  const [choices, setChoices] = useState<(number | null)[]>([]); // Per ambiguity; null = not answered yet
+  const [resolutions, setResolutions] = useState<RuleResolution[]>([]); // Answers from earlier rounds, resent on every regeneration
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sampleProblems, setSampleProblems] = useState<string[] | null>(null);
+  const [exampleChecks, setExampleChecks] = useState<ReferenceCheck[] | null>(null);
+  const [ruleId, setRuleId] = useState('');
+
+  // Validate every new draft on the sample day and on the document's own worked examples
+  useEffect(() => {
+    setSampleProblems(null);
+    setExampleChecks(null);
+    if (!draft) return;
+    let cancelled = false;
+    (async () => {
+      if (sampleDay) {
+        const problems = await validateRowLogic(draft.rowLogic, {
+          real: sampleDay.real,
+          fore: sampleDay.fore,
+          foreRaw: sampleDay.foreRaw,
+          cap: sampleDay.cap,
+          threshold: draft.threshold ?? sampleDay.threshold
+        });
+        if (cancelled) return;
+        setSampleProblems(problems);
+      }
+      const checks = await checkGoldenCases(generateBatchScript(draft.rowLogic, draft.aggMethod, draft.aggCode), examplesToGoldenCases(draft));
+      if (!cancelled) setExampleChecks(checks);
+    })();
+    return () => { cancelled = true; };
+  }, [draft, sampleDay]);
+
+  const translate = async (resolved: boolean) => {
+    setIsTranslating(true);
+    setError(null);
+    try {
+      // A fresh parse starts over; a regeneration adds this round's answers to the earlier ones
+      const answers = resolved && draft
+        ? [...resolutions, ...draft.ambiguities.map((a, i) => ({ question: a.question, answer: a.options[choices[i] ?? a.assumed] }))]
+        : [];
+      const next = await translateRuleDocument(documentText, region, answers);
+      setResolutions(answers);
+      setDraft(next);
+      setCard(next.card);
+      setChoices(next.ambiguities.map(() => null));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const unanswered = choices.filter(c => c === null).length;
+  const needsRegenerate = !!draft && choices.some((c, i) => c !== null && c !== draft.ambiguities[i].assumed);
+  const canApply = !!draft && unanswered === 0 && !needsRegenerate && !isTranslating;
+  const examplesFailed = exampleChecks?.filter(c => !c.passed).length ?? 0;
+
+  const handleExport = () => {
+    if (!draft || !ruleId) return;
+    const link = document.createElement("a");
+    link.setAttribute("href", "data:application/json;charset=utf-8," + encodeURIComponent(JSON.stringify(draftToRuleDefinition({ ...draft, card }, ruleId), null, 2)));
+    link.setAttribute("download", `rule_${ruleId}.json`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-white flex flex-col">
+      <div className="px-4 py-2 border-b border-slate-200 flex items-center justify-between bg-slate-50 shrink-0">
+        <h3 className="font-bold text-slate-700 text-sm flex items-center">
+          <ScrollText className="w-4 h-4 text-indigo-600 mr-2" />
+          规则文档转公式 (Rule Document)
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Left: pasted document */}
+        <div className="w-2/5 border-r border-slate-200 flex flex-col p-3 space-y-2">
+          <textarea
+            value={documentText}
+            onChange={e => setDocumentText(e.target.value)}
+            placeholder={'粘贴考核细则中关于预测准确率的章节 (可包含公式，如 $C_R = 1 - \\sqrt{\\frac{1}{n}\\sum ...}$)'}
+            className="flex-1 w-full border border-slate-300 rounded p-2 text-xs font-mono resize-none focus:outline-none focus:border-indigo-500"
+          />
+          <button
+            onClick={() => translate(false)}
+            disabled={isTranslating || !documentText.trim()}
+            className="flex items-center justify-center bg-indigo-600 hover:bg-indigo-700 text-white text-xs px-4 py-2 rounded disabled:opacity-50"
+          >
+            {isTranslating ? <Loader2 className="w-3 h-3 animate-spin mr-1" /> : <Wand2 className="w-3 h-3 mr-1" />}
+            {draft ? '重新解析 (忽略已选答案)' : '解析规则'}
+          </button>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        {/* Right: draft */}
+        <div className="flex-1 overflow-auto p-3 space-y-4 text-xs">
+          {!draft ? (
+            <p className="text-slate-400 mt-8 text-center">
+              AI 将提取参数 (死区、容量比例、分段阈值)，生成单行逻辑与聚合方式，并列出需要您确认的歧义。
+            </p>
+          ) : (
+            <>
+              {/* Formula card */}
+              <div className="border border-indigo-100 bg-indigo-50/40 rounded p-3 space-y-1">
+                <input
+                  value={card.name}
+                  onChange={e => setCard({ ...card, name: e.target.value })}
+                  className="w-full bg-transparent font-bold text-slate-800 text-sm focus:outline-none"
+                />
+                <textarea
+                  value={card.desc}
+                  onChange={e => setCard({ ...card, desc: e.target.value })}
+                  rows={2}
+                  className="w-full bg-transparent text-slate-600 resize-none focus:outline-none"
+                />
+                <input
+                  value={card.formula}
+                  onChange={e => setCard({ ...card, formula: e.target.value })}
+                  className="w-full bg-white border border-slate-200 rounded px-2 py-1 font-mono text-slate-700 focus:outline-none"
+                />
+              </div>
+
+              {/* Ambiguities */}
+              {draft.ambiguities.length > 0 && (
+                <div className="border border-amber-200 bg-amber-50 rounded p-3 space-y-3">
+                  <div className="font-semibold text-amber-800 flex items-center">
+                    <AlertTriangle className="w-3.5 h-3.5 mr-1" />
+                    需要确认的歧义 ({draft.ambiguities.length - unanswered}/{draft.ambiguities.length} 已确认)
+                  </div>
+                  {draft.ambiguities.map((a, i) => (
+                    <div key={i}>
+                      <p className="text-slate-800">{i + 1}. {a.question}</p>
+                      {a.source && <p className="text-slate-500 italic mt-0.5">原文：“{a.source}”</p>}
+                      <div className="mt-1 space-y-0.5">
+                        {a.options.map((option, j) => (
+                          <label key={j} className="flex items-center text-slate-700">
+                            <input
+                              type="radio"
+                              checked={choices[i] === j}
+                              onChange={() => setChoices(choices.map((c, k) => k === i ? j : c))}
+                              className="mr-1.5"
+                            />
+                            {option}
+                            {j === a.assumed && <span className="ml-1 text-[10px] text-slate-400">(当前代码按此生成)</span>}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  {needsRegenerate && (
+                    <button
+                      onClick={() => translate(true)}
+                      disabled={isTranslating || unanswered > 0}
+                      className="flex items-center text-xs px-3 py-1 bg-amber-600 hover:bg-amber-700 text-white rounded disabled:opacity-50"
+                    >
+                      <RefreshCw className="w-3 h-3 mr-1" />
+                      按所选答案重新生成
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {resolutions.length > 0 && (
+                <div className="text-slate-500">
+                  已按您的答案生成：
+                  <ul className="list-disc pl-5">{resolutions.map((r, i) => <li key={i}>{r.question} → {r.answer}</li>)}</ul>
+                </div>
+              )}
+
+              {/* Parameters */}
+              {draft.parameters.length > 0 && (
+                <table className="w-full border border-slate-200 rounded">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      <th className="px-2 py-1 text-left">参数</th>
+                      <th className="px-2 py-1 text-left">取值</th>
+                      <th className="px-2 py-1 text-left">原文</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {draft.parameters.map((p, i) => (
+                      <tr key={i}>
+                        <td className="px-2 py-1 text-slate-700">{p.name}</td>
+                        <td className="px-2 py-1 font-mono text-slate-800">{p.value}</td>
+                        <td className="px-2 py-1 text-slate-500 italic">{p.source}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <p className="text-slate-600">
+                死区阈值：{draft.threshold === null ? '无死区' : `${(draft.threshold * 100).toFixed(2)}% 装机容量`}
+                {sampleDay && draft.threshold !== null && Math.abs(draft.threshold - sampleDay.threshold) > 1e-9 && (
+                  <span className="text-amber-700">
+                    {' '}(当前参数为 {(sampleDay.threshold * 100).toFixed(2)}%
+                    {onApplyThreshold ? (
+                      <>
+                        ，
+                        <button onClick={() => onApplyThreshold(draft.threshold!)} className="underline hover:text-amber-900">
+                          改用 {(draft.threshold * 100).toFixed(2)}%
+                        </button>
+                        )
+                      </>
+                    ) : '，请在参数设置中调整)'}
+                  </span>
+                )}
+              </p>
+
+              {/* Code */}
+              <div>
+                <div className="text-slate-500 mb-1">单行逻辑</div>
+                <pre className="bg-[#1e1e1e] text-slate-200 rounded p-2 font-mono whitespace-pre overflow-x-auto">{draft.rowLogic}</pre>
+                <div className="text-slate-500 mt-2 mb-1">聚合方式：{AGG_METHOD_LABELS[draft.aggMethod]}</div>
+                {draft.aggCode && (
+                  <pre className="bg-[#1e1e1e] text-slate-200 rounded p-2 font-mono whitespace-pre overflow-x-auto">{draft.aggCode}</pre>
+                )}
+              </div>
+
+              {/* Validation */}
+              <div className="space-y-1">
+                {sampleDay && (
+                  sampleProblems === null ? (
+                    <p className="text-slate-400 flex items-center"><Loader2 className="w-3 h-3 mr-1 animate-spin" />样本日校验中...</p>
+                  ) : sampleProblems.length === 0 ? (
+                    <p className="text-green-700 flex items-center"><CheckCircle2 className="w-3 h-3 mr-1" />样本日 {sampleDay.real.length} 行全部计算成功</p>
+                  ) : (
+                    <div className="text-red-600">
+                      <p className="flex items-center"><XCircle className="w-3 h-3 mr-1" />样本日计算存在问题：</p>
+                      <ul className="list-disc pl-6">{sampleProblems.map((p, i) => <li key={i}>{p}</li>)}</ul>
+                    </div>
+                  )
+                )}
+                {draft.examples.length === 0 ? (
+                  <div className="flex items-start p-2 border border-amber-200 bg-amber-50 rounded text-amber-800">
+                    <AlertTriangle className="w-3.5 h-3.5 mr-1 mt-0.5 flex-shrink-0" />
+                    <span>
+                      文档中未找到带数值的算例，准确率<strong>未经校验</strong>。样本日校验只能发现代码报错，
+                      发现不了单行逻辑与聚合方式不匹配 (如 rmse 需要平方误差) 导致的错误结果。请补充一个算例后重新解析，或应用后手工核对。
+                    </span>
+                  </div>
+                ) : exampleChecks === null ? (
+                  <p className="text-slate-400 flex items-center"><Loader2 className="w-3 h-3 mr-1 animate-spin" />文档算例校验中...</p>
+                ) : (
+                  exampleChecks.map((c, i) => (
+                    <p key={i} className={`flex items-center ${c.passed ? 'text-green-700' : 'text-red-600'}`}>
+                      {c.passed ? <CheckCircle2 className="w-3 h-3 mr-1" /> : <XCircle className="w-3 h-3 mr-1" />}
+                      文档算例 {i + 1}：预期 {(c.expected * 100).toFixed(2)}%，
+                      {c.actual === null ? `执行失败 ${c.error ?? ''}` : `实际 ${(c.actual * 100).toFixed(2)}%`}
+                    </p>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {draft && (
+        <div className="px-4 py-2 border-t border-slate-200 bg-slate-50 flex items-center justify-between shrink-0 text-xs">
+          <div className="flex items-center space-x-2">
+            <input
+              value={ruleId}
+              onChange={e => setRuleId(e.target.value.replace(/[^A-Za-z0-9_-]/g, ''))}
+              placeholder="规则 id，如 Yunnan"
+              className="w-32 border border-slate-300 rounded px-2 py-1 font-mono"
+            />
+            <button
+              onClick={handleExport}
+              disabled={!ruleId || !canApply}
+              className="flex items-center px-3 py-1 border border-slate-300 rounded text-slate-600 hover:bg-white disabled:opacity-50"
+              title="导出后可在“区域规则库”中导入；导入时需要至少一个算例"
+            >
+              <Download className="w-3 h-3 mr-1" />
+              导出规则定义
+            </button>
+          </div>
+          <div className="flex items-center space-x-2">
+            {!canApply && unanswered > 0 && <span className="text-amber-700">还有 {unanswered} 个歧义未确认</span>}
+            {!canApply && unanswered === 0 && needsRegenerate && <span className="text-amber-700">所选答案与当前代码不一致，请重新生成</span>}
+            {canApply && examplesFailed > 0 && <span className="text-red-600">{examplesFailed} 个文档算例不通过</span>}
+            {canApply && draft.examples.length === 0 && <span className="text-amber-700">无文档算例，准确率未经校验</span>}
+            <button
+              onClick={() => onApply({ ...draft, card })}
+              disabled={!canApply}
+              className="flex items-center px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded disabled:opacity-50"
+            >
+              <Check className="w-3 h-3 mr-1" />
+              应用到编辑器{draft.examples.length > 0 ? ' (算例加入回归用例)' : ''}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RuleDocumentPanel;
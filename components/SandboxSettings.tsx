@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ShieldCheck, X } from 'lucide-react';
+import { SandboxLimits, DEFAULT_SANDBOX_LIMITS, getSandboxLimits, saveSandboxLimits } from '../services/pythonEngine';
+
+/**
+ * Popover for the Python sandbox limits applied to every formula run (preview, test run and full calculation).
+ */
+const SandboxSettings: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [limits, setLimits] = useState<SandboxLimits>(getSandboxLimits);
+  // Module list is edited as free text and parsed on blur, so commas can be typed
+  const [modulesText, setModulesText] = useState(() => limits.blockedModules.join(', '));
+
+  const update = (patch: Partial<SandboxLimits>) => {
+    const next = { ...limits, ...patch };
+    setLimits(next);
+    saveSandboxLimits(next);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center text-xs px-2 py-1 border border-slate-200 rounded text-slate-600 hover:bg-slate-50"
+        title="Python 沙箱限制 (Sandbox)"
+      >
+        <ShieldCheck className="w-3.5 h-3.5 mr-1 text-slate-500" />
+        {limits.timeoutMs / 1000}s
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-40 w-72 bg-white rounded-lg shadow-lg border border-slate-200 p-3 text-xs space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-slate-700">Python 沙箱限制</span>
+            <button onClick={() => setOpen(false)} className="text-slate-400 hover:text-slate-700">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <label className="flex items-center justify-between text-slate-600">
+            超时 (秒，批量计算按单日计)
+            <input
+              type="number"
+              min="1"
+              value={limits.timeoutMs / 1000}
+              onChange={e => update({ timeoutMs: Math.max(1, Number(e.target.value)) * 1000 })}
+              className="w-16 border border-slate-300 rounded px-1 py-0.5 text-right"
+            />
+          </label>
+          <label className="flex items-center justify-between text-slate-600">
+            内存峰值上限 (MB，0 为不限)
+            <input
+              type="number"
+              min="0"
+              value={limits.maxMemoryMb}
+              onChange={e => update({ maxMemoryMb: Math.max(0, Number(e.target.value)) })}
+              className="w-16 border border-slate-300 rounded px-1 py-0.5 text-right"
+            />
+          </label>
+          <label className="block text-slate-600">
+            禁止导入的模块 (逗号分隔)
+            <input
+              value={modulesText}
+              onChange={e => setModulesText(e.target.value)}
+              onBlur={() => update({ blockedModules: modulesText.split(',').map(m => m.trim()).filter(Boolean) })}
+              className="mt-1 w-full border border-slate-300 rounded px-1 py-0.5 font-mono"
+            />
+          </label>
+          <p className="text-slate-400">超时后 Python 引擎会被终止并重新加载。每次运行使用独立命名空间。</p>
+          <p className="text-slate-400">内存峰值在每日 / 每行运行结束后检查，超限即报错，运行中的失控分配由超时终止。开启后计算会明显变慢。</p>
+          <button onClick={() => { update(DEFAULT_SANDBOX_LIMITS); setModulesText(DEFAULT_SANDBOX_LIMITS.blockedModules.join(', ')); }} className="text-blue-600 hover:underline">恢复默认</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SandboxSettings;
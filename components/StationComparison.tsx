@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Trophy, TrendingUp, AlertCircle } from 'lucide-react';
+import { StationResult } from '../types';
+import { getRegionRule } from '../services/regionRules';
+
+interface StationComparisonProps {
+  results: StationResult[];
+}
+
+const LINE_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4', '#EC4899', '#84CC16', '#F97316', '#64748B'];
+
+const StationComparison: React.FC<StationComparisonProps> = ({ results }) => {
+  // Best station first; stations that failed to compute sink to the bottom
+  const ranked = useMemo(() => {
+    return [...results].sort((a, b) => (b.stats?.meanAccuracy ?? -1) - (a.stats?.meanAccuracy ?? -1));
+  }, [results]);
+
+  // One row per date with a column per station, so every station is a line on a shared axis
+  const trendData = useMemo(() => {
+    const byDate: Record<string, Record<string, number | string>> = {};
+    results.forEach(r => {
+      r.daily.forEach(d => {
+        if (!byDate[d.date]) byDate[d.date] = { date: d.date, shortDate: d.date.substring(5) };
+        byDate[d.date][r.stationId] = parseFloat((d.accuracy * 100).toFixed(2));
+      });
+    });
+    return Object.keys(byDate).sort().map(date => byDate[date]);
+  }, [results]);
+
+  const plotted = ranked.filter(r => r.daily.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow border border-slate-200">
+        <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center">
+          <Trophy className="w-5 h-5 text-amber-500 mr-2" />
+          <h3 className="font-bold text-slate-800">场站准确率排名 (Ranking)</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+              <tr>
+                <th className="px-4 py-3">排名</th>
+                <th className="px-4 py-3">场站</th>
+                <th className="px-4 py-3">区域</th>
+                <th className="px-4 py-3 text-right">容量 (MW)</th>
+                <th className="px-4 py-3 text-right">天数</th>
+                <th className="px-4 py-3 text-right">平均准确率</th>
+                <th className="px-4 py-3 text-right">最低准确率</th>
+                <th className="px-4 py-3 text-right" title="按各场站所属区域的合格线统计">合格率 (区域合格线)</th>
+                <th className="px-4 py-3 text-right">平均 RMSE</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {ranked.map((r, idx) => (
+                <tr key={r.stationId} className="hover:bg-slate-50">
+                  <td className="px-4 py-3 font-mono text-slate-500">{r.stats ? idx + 1 : '-'}</td>
+                  <td className="px-4 py-3 font-semibold text-slate-800">{r.name}</td>
+                  <td className="px-4 py-3 text-slate-600">{getRegionRule(r.region).name}</td>
+                  <td className="px-4 py-3 text-right font-mono">{r.cap}</td>
+                  {r.stats ? (
+                    <>
+                      <td className="px-4 py-3 text-right font-mono">{r.daily.length}</td>
+                      <td className={`px-4 py-3 text-right font-mono font-bold ${
+                        r.stats.meanAccuracy >= 0.8 ? 'text-green-600' : r.stats.meanAccuracy >= 0.6 ? 'text-yellow-600' : 'text-red-600'
+                      }`}>
+                        {(r.stats.meanAccuracy * 100).toFixed(2)}%
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono">{(r.stats.minAccuracy * 100).toFixed(2)}%</td>
+                      <td className="px-4 py-3 text-right font-mono">
+                        {(r.passRate * 100).toFixed(1)}%
+                        <span className="ml-1 text-xs text-slate-400">(≥{(r.passLine * 100).toFixed(0)}%)</span>
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono">{r.meanRmse.toFixed(3)}</td>
+                    </>
+                  ) : (
+                    <td colSpan={5} className="px-4 py-3 text-red-600 text-xs">
+                      <span className="flex items-center justify-end">
+                        <AlertCircle className="w-3 h-3 mr-1" />
+                        {r.error || '计算失败'}
+                      </span>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-4 flex items-center">
+          <TrendingUp className="w-5 h-5 text-blue-500 mr-2" />
+          多场站日准确率趋势 (Daily Accuracy by Station)
+        </h3>
+        <div className="h-96">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={trendData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#E2E8F0" />
+              <XAxis dataKey="shortDate" stroke="#64748B" fontSize={12} minTickGap={30} />
+              <YAxis domain={[0, 100]} stroke="#64748B" fontSize={12} unit="%" />
+              <Tooltip contentStyle={{ borderRadius: '8px' }} />
+              <Legend />
+              {plotted.map((r, idx) => (
+                <Line
+                  key={r.stationId}
+                  type="monotone"
+                  dataKey={r.stationId}
+                  name={r.name}
+                  stroke={LINE_COLORS[idx % LINE_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StationComparison;
@@ -0,0 +1,261 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2, Loader2, Play, Building2, AlertCircle } from 'lucide-react';
+import { StationConfig, Region, RegionRule, GapPolicy, GapFillMethod } from '../types';
+import { parseDataFile } from '../services/dataParser';
+import { createStation } from '../services/stationBatch';
+import { getRegionRule } from '../services/regionRules';
+
+interface StationWorkspaceProps {
+  stations: StationConfig[];
+  setStations: React.Dispatch<React.SetStateAction<StationConfig[]>>;
+  gapPolicy: GapPolicy;
+  setGapPolicy: React.Dispatch<React.SetStateAction<GapPolicy>>;
+  onRun: () => void;
+  isRunning: boolean;
+  rules: RegionRule[]; // Built-in and imported region rules
+}
+
+const StationWorkspace: React.FC<StationWorkspaceProps> = ({ stations, setStations, gapPolicy, setGapPolicy, onRun, isRunning, rules }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [defaultRegion, setDefaultRegion] = useState<Region>('Shanxi');
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    if (files.length === 0) return;
+
+    setLoading(true);
+    const failed: string[] = [];
+    const added: StationConfig[] = [];
+    try {
+      for (const file of files) {
+        try {
+          const parsed = await parseDataFile(file);
+          if (parsed.data.length === 0) throw new Error("文件中没有可用的数据行");
+          added.push(createStation(parsed, file.name, defaultRegion));
+        } catch (err: any) {
+          console.error(err);
+          failed.push(`${file.name}: ${err.message}`);
+        }
+      }
+      setStations(prev => [...prev, ...added]);
+      setErrors(failed);
+    } finally {
+      setLoading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const updateStation = (id: string, patch: Partial<StationConfig>) => {
+    setStations(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  const toggleForeCol = (station: StationConfig, col: string) => {
+    const foreCols = station.foreCols.includes(col)
+      ? station.foreCols.filter(c => c !== col)
+      : [...station.foreCols, col];
+    updateStation(station.id, { foreCols });
+  };
+
+  const canRun = stations.length > 0 && stations.every(s => s.realCol && s.foreCols.length > 0 && s.cap > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow border border-slate-200">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <Building2 className="w-5 h-5 mr-2 text-blue-500" />
+            场站列表 (Stations)
+            <span className="ml-2 text-xs font-normal text-slate-500">{stations.length} 个场站</span>
+          </h2>
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-slate-500">新增场站默认区域</label>
+            <select
+              value={defaultRegion}
+              onChange={e => setDefaultRegion(e.target.value as Region)}
+              className="border-slate-300 rounded-md shadow-sm p-1.5 border text-sm"
+            >
+              {rules.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 transition"
+            >
+              {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              添加场站文件
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".csv,.txt,.tsv,.xlsx"
+              className="hidden"
+              onChange={handleFiles}
+            />
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-100 rounded text-xs text-red-700 space-y-1">
+            {errors.map(msg => (
+              <div key={msg} className="flex items-start">
+                <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                {msg}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {stations.length === 0 ? (
+          <div className="p-10 text-center text-sm text-slate-500 border-2 border-dashed border-slate-200 rounded-lg">
+            可一次选择多个文件，每个文件作为一个场站。导入后可分别设置名称、区域、装机容量与列映射。
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2">场站名称</th>
+                  <th className="px-3 py-2">区域</th>
+                  <th className="px-3 py-2">装机容量 (MW)</th>
+                  <th className="px-3 py-2">考核阈值</th>
+                  <th className="px-3 py-2">实测列</th>
+                  <th className="px-3 py-2">预测列</th>
+                  <th className="px-3 py-2 text-right">记录数</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {stations.map(station => (
+                  <tr key={station.id} className="align-top">
+                    <td className="px-3 py-2">
+                      <input
+                        value={station.name}
+                        onChange={e => updateStation(station.id, { name: e.target.value })}
+                        className="w-40 border-slate-300 rounded p-1 border"
+                      />
+                      <div className="text-[11px] text-slate-400 mt-1 truncate w-40" title={station.fileName}>{station.fileName}</div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={station.region}
+                        onChange={e => {
+                          const region = e.target.value as Region;
+                          updateStation(station.id, { region, threshold: getRegionRule(region).params.threshold });
+                        }}
+                        className="border-slate-300 rounded p-1 border"
+                      >
+                        {rules.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        value={station.cap}
+                        onChange={e => updateStation(station.id, { cap: Number(e.target.value) })}
+                        className="w-24 border-slate-300 rounded p-1 border"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number" step="0.01" min="0" max="1"
+                        value={station.threshold}
+                        onChange={e => updateStation(station.id, { threshold: Number(e.target.value) })}
+                        className="w-20 border-slate-300 rounded p-1 border"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={station.realCol}
+                        onChange={e => updateStation(station.id, { realCol: e.target.value })}
+                        className="border-slate-300 rounded p-1 border max-w-[10rem]"
+                      >
+                        {station.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex flex-wrap gap-1 max-w-xs">
+                        {station.headers.filter(h => h !== station.realCol).map(h => (
+                          <button
+                            key={h}
+                            onClick={() => toggleForeCol(station, h)}
+                            className={`px-2 py-0.5 rounded text-[11px] border transition ${
+                              station.foreCols.includes(h)
+                                ? 'bg-blue-50 text-blue-700 border-blue-200 font-semibold'
+                                : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+                            }`}
+                          >
+                            {h}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono text-slate-600">{station.rows.length}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => setStations(prev => prev.filter(s => s.id !== station.id))}
+                        className="text-slate-400 hover:text-red-600"
+                        title="移除场站"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow border border-slate-200 flex flex-col md:flex-row md:items-end gap-6">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">缺测数据处理 (Gap Policy)</label>
+          <select
+            value={gapPolicy.method}
+            onChange={e => setGapPolicy(prev => ({ ...prev, method: e.target.value as GapFillMethod }))}
+            className="border-slate-300 rounded-md shadow-sm p-2 border focus:ring-blue-500"
+          >
+            <option value="exclude">剔除缺测点 (Exclude)</option>
+            <option value="interpolate">线性插值 (Linear Interpolation)</option>
+            <option value="ffill">前值填充 (Forward Fill)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">整日剔除：完整率低于 (%)</label>
+          <input
+            type="number" min="0" max="100"
+            value={gapPolicy.minCoverage}
+            onChange={e => setGapPolicy(prev => ({ ...prev, minCoverage: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))}
+            className="w-32 border-slate-300 rounded-md shadow-sm p-2 border"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">最长填补缺口 (连续点数)</label>
+          <input
+            type="number" min="0"
+            value={gapPolicy.maxGap}
+            disabled={gapPolicy.method === 'exclude'}
+            onChange={e => setGapPolicy(prev => ({ ...prev, maxGap: Math.max(0, Math.round(Number(e.target.value) || 0)) }))}
+            className="w-32 border-slate-300 rounded-md shadow-sm p-2 border disabled:bg-slate-100 disabled:text-slate-400"
+          />
+        </div>
+        <p className="flex-1 text-xs text-slate-500">
+          各场站按所属区域的内置考核公式计算全部日期，缺测处理规则对所有场站统一生效。
+        </p>
+        <button
+          onClick={onRun}
+          disabled={!canRun || isRunning}
+          className="flex items-center px-8 py-3 bg-green-600 text-white font-bold rounded-lg shadow-lg hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Play className="w-5 h-5 mr-2" />}
+          批量计算全部场站
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StationWorkspace;
@@ -1,43 +1,33 @@
-import React, { useMemo } from 'react';
-import { DailyResult, CalculationStats, MonthlyStats } from '../types';
-import { FileText, TrendingUp, TrendingDown } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DailyResult, CalculationStats, DataPoint, Region } from '../types';
+import { FileText, TrendingUp, TrendingDown, Bot, Loader2, AlertTriangle } from 'lucide-react';
 import { mean } from '../services/mathUtils';
+import { totalPenalty, formatFee } from '../services/penalty';
+import { computeMonthlyStats } from '../services/calculation';
+import { getRegionRule } from '../services/regionRules';
+import { isAiEnabled } from '../services/llmProvider';
+import { ResultInsight, InsightCitation, DEFAULT_INSIGHT_WORST_DAYS, analyseWorstDays, generateResultInsight } from '../services/resultInsights';
 
 interface SummaryReportProps {
   results: DailyResult[];
   stats: CalculationStats;
   startDate: string;
   endDate: string;
+  formulaLabel?: string; // Library formula and version used for the calculation
+  // Inputs of the optional AI analysis
+  points: DataPoint[];
+  region: Region;
+  cap: number;
+  threshold: number;
+  onSelectDay?: (date: string) => void;
 }
 
-const SummaryReport: React.FC<SummaryReportProps> = ({ results, stats, startDate, endDate }) => {
+const SummaryReport: React.FC<SummaryReportProps> = ({ results, stats, startDate, endDate, formulaLabel, points, region, cap, threshold, onSelectDay }) => {
+  // Penalty columns only appear once a penalty model has been applied to the results
+  const hasPenalty = results.some(r => r.penaltyFee !== undefined);
+  const periodPenalty = useMemo(() => totalPenalty(results), [results]);
 
-  const monthlyStats = useMemo(() => {
-    const grouped: Record<string, DailyResult[]> = {};
-    results.forEach(r => {
-      const monthKey = r.date.substring(0, 7); // YYYY-MM
-      if (!grouped[monthKey]) grouped[monthKey] = [];
-      grouped[monthKey].push(r);
-    });
-
-    const report: MonthlyStats[] = Object.keys(grouped).sort().map(m => {
-      const days = grouped[m];
-      const accs = days.map(d => d.accuracy);
-      return {
-        month: m,
-        meanAccuracy: mean(accs),
-        meanRmse: mean(days.map(d => d.rmse)),
-        meanMae: mean(days.map(d => d.mae)),
-        distribution: {
-            high: accs.filter(a => a >= 0.8).length,
-            medium: accs.filter(a => a >= 0.6 && a < 0.8).length,
-            low: accs.filter(a => a < 0.6).length
-        },
-        daysCount: days.length
-      };
-    });
-    return report;
-  }, [results]);
+  const monthlyStats = useMemo(() => computeMonthlyStats(results), [results]);
 
   // Comparative Analysis Logic
   const analysisText = useMemo(() => {
@@ -59,6 +49,51 @@ const SummaryReport: React.FC<SummaryReportProps> = ({ results, stats, startDate
       };
   }, [monthlyStats]);
 
+  // Optional AI write-up; the templated text above stays as the offline fallback
+  const [insight, setInsight] = useState<ResultInsight | null>(null);
+  const [insightError, setInsightError] = useState<string | null>(null);
+  const [isInsightLoading, setIsInsightLoading] = useState(false);
+  // Bumped by every request and every new result set; a reply only lands if its token is still current,
+  // so an analysis of old results (and its day citations) never shows up next to the new ones
+  const insightRequest = useRef(0);
+
+  useEffect(() => {
+      insightRequest.current++;
+      setInsight(null);
+      setInsightError(null);
+      setIsInsightLoading(false);
+  }, [results, points]);
+
+  const handleGenerateInsight = async () => {
+      const token = ++insightRequest.current;
+      setIsInsightLoading(true);
+      setInsightError(null);
+      try {
+          const worstDays = analyseWorstDays(results, points, cap, threshold);
+          const next = await generateResultInsight(stats, monthlyStats, worstDays, getRegionRule(region), cap, threshold);
+          if (token === insightRequest.current) setInsight(next);
+      } catch (err: any) {
+          if (token === insightRequest.current) setInsightError(err.message);
+      } finally {
+          if (token === insightRequest.current) setIsInsightLoading(false);
+      }
+  };
+
+  const renderCitation = (c: InsightCitation) => {
+      const label = c.kind === 'stats' ? '总体统计' : c.kind === 'rule' ? '区域规则' : c.ref;
+      if (!c.known) {
+          return <span key={c.id} className="px-1.5 py-0.5 rounded bg-red-50 text-red-500 line-through" title="引用的数据不在提供给 AI 的证据中">{label}</span>;
+      }
+      if (c.kind === 'day' && onSelectDay) {
+          return (
+              <button key={c.id} onClick={() => onSelectDay(c.ref)} className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 hover:bg-blue-100" title="查看当日明细">
+                  {label}
+              </button>
+          );
+      }
+      return <span key={c.id} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">{label}</span>;
+  };
+
   if (results.length === 0) return null;
 
   return (
@@ -66,6 +101,11 @@ const SummaryReport: React.FC<SummaryReportProps> = ({ results, stats, startDate
       <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center">
         <FileText className="w-5 h-5 text-blue-600 mr-2" />
         <h3 className="text-lg font-bold text-slate-800">分析报告总结 (Summary Report)</h3>
+        {formulaLabel && (
+          <span className="ml-auto text-xs text-slate-500">
+            计算公式：<span className="font-medium text-slate-700">{formulaLabel}</span>
+          </span>
+        )}
       </div>
       
       <div className="p-6 space-y-6">
@@ -86,6 +126,13 @@ const SummaryReport: React.FC<SummaryReportProps> = ({ results, stats, startDate
                     <span className="text-yellow-600 font-medium">中等(60-80%) {stats.distribution.medium} 天</span>，
                     <span className="text-red-600 font-medium">低准确率(&lt;60%) {stats.distribution.low} 天</span>。
                 </p>
+                {hasPenalty && (
+                    <p>
+                        考核测算：共 <strong>{periodPenalty.assessedDays}</strong> 天低于合格线，
+                        考核电量合计 <strong>{periodPenalty.mwh.toFixed(2)} MWh</strong>，
+                        考核费用合计 <strong className="text-red-600">¥{formatFee(periodPenalty.fee)}</strong>。
+                    </p>
+                )}
                 
                 {/* New Monthly Analysis Paragraph */}
                 {analysisText && monthlyStats.length > 1 && (
@@ -114,6 +161,53 @@ const SummaryReport: React.FC<SummaryReportProps> = ({ results, stats, startDate
             </div>
         </div>
 
+        {/* AI Diagnostic (optional) */}
+        {(isAiEnabled() || insight) && (
+            <div>
+                <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-base font-semibold text-slate-700 border-l-4 border-purple-500 pl-2">
+                        AI 诊断分析
+                    </h4>
+                    <button
+                        onClick={handleGenerateInsight}
+                        disabled={isInsightLoading}
+                        className="flex items-center text-xs px-3 py-1 border border-purple-200 text-purple-700 rounded hover:bg-purple-50 disabled:opacity-50"
+                    >
+                        {isInsightLoading ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <Bot className="w-3.5 h-3.5 mr-1" />}
+                        {insight ? '重新生成' : '生成 AI 分析'}
+                    </button>
+                </div>
+                {insightError && (
+                    <p className="text-xs text-red-600 mb-2">{insightError} (以上模板总结不受影响)</p>
+                )}
+                {insight ? (
+                    <ul className="bg-purple-50/40 border border-purple-100 p-4 rounded text-sm text-slate-700 space-y-2">
+                        {insight.claims.map((claim, i) => (
+                            <li key={i} className="flex items-start">
+                                <span className="text-purple-400 mr-2">•</span>
+                                <span className="flex-1">
+                                    {claim.text}
+                                    <span className="ml-2 inline-flex flex-wrap gap-1 text-[11px] align-middle">
+                                        {claim.citations.map(renderCitation)}
+                                        {claim.uncited && (
+                                            <span className="flex items-center px-1.5 py-0.5 rounded bg-amber-50 text-amber-700" title="该结论没有引用任何可核对的数据，请谨慎采信">
+                                                <AlertTriangle className="w-3 h-3 mr-0.5" />
+                                                无出处
+                                            </span>
+                                        )}
+                                    </span>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                ) : !insightError && (
+                    <p className="text-xs text-slate-400">
+                        基于月度统计、准确率最低的 {Math.min(results.length, DEFAULT_INSIGHT_WORST_DAYS)} 天的误差特征 (时段偏差、爬坡漏报、死区表现) 和区域规则生成，每条结论附带出处。
+                    </p>
+                )}
+            </div>
+        )}
+
         {/* Monthly Breakdown Table */}
         <div>
             <h4 className="text-base font-semibold text-slate-700 mb-2 border-l-4 border-indigo-500 pl-2">
@@ -128,6 +222,8 @@ const SummaryReport: React.FC<SummaryReportProps> = ({ results, stats, startDate
                             <th className="px-4 py-2 text-left font-medium text-slate-500">平均准确率</th>
                             <th className="px-4 py-2 text-left font-medium text-slate-500">平均 RMSE</th>
                             <th className="px-4 py-2 text-left font-medium text-slate-500">分布 (高/中/低)</th>
+                            {hasPenalty && <th className="px-4 py-2 text-right font-medium text-slate-500">考核电量 (MWh)</th>}
+                            {hasPenalty && <th className="px-4 py-2 text-right font-medium text-slate-500">考核费用 (元)</th>}
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-200">
@@ -146,8 +242,19 @@ const SummaryReport: React.FC<SummaryReportProps> = ({ results, stats, startDate
                                     <span className="text-yellow-600 font-semibold mx-1">{stat.distribution.medium}</span> / 
                                     <span className="text-red-600 font-semibold">{stat.distribution.low}</span>
                                 </td>
+                                {hasPenalty && <td className="px-4 py-2 text-right font-mono text-slate-600">{(stat.penaltyMwh ?? 0).toFixed(2)}</td>}
+                                {hasPenalty && <td className="px-4 py-2 text-right font-mono text-red-600">{formatFee(stat.penaltyFee ?? 0)}</td>}
                             </tr>
                         ))}
+                        {hasPenalty && (
+                            <tr className="bg-slate-50 font-semibold">
+                                <td className="px-4 py-2 text-slate-700">合计</td>
+                                <td className="px-4 py-2 text-slate-600">{results.length}</td>
+                                <td className="px-4 py-2" colSpan={3}></td>
+                                <td className="px-4 py-2 text-right font-mono text-slate-700">{periodPenalty.mwh.toFixed(2)}</td>
+                                <td className="px-4 py-2 text-right font-mono text-red-600">{formatFee(periodPenalty.fee)}</td>
+                            </tr>
+                        )}
                     </tbody>
                 </table>
             </div>
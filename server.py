@@ -1,8 +1,14 @@
 import os
+import re
+import json
+import urllib.parse
+import urllib.request
+import urllib.error
 import uvicorn
 from fastapi import FastAPI, HTTPException, Query
 from fastapi.middleware.cors import CORSMiddleware
-from typing import List
+from pydantic import BaseModel
+from typing import List, Literal, Optional
 
 app = FastAPI()
 
@@ -25,7 +31,7 @@ async def root():
     """
     健康检查接口
     """
-    return {"status": "ok", "message": "PowerSight Backend is running", "endpoints": ["/api/files", "/api/file-content"]}
+    return {"status": "ok", "message": "PowerSight Backend is running", "endpoints": ["/api/files", "/api/file-content", "/api/llm/status", "/api/llm/generate"]}
 
 @app.get("/api/files", response_model=List[str])
 async def list_files(path: str = Query(..., description="Target directory path")):
@@ -74,6 +80,135 @@ async def get_file_content(path: str, filename: str):
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"读取文件失败: {str(e)}")
 
+# 3. 大模型代理：API Key 只保存在后端环境变量中，前端不接触密钥
+#    GEMINI_API_KEY          Google Gemini 密钥
+#    GEMINI_MODEL            默认 gemini-3-flash-preview
+#    OPENAI_BASE_URL         OpenAI 兼容接口地址，如 http://10.0.0.5:8001/v1 (vLLM) 或 http://localhost:11434/v1 (Ollama)
+#    OPENAI_ALLOWED_ENDPOINTS 额外允许前端选择的接口地址，逗号分隔
+#    OPENAI_API_KEY          OpenAI 兼容接口的密钥 (本地服务通常不需要)
+#    OPENAI_MODEL            OpenAI 兼容接口的默认模型名
+GEMINI_MODEL = os.environ.get("GEMINI_MODEL", "gemini-3-flash-preview")
+OPENAI_MODEL = os.environ.get("OPENAI_MODEL", "")
+LLM_TIMEOUT_SECONDS = 120
+# Gemini 模型名会拼进上游 URL 路径，只允许常见的模型名字符，避免 ../ 或 ?key= 之类改写请求
+GEMINI_MODEL_PATTERN = re.compile(r"[A-Za-z0-9][A-Za-z0-9._-]*")
+
+
+def _openai_endpoints() -> List[str]:
+    """只允许转发到配置过的接口，避免后端被当作任意 HTTP 代理"""
+    raw = [os.environ.get("OPENAI_BASE_URL", "")] + os.environ.get("OPENAI_ALLOWED_ENDPOINTS", "").split(",")
+    endpoints = []
+    for url in raw:
+        url = url.strip().rstrip("/")
+        if url and url not in endpoints:
+            endpoints.append(url)
+    return endpoints
+
+
+class LlmMessage(BaseModel):
+    role: Literal["user", "assistant"]
+    content: str
+
+
+class LlmRequest(BaseModel):
+    provider: Literal["gemini", "openai"]
+    model: Optional[str] = None
+    endpoint: Optional[str] = None
+    system: str = ""
+    messages: List[LlmMessage]
+    temperature: float = 0.2
+
+
+def _post_json(url: str, payload: dict, headers: dict) -> dict:
+    req = urllib.request.Request(
+        url,
+        data=json.dumps(payload).encode("utf-8"),
+        headers={"Content-Type": "application/json", **headers},
+        method="POST",
+    )
+    try:
+        with urllib.request.urlopen(req, timeout=LLM_TIMEOUT_SECONDS) as resp:
+            return json.loads(resp.read().decode("utf-8"))
+    except urllib.error.HTTPError as e:
+        body = e.read().decode("utf-8", errors="replace")[:500]
+        raise HTTPException(status_code=502, detail=f"模型服务返回 {e.code}: {body}")
+    except (urllib.error.URLError, TimeoutError) as e:
+        raise HTTPException(status_code=502, detail=f"无法连接模型服务: {e}")
+
+
+def _call_gemini(req: LlmRequest) -> str:
+    api_key = os.environ.get("GEMINI_API_KEY")
+    if not api_key:
+        raise HTTPException(status_code=400, detail="后端未配置 GEMINI_API_KEY")
+    model = req.model or GEMINI_MODEL
+    if not GEMINI_MODEL_PATTERN.fullmatch(model):
+        raise HTTPException(status_code=400, detail=f"Gemini 模型名无效: {model}")
+    payload = {
+        "contents": [
+            {"role": "model" if m.role == "assistant" else "user", "parts": [{"text": m.content}]}
+            for m in req.messages
+        ],
+        "generationConfig": {"temperature": req.temperature},
+    }
+    if req.system:
+        payload["systemInstruction"] = {"parts": [{"text": req.system}]}
+    data = _post_json(
+        f"https://generativelanguage.googleapis.com/v1beta/models/{urllib.parse.quote(model, safe='')}:generateContent",
+        payload,
+        {"x-goog-api-key": api_key},
+    )
+    try:
+        parts = data["candidates"][0]["content"]["parts"]
+    except (KeyError, IndexError):
+        raise HTTPException(status_code=502, detail="Gemini 未返回内容")
+    return "".join(p.get("text", "") for p in parts)
+
+
+def _call_openai(req: LlmRequest) -> str:
+    endpoints = _openai_endpoints()
+    if not endpoints:
+        raise HTTPException(status_code=400, detail="后端未配置 OPENAI_BASE_URL")
+    endpoint = (req.endpoint or endpoints[0]).rstrip("/")
+    if endpoint not in endpoints:
+        raise HTTPException(status_code=403, detail=f"接口地址未在后端允许列表中: {endpoint}")
+    model = req.model or OPENAI_MODEL
+    if not model:
+        raise HTTPException(status_code=400, detail="请在 AI 设置中填写模型名称，或在后端设置 OPENAI_MODEL")
+
+    messages = ([{"role": "system", "content": req.system}] if req.system else []) + [
+        {"role": m.role, "content": m.content} for m in req.messages
+    ]
+    api_key = os.environ.get("OPENAI_API_KEY")
+    data = _post_json(
+        f"{endpoint}/chat/completions",
+        {"model": model, "messages": messages, "temperature": req.temperature},
+        {"Authorization": f"Bearer {api_key}"} if api_key else {},
+    )
+    try:
+        return data["choices"][0]["message"]["content"] or ""
+    except (KeyError, IndexError):
+        raise HTTPException(status_code=502, detail="模型服务未返回内容")
+
+
+@app.get("/api/llm/status")
+async def llm_status():
+    """
+    返回后端已配置的大模型服务 (不含密钥)
+    """
+    return {
+        "gemini": {"configured": bool(os.environ.get("GEMINI_API_KEY")), "defaultModel": GEMINI_MODEL},
+        "openai": {"endpoints": _openai_endpoints(), "defaultModel": OPENAI_MODEL},
+    }
+
+
+@app.post("/api/llm/generate")
+def llm_generate(req: LlmRequest):
+    """
+    转发一次对话请求到所选的大模型服务，返回回复文本
+    """
+    text = _call_gemini(req) if req.provider == "gemini" else _call_openai(req)
+    return {"text": text}
+
 # 启动入口
 if __name__ == "__main__":
     # host="0.0.0.0" 允许外部访问
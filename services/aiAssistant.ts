@@ -0,0 +1,96 @@
+import { generateFormulaWithAI, runRowPreview } from './formulas';
+import { getPythonErrorInfo, formatPythonError } from './pythonEngine';
+
+// --- AI Formula Assistant: generate, validate on sample data, repair ---
+// Generated row logic is only offered to the user after it has been run on the sample rows;
+// failing rows are fed back to the model for up to `maxRepairs` further attempts.
+
+export interface AiSample {
+  real: number[];
+  fore: number[];
+  foreRaw: number[][];
+  cap: number;
+  threshold: number;
+}
+
+export interface AiRound {
+  round: number; // 1 = first generation, then one per repair
+  code: string;
+  problems: string[]; // Empty when every sample row produced a number
+}
+
+export interface AiAssistantResult {
+  code: string; // Last attempt, valid or not
+  valid: boolean;
+  rounds: AiRound[];
+}
+
+export const DEFAULT_AI_REPAIR_ROUNDS = 2;
+
+// Rows listed back to the model per attempt; the rest are summarised
+const MAX_REPORTED_ROWS = 5;
+
+/**
+ * Runs row logic on the sample and describes every row that did not produce a finite number.
+ */
+export const validateRowLogic = async (code: string, sample: AiSample): Promise<string[]> => {
+  if (!/\bresult\s*=/.test(code)) return ['代码没有给 result 赋值'];
+
+  let preview;
+  try {
+    preview = await runRowPreview(code, {
+      real: sample.real,
+      fore: sample.fore,
+      fore_list: sample.foreRaw,
+      cap: sample.cap,
+      threshold: sample.threshold
+    });
+  } catch (err: any) {
+    const info = getPythonErrorInfo(err);
+    return [info ? formatPythonError(info) : err.message];
+  }
+
+  const failing = preview.values
+    .map((value, i) => ({ value, i, error: preview.errors[i] }))
+    .filter(r => typeof r.value !== 'number' || !Number.isFinite(r.value));
+
+  const problems = failing.slice(0, MAX_REPORTED_ROWS).map(({ value, i, error }) => {
+    const inputs = `real=${sample.real[i]}, fore=${sample.fore[i]}, fore_list=${JSON.stringify(sample.foreRaw[i] ?? [])}`;
+    const what = error ? formatPythonError(error) : value === 'No Result' ? 'result 未赋值 (No Result)' : `result 不是有限数值 (${value})`;
+    return `第 ${i + 1} 行 (${inputs}): ${what}`;
+  });
+  if (failing.length > MAX_REPORTED_ROWS) problems.push(`另有 ${failing.length - MAX_REPORTED_ROWS} 行存在同类问题`);
+  return problems;
+};
+
+const buildRepairFeedback = (problems: string[], sample: AiSample) => `Your code was run on ${sample.real.length} sample rows (cap=${sample.cap}, threshold=${sample.threshold}) and failed:
+${problems.map(p => `- ${p}`).join('\n')}
+
+Fix the code so that every row assigns a finite float to \`result\`. Output ONLY the corrected Python code.`;
+
+/**
+ * Generates row logic from a description and repairs it against the sample until it runs cleanly.
+ * `onRound` reports each attempt as soon as it has been validated.
+ */
+export const generateValidatedFormula = async (
+  prompt: string,
+  region: string,
+  sample: AiSample,
+  options: { maxRepairs?: number; onRound?: (round: AiRound) => void } = {}
+): Promise<AiAssistantResult> => {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_AI_REPAIR_ROUNDS;
+  const rounds: AiRound[] = [];
+
+  let code = await generateFormulaWithAI(prompt, region);
+  for (let round = 1; ; round++) {
+    const problems = await validateRowLogic(code, sample);
+    const attempt = { round, code, problems };
+    rounds.push(attempt);
+    options.onRound?.(attempt);
+
+    if (problems.length === 0) return { code, valid: true, rounds };
+    if (round > maxRepairs) return { code, valid: false, rounds };
+
+    code = await generateFormulaWithAI(prompt, region, { code, feedback: buildRepairFeedback(problems, sample) });
+  }
+};
@@ -0,0 +1,107 @@
+import { DataPoint, DailyResult, CalculationStats, MonthlyStats } from '../types';
+import { BatchDayInput } from './workerProtocol';
+import { executeNativeFormula } from './nativeFormulas';
+import { mean, rmse, mae } from './mathUtils';
+import { toLocalDate } from './dataPrep';
+import { totalPenalty } from './penalty';
+import { getRegionRule } from './regionRules';
+
+// --- Shared Daily Calculation Pipeline (single station view and multi-station workspace) ---
+
+/**
+ * Groups points by local date into the per-day arrays every formula engine consumes.
+ */
+export const groupIntoDays = (points: DataPoint[]): BatchDayInput[] => {
+  const grouped: Record<string, DataPoint[]> = {};
+  points.forEach(pt => {
+    const dateKey = toLocalDate(pt.timestamp);
+    if (!grouped[dateKey]) grouped[dateKey] = [];
+    grouped[dateKey].push(pt);
+  });
+
+  return Object.keys(grouped).sort().map(date => ({
+    date,
+    real: grouped[date].map(d => d.real),
+    fore: grouped[date].map(d => d.forecast), // Average forecast
+    foreRaw: grouped[date].map(d => d.forecasts) // Matrix forecast
+  }));
+};
+
+export const toDailyResult = (day: BatchDayInput, accuracy: number, coverage: number = 1): DailyResult => ({
+  date: day.date,
+  accuracy,
+  mae: mae(day.real, day.fore),
+  rmse: rmse(day.real, day.fore),
+  avgReal: mean(day.real),
+  avgFore: mean(day.fore),
+  coverage
+});
+
+/**
+ * Evaluates every day with the built-in rule for the region (no Pyodide).
+ */
+export const computeNativeDailyResults = (
+  days: BatchDayInput[],
+  region: string,
+  cap: number,
+  threshold: number,
+  coverageByDate: Record<string, number> = {}
+): DailyResult[] => {
+  const rule = getRegionRule(region);
+  return days.map(day => toDailyResult(
+    day,
+    executeNativeFormula(rule, day.real, day.fore, cap, threshold, day.foreRaw),
+    coverageByDate[day.date] ?? 1
+  ));
+};
+
+export const computeStats = (dailyResults: DailyResult[]): CalculationStats | null => {
+  const accuracies = dailyResults.map(r => r.accuracy);
+  if (accuracies.length === 0) return null;
+
+  const meanAcc = mean(accuracies);
+  return {
+    meanAccuracy: meanAcc,
+    maxAccuracy: Math.max(...accuracies),
+    minAccuracy: Math.min(...accuracies),
+    stdDev: Math.sqrt(mean(accuracies.map(a => Math.pow(a - meanAcc, 2)))),
+    distribution: {
+      high: accuracies.filter(a => a >= 0.8).length,
+      medium: accuracies.filter(a => a >= 0.6 && a < 0.8).length,
+      low: accuracies.filter(a => a < 0.6).length
+    }
+  };
+};
+
+/**
+ * Per-month statistics, in month order. Penalty totals are included once a penalty model has been applied,
+ * so the summary report, the results table and the CSV export all show the same monthly figures.
+ */
+export const computeMonthlyStats = (dailyResults: DailyResult[]): MonthlyStats[] => {
+  const hasPenalty = dailyResults.some(r => r.penaltyFee !== undefined);
+  const grouped: Record<string, DailyResult[]> = {};
+  dailyResults.forEach(r => {
+    const monthKey = r.date.substring(0, 7); // YYYY-MM
+    if (!grouped[monthKey]) grouped[monthKey] = [];
+    grouped[monthKey].push(r);
+  });
+
+  return Object.keys(grouped).sort().map(m => {
+    const days = grouped[m];
+    const accs = days.map(d => d.accuracy);
+    const penalty = totalPenalty(days);
+    return {
+      month: m,
+      meanAccuracy: mean(accs),
+      meanRmse: mean(days.map(d => d.rmse)),
+      meanMae: mean(days.map(d => d.mae)),
+      distribution: {
+        high: accs.filter(a => a >= 0.8).length,
+        medium: accs.filter(a => a >= 0.6 && a < 0.8).length,
+        low: accs.filter(a => a < 0.6).length
+      },
+      daysCount: days.length,
+      ...(hasPenalty ? { penaltyMwh: penalty.mwh, penaltyFee: penalty.fee } : {})
+    };
+  });
+};
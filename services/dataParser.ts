@@ -0,0 +1,406 @@
+import { RawRow } from '../types';
+
+// --- Station Data File Parsing (CSV / TSV / XLSX) ---
+// Handles quoted fields, CRLF, alternate delimiters, BOMs, GBK exports and
+// Excel workbooks. Rows that cannot be used are reported instead of dropped silently.
+
+export interface SkippedRow {
+  row: number; // 1-based row number in the source file (header is row 1)
+  reason: string;
+}
+
+export interface ParseResult {
+  data: RawRow[];
+  headers: string[];
+  skipped: SkippedRow[];
+  format: 'csv' | 'xlsx';
+  delimiter?: string;
+  encoding?: string;
+}
+
+// Everything about an import except the rows themselves, kept for display after upload
+export interface ParseReport {
+  fileName: string;
+  rowCount: number;
+  skipped: SkippedRow[];
+  format: 'csv' | 'xlsx';
+  delimiter?: string;
+  encoding?: string;
+}
+
+type Cell = string | number | null;
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+// --- Encoding ---
+
+export const decodeText = (buffer: ArrayBuffer): { text: string, encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8 (BOM)' };
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16LE' };
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16BE' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch (e) {
+    // Not valid UTF-8: Chinese Excel / SCADA exports are almost always GBK (GB18030 is a superset)
+    return { text: new TextDecoder('gb18030').decode(bytes), encoding: 'GBK' };
+  }
+};
+
+// --- Delimited Text ---
+
+// Splits text into records, honouring double-quoted fields ("" escapes, embedded delimiters/newlines)
+const tokenize = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === '') {
+      inQuotes = true;
+      field = '';
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+/**
+ * Picks the delimiter that splits the first lines into the most columns, consistently.
+ */
+export const sniffDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).filter(l => l.trim().length > 0).slice(0, 10).join('\n');
+
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = tokenize(sample, delimiter).map(r => r.length);
+    if (counts.length === 0 || counts[0] < 2) continue;
+    const consistent = counts.filter(c => c === counts[0]).length / counts.length;
+    const score = counts[0] * consistent;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// --- XLSX (Office Open XML) ---
+
+const readUint16 = (view: DataView, offset: number) => view.getUint16(offset, true);
+const readUint32 = (view: DataView, offset: number) => view.getUint32(offset, true);
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Minimal ZIP reader: returns the decompressed entries whose names are requested
+const unzipEntries = async (buffer: ArrayBuffer, wanted: (name: string) => boolean): Promise<Record<string, string>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (readUint32(view, i) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd === -1) throw new Error("无效的 XLSX 文件 (未找到 ZIP 目录)");
+
+  const entryCount = readUint16(view, eocd + 10);
+  let offset = readUint32(view, eocd + 16);
+  const decoder = new TextDecoder('utf-8');
+  const files: Record<string, string> = {};
+
+  for (let n = 0; n < entryCount; n++) {
+    if (readUint32(view, offset) !== 0x02014b50) break;
+    const method = readUint16(view, offset + 10);
+    const compSize = readUint32(view, offset + 20);
+    const nameLen = readUint16(view, offset + 28);
+    const extraLen = readUint16(view, offset + 30);
+    const commentLen = readUint16(view, offset + 32);
+    const localOffset = readUint32(view, offset + 42);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLen));
+    offset += 46 + nameLen + extraLen + commentLen;
+
+    if (!wanted(name)) continue;
+
+    const dataStart = localOffset + 30 + readUint16(view, localOffset + 26) + readUint16(view, localOffset + 28);
+    const raw = bytes.subarray(dataStart, dataStart + compSize);
+    if (method === 0) {
+      files[name] = decoder.decode(raw);
+    } else if (method === 8) {
+      files[name] = decoder.decode(await inflateRaw(raw));
+    } else {
+      throw new Error(`不支持的 XLSX 压缩方式: ${method}`);
+    }
+  }
+  return files;
+};
+
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/[0-9]/g, '').toUpperCase();
+  let idx = 0;
+  for (const ch of letters) idx = idx * 26 + (ch.charCodeAt(0) - 64);
+  return idx - 1;
+};
+
+const textContent = (el: Element, tag: string): string => {
+  return Array.from(el.getElementsByTagName(tag)).map(t => t.textContent || '').join('');
+};
+
+/**
+ * Reads the first worksheet of an .xlsx workbook into a grid of cells.
+ */
+export const parseXLSXTable = async (buffer: ArrayBuffer): Promise<{ table: Cell[][], date1904: boolean }> => {
+  const files = await unzipEntries(buffer, name =>
+    name === 'xl/workbook.xml' || name === 'xl/_rels/workbook.xml.rels' || name === 'xl/sharedStrings.xml' || name.startsWith('xl/worksheets/')
+  );
+  const parser = new DOMParser();
+
+  // Resolve the first sheet's file via the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  let date1904 = false;
+  if (files['xl/workbook.xml']) {
+    const workbook = parser.parseFromString(files['xl/workbook.xml'], 'application/xml');
+    date1904 = workbook.getElementsByTagName('workbookPr')[0]?.getAttribute('date1904') === '1';
+    const firstSheet = workbook.getElementsByTagName('sheet')[0];
+    const relId = firstSheet?.getAttribute('r:id');
+    if (relId && files['xl/_rels/workbook.xml.rels']) {
+      const rels = parser.parseFromString(files['xl/_rels/workbook.xml.rels'], 'application/xml');
+      const rel = Array.from(rels.getElementsByTagName('Relationship')).find(r => r.getAttribute('Id') === relId);
+      const target = rel?.getAttribute('Target');
+      if (target) sheetPath = target.startsWith('/') ? target.substring(1) : `xl/${target}`;
+    }
+  }
+
+  const sheetXml = files[sheetPath];
+  if (!sheetXml) throw new Error("XLSX 文件中未找到工作表");
+
+  const sharedStrings: string[] = [];
+  if (files['xl/sharedStrings.xml']) {
+    const sst = parser.parseFromString(files['xl/sharedStrings.xml'], 'application/xml');
+    for (const si of Array.from(sst.getElementsByTagName('si'))) sharedStrings.push(textContent(si, 't'));
+  }
+
+  const sheet = parser.parseFromString(sheetXml, 'application/xml');
+  const table: Cell[][] = [];
+  for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+    const rowIdx = Number(rowEl.getAttribute('r') || table.length + 1) - 1;
+    const row: Cell[] = [];
+    for (const c of Array.from(rowEl.getElementsByTagName('c'))) {
+      const ref = c.getAttribute('r');
+      const colIdx = ref ? columnIndex(ref) : row.length;
+      const type = c.getAttribute('t');
+      const v = c.getElementsByTagName('v')[0]?.textContent ?? null;
+
+      let value: Cell = null;
+      if (type === 's') value = v === null ? null : sharedStrings[Number(v)] ?? null;
+      else if (type === 'inlineStr') value = textContent(c, 't');
+      else if (type === 'str' || type === 'e') value = v;
+      else if (type === 'b') value = v === '1' ? 1 : 0;
+      else value = v === null || v === '' ? null : Number(v);
+
+      while (row.length < colIdx) row.push(null);
+      row[colIdx] = value;
+    }
+    table[rowIdx] = row;
+  }
+
+  for (let i = 0; i < table.length; i++) if (!table[i]) table[i] = [];
+  return { table, date1904 };
+};
+
+// Excel stores date-times as day serials; format as the naive wall-clock time the sheet shows
+const excelSerialToTimeString = (serial: number, date1904: boolean): string => {
+  const ms = Math.round(((date1904 ? serial + 1462 : serial) - 25569) * 86400) * 1000;
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
+};
+
+// --- Shared Table -> RawRow Conversion ---
+
+const parseTimestamp = (timeStr: string): number => {
+  // Slash form parses as local time in all browsers; fall back for ISO "T" timestamps
+  const slashed = new Date(timeStr.replace(/-/g, '/')).getTime();
+  if (!isNaN(slashed)) return slashed;
+  return new Date(timeStr).getTime();
+};
+
+// Thousands grouping in either locale: "1,234,567.8" or (decimal comma) "1.234.567,8"
+const GROUPED_POINT = /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const GROUPED_COMMA = /^[+-]?\d{1,3}(\.\d{3})+(,\d+)?$/;
+
+// The whole cell must be a number: partial parses ("12abc", or "1,234.5" read as 1) are NaN, i.e. missing
+const parseNumber = (cell: Cell, decimalComma: boolean): number => {
+  if (typeof cell === 'number') return cell;
+  if (cell === null) return NaN;
+  let str = cell.trim();
+  if (str === '') return NaN;
+  if (decimalComma) {
+    if (GROUPED_COMMA.test(str)) str = str.replace(/\./g, '');
+    str = str.replace(',', '.');
+  } else if (GROUPED_POINT.test(str)) {
+    str = str.replace(/,/g, '');
+  }
+  const value = Number(str);
+  return isFinite(value) ? value : NaN;
+};
+
+const tableToRows = (
+  table: Cell[][],
+  options: { decimalComma?: boolean, date1904?: boolean, strictColumns?: boolean } = {}
+): { data: RawRow[], headers: string[], skipped: SkippedRow[] } => {
+  const headerIdx = table.findIndex(r => r.some(c => c !== null && String(c).trim() !== ''));
+  if (headerIdx === -1 || table.length - headerIdx < 2) throw new Error("文件内容过短");
+
+  const headers = table[headerIdx].map(h => (h === null ? '' : String(h)).trim());
+
+  // Auto-detect time column
+  const timeIdx = headers.findIndex(h => {
+      const lower = h.toLowerCase();
+      return lower.includes('time') || lower.includes('timestamp') || lower.includes('时间');
+  });
+
+  if (timeIdx === -1) {
+    throw new Error("无法自动识别时间列 (需包含 time/timestamp/时间)");
+  }
+
+  const data: RawRow[] = [];
+  const skipped: SkippedRow[] = [];
+
+  for (let i = headerIdx + 1; i < table.length; i++) {
+    const cells = table[i];
+    const rowNumber = i + 1;
+
+    if (cells.every(c => c === null || String(c).trim() === '')) continue; // Blank line
+
+    // XLSX rows omit trailing empty cells, so only delimited text is checked for short rows
+    if (options.strictColumns && cells.length < headers.length) {
+      skipped.push({ row: rowNumber, reason: `列数不足 (${cells.length}/${headers.length})` });
+      continue;
+    }
+
+    const timeCell = cells[timeIdx];
+    const timeStr = typeof timeCell === 'number'
+      ? excelSerialToTimeString(timeCell, !!options.date1904)
+      : (timeCell ?? '').trim();
+
+    if (!timeStr) {
+      skipped.push({ row: rowNumber, reason: '时间为空' });
+      continue;
+    }
+
+    const timestamp = parseTimestamp(timeStr);
+    if (isNaN(timestamp)) {
+      skipped.push({ row: rowNumber, reason: `无法解析时间 "${timeStr}"` });
+      continue;
+    }
+
+    const row: RawRow = { time: timeStr, timestamp };
+    headers.forEach((header, index) => {
+      if (index === timeIdx) return;
+      const val = parseNumber(cells[index] ?? null, !!options.decimalComma);
+      row[header] = isNaN(val) ? null : val;
+    });
+
+    data.push(row);
+  }
+
+  if (data.length === 0) throw new Error("No valid data rows found");
+
+  data.sort((a, b) => a.timestamp - b.timestamp);
+  return { data, headers, skipped };
+};
+
+// --- Public Entry Points ---
+
+/**
+ * Parses already-decoded delimited text (local files after decoding, or server responses).
+ */
+export const parseDelimitedText = (text: string, encoding?: string): ParseResult => {
+  const clean = text.charCodeAt(0) === 0xFEFF ? text.substring(1) : text;
+  const delimiter = sniffDelimiter(clean);
+  const records = tokenize(clean, delimiter);
+
+  // Semicolon exports from European-locale Excel use decimal commas ("12,5")
+  const decimalComma = delimiter === ';' && records.slice(1, 20).some(r => r.some(c => /^-?\d+,\d+$/.test(c.trim())));
+
+  const { data, headers, skipped } = tableToRows(records, { decimalComma, strictColumns: true });
+  return { data, headers, skipped, format: 'csv', delimiter, encoding };
+};
+
+/**
+ * Parses a user-selected file, choosing the reader by content (ZIP magic bytes) rather than extension.
+ */
+export const parseDataFile = async (file: File): Promise<ParseResult> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength));
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4B && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+  if (isZip || file.name.toLowerCase().endsWith('.xlsx')) {
+    const { table, date1904 } = await parseXLSXTable(buffer);
+    const { data, headers, skipped } = tableToRows(table, { date1904 });
+    return { data, headers, skipped, format: 'xlsx' };
+  }
+
+  const { text, encoding } = decodeText(buffer);
+  return parseDelimitedText(text, encoding);
+};
+
+export const toParseReport = (parsed: ParseResult, fileName: string): ParseReport => ({
+  fileName,
+  rowCount: parsed.data.length,
+  skipped: parsed.skipped,
+  format: parsed.format,
+  delimiter: parsed.delimiter,
+  encoding: parsed.encoding
+});
+
+export const DELIMITER_LABELS: Record<string, string> = {
+  ',': '逗号',
+  ';': '分号',
+  '\t': 'Tab',
+  '|': '竖线'
+};
@@ -0,0 +1,197 @@
+import { RawRow, DataPoint, GapPolicy } from '../types';
+import { mean } from './mathUtils';
+
+// --- Raw Rows -> DataPoints (date filtering + missing-data policy) ---
+
+// Helper to get YYYY-MM-DD from timestamp in Local Time
+export const toLocalDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const cellValue = (row: RawRow, col: string): number | null => {
+  const v = row[col];
+  return typeof v === 'number' && !isNaN(v) ? v : null;
+};
+
+/**
+ * Guesses the real-power and forecast columns from header names.
+ */
+export const detectColumnMapping = (headers: string[]): { realCol: string, foreCols: string[] } => {
+  const lowerHeaders = headers.map(h => h.toLowerCase());
+  const realCol = headers[lowerHeaders.findIndex(h => h.includes('real') || h.includes('actual') || h.includes('实际') || h.includes('power'))] || headers[1];
+
+  let foreCols: string[] = [];
+  const valCols = headers.filter(h => h.toLowerCase().startsWith('val_'));
+  const foreCandidates = headers.filter(h => {
+      const lower = h.toLowerCase();
+      return lower.includes('fore') || lower.includes('pred') || lower.includes('预测');
+  });
+
+  if (valCols.length > 0) foreCols = valCols;
+  else if (foreCandidates.length > 0) foreCols = foreCandidates;
+  else foreCols = [headers[2] || headers[headers.length-1]];
+
+  return { realCol, foreCols };
+};
+
+// Default capacity: 110% of the largest real value, rounded up
+export const estimateCapacity = (rows: RawRow[], realCol: string): number => {
+  const maxVal = Math.max(...rows.map(r => cellValue(r, realCol) ?? 0));
+  return Math.ceil(maxVal * 1.1) || 100;
+};
+
+/**
+ * Sampling interval of the series, taken as the most common gap between consecutive timestamps.
+ */
+export const inferIntervalMs = (rows: RawRow[]): number => {
+  const counts = new Map<number, number>();
+  for (let i = 1; i < rows.length; i++) {
+    const step = rows[i].timestamp - rows[i - 1].timestamp;
+    if (step > 0) counts.set(step, (counts.get(step) || 0) + 1);
+  }
+  let best = 15 * 60 * 1000;
+  let bestCount = 0;
+  counts.forEach((count, step) => {
+    if (count > bestCount) { best = step; bestCount = count; }
+  });
+  return best;
+};
+
+// Rows sharing a timestamp would be counted twice in a day; the first record of each timestamp is kept
+export const dropDuplicateTimestamps = (rows: RawRow[]): RawRow[] => {
+  const seen = new Set<number>();
+  return rows.filter(r => {
+    if (seen.has(r.timestamp)) return false;
+    seen.add(r.timestamp);
+    return true;
+  });
+};
+
+export const DEFAULT_GAP_POLICY: GapPolicy = { method: 'exclude', minCoverage: 0, maxGap: 4 };
+
+// Returns a copy of one series with nulls filled according to the policy method. Each day is filled on
+// its own, so values never carry over from another (or an excluded) day, and runs of more than
+// policy.maxGap missing points stay missing.
+const fillSeries = (values: (number | null)[], timestamps: number[], dates: string[], policy: GapPolicy): (number | null)[] => {
+  if (policy.method === 'exclude') return values;
+  const out = [...values];
+
+  const fillRun = (from: number, to: number, dayStart: number, dayEnd: number) => {
+    if (policy.maxGap > 0 && to - from > policy.maxGap) return;
+    const prev = from > dayStart ? from - 1 : -1;
+    const next = to < dayEnd ? to : -1;
+    for (let j = from; j < to; j++) {
+      if (policy.method === 'ffill') {
+        if (prev >= 0) out[j] = values[prev];
+      } else if (prev >= 0 && next >= 0) {
+        // Linear interpolation in time
+        const ratio = (timestamps[j] - timestamps[prev]) / (timestamps[next] - timestamps[prev]);
+        out[j] = (values[prev] as number) + ratio * ((values[next] as number) - (values[prev] as number));
+      } else if (prev >= 0 || next >= 0) {
+        // Gaps at the edges of the day hold the nearest valid value
+        out[j] = values[prev >= 0 ? prev : next];
+      }
+    }
+  };
+
+  let dayStart = 0;
+  for (let i = 1; i <= values.length; i++) {
+    if (i < values.length && dates[i] === dates[dayStart]) continue;
+    // Runs of nulls inside [dayStart, i)
+    let runStart = -1;
+    for (let j = dayStart; j <= i; j++) {
+      const missing = j < i && values[j] === null;
+      if (missing && runStart < 0) runStart = j;
+      if (!missing && runStart >= 0) {
+        fillRun(runStart, j, dayStart, i);
+        runStart = -1;
+      }
+    }
+    dayStart = i;
+  }
+  return out;
+};
+
+export interface PreparedData {
+  points: DataPoint[];
+  coverageByDate: Record<string, number>; // Fraction (0-1) of expected points with valid raw data
+  excludedDates: string[]; // Days dropped because coverage is below policy.minCoverage
+}
+
+/**
+ * Builds the DataPoints used for calculation from raw rows inside the date range
+ * (minus any days the user excluded from the quality audit), one row per timestamp.
+ * Missing cells are never treated as zero: they are dropped, interpolated or
+ * forward-filled within their day per the policy, and each day's raw coverage is reported.
+ */
+export const prepareDataPoints = (
+  rows: RawRow[],
+  realCol: string,
+  foreCols: string[],
+  dateRange: { start: string, end: string },
+  policy: GapPolicy,
+  skipDates: string[] = []
+): PreparedData => {
+  const skipped = new Set(skipDates);
+  const inRange = dropDuplicateTimestamps(rows).filter(r => {
+    const d = toLocalDate(r.timestamp);
+    return d >= dateRange.start && d <= dateRange.end && !skipped.has(d);
+  });
+
+  const timestamps = inRange.map(r => r.timestamp);
+  const dates = inRange.map(r => toLocalDate(r.timestamp));
+  const realRaw = inRange.map(r => cellValue(r, realCol));
+  const foreRaw = foreCols.map(c => inRange.map(r => cellValue(r, c)));
+
+  const realFilled = fillSeries(realRaw, timestamps, dates, policy);
+  const foreFilled = foreRaw.map(series => fillSeries(series, timestamps, dates, policy));
+
+  // Coverage per day: rows with every selected value present, over the expected number of intervals
+  const expectedPerDay = Math.round(DAY_MS / inferIntervalMs(rows));
+  const validCount: Record<string, number> = {};
+  const rowCount: Record<string, number> = {};
+  inRange.forEach((r, i) => {
+    const date = toLocalDate(r.timestamp);
+    rowCount[date] = (rowCount[date] || 0) + 1;
+    const complete = realRaw[i] !== null && foreRaw.every(s => s[i] !== null);
+    if (complete) validCount[date] = (validCount[date] || 0) + 1;
+  });
+
+  const coverageByDate: Record<string, number> = {};
+  Object.keys(rowCount).forEach(date => {
+    const expected = Math.max(expectedPerDay, rowCount[date]);
+    coverageByDate[date] = expected === 0 ? 0 : (validCount[date] || 0) / expected;
+  });
+
+  const excludedDates = policy.minCoverage > 0
+    ? Object.keys(coverageByDate).filter(d => coverageByDate[d] * 100 < policy.minCoverage).sort()
+    : [];
+  const excluded = new Set(excludedDates);
+
+  const points: DataPoint[] = [];
+  inRange.forEach((r, i) => {
+    if (excluded.has(toLocalDate(r.timestamp))) return;
+
+    const real = realFilled[i];
+    const forecasts = foreFilled.map(s => s[i]);
+    if (real === null || forecasts.some(v => v === null)) return;
+
+    const currentForecasts = forecasts as number[];
+    points.push({
+      time: r.time,
+      timestamp: r.timestamp,
+      real,
+      forecast: currentForecasts.length > 0 ? mean(currentForecasts) : 0,
+      forecasts: currentForecasts,
+      filled: realRaw[i] === null || foreRaw.some(s => s[i] === null)
+    });
+  });
+
+  return { points, coverageByDate, excludedDates };
+};
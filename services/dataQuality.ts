@@ -0,0 +1,187 @@
+import { RawRow } from '../types';
+import { toLocalDate, cellValue, inferIntervalMs } from './dataPrep';
+
+// --- Data Quality Audit (Step 1) ---
+
+export type QualityIssueKind = 'duplicate' | 'missing' | 'stuck' | 'negative' | 'overCap' | 'zeroForecast';
+
+export interface QualityIssue {
+  id: string;
+  kind: QualityIssueKind;
+  severity: 'error' | 'warning';
+  title: string;
+  detail: string;
+  days: string[]; // Affected days (YYYY-MM-DD), sorted
+}
+
+// A value repeated for this many consecutive intervals (non-zero) is treated as a stuck sensor / flat line
+const STUCK_RUN_LENGTH = 8;
+
+const sortedKeys = (set: Set<string>) => Array.from(set).sort();
+
+// Every calendar date (YYYY-MM-DD) from start to end, inclusive
+const datesBetween = (start: string, end: string): string[] => {
+  const dates: string[] = [];
+  const d = new Date(`${start}T00:00:00`);
+  for (let date = toLocalDate(d.getTime()); date <= end; d.setDate(d.getDate() + 1), date = toLocalDate(d.getTime())) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Scans the rows in range for problems that would distort accuracy, grouped by kind and column.
+ */
+export const auditDataQuality = (
+  rows: RawRow[],
+  realCol: string,
+  foreCols: string[],
+  dateRange: { start: string, end: string },
+  cap: number
+): QualityIssue[] => {
+  const inRange = rows.filter(r => {
+    const d = toLocalDate(r.timestamp);
+    return d >= dateRange.start && d <= dateRange.end;
+  });
+  if (inRange.length === 0 || !realCol) return [];
+
+  const issues: QualityIssue[] = [];
+  const columns = [realCol, ...foreCols.filter(c => c !== realCol)];
+
+  // 1. Duplicate timestamps
+  const dupDays = new Set<string>();
+  let dupCount = 0;
+  for (let i = 1; i < inRange.length; i++) {
+    if (inRange[i].timestamp === inRange[i - 1].timestamp) {
+      dupCount++;
+      dupDays.add(toLocalDate(inRange[i].timestamp));
+    }
+  }
+  if (dupCount > 0) {
+    issues.push({
+      id: 'duplicate',
+      kind: 'duplicate',
+      severity: 'error',
+      title: '重复时间戳',
+      detail: `${dupCount} 条记录与上一条时间相同，计算时每个时间戳只保留第一条记录。`,
+      days: sortedKeys(dupDays)
+    });
+  }
+
+  // 2. Missing intervals per day
+  const intervalMs = inferIntervalMs(inRange);
+  const expectedPerDay = Math.round(24 * 60 * 60 * 1000 / intervalMs);
+  const uniquePerDay: Record<string, Set<number>> = {};
+  inRange.forEach(r => {
+    const d = toLocalDate(r.timestamp);
+    if (!uniquePerDay[d]) uniquePerDay[d] = new Set();
+    uniquePerDay[d].add(r.timestamp);
+  });
+  // Days of the range with no rows at all are missing every interval
+  const firstDay = toLocalDate(inRange[0].timestamp);
+  const lastDay = toLocalDate(inRange[inRange.length - 1].timestamp);
+  const allDates = datesBetween(dateRange.start > firstDay ? dateRange.start : firstDay, dateRange.end < lastDay ? dateRange.end : lastDay);
+  const emptyDays = allDates.filter(d => !uniquePerDay[d]);
+  const missingDays = allDates.filter(d => (uniquePerDay[d]?.size ?? 0) < expectedPerDay);
+  if (missingDays.length > 0) {
+    const totalMissing = missingDays.reduce((acc, d) => acc + (expectedPerDay - (uniquePerDay[d]?.size ?? 0)), 0);
+    issues.push({
+      id: 'missing',
+      kind: 'missing',
+      severity: 'warning',
+      title: `缺失 ${Math.round(intervalMs / 60000)} 分钟时段`,
+      detail: `共缺少 ${totalMissing} 个时段 (每日应有 ${expectedPerDay} 个)${emptyDays.length > 0 ? `，其中 ${emptyDays.length} 天整日无数据` : ''}。`,
+      days: missingDays
+    });
+  }
+
+  for (const col of columns) {
+    const isReal = col === realCol;
+    const label = isReal ? `实测 [${col}]` : `预测 [${col}]`;
+
+    // 3. Stuck / flat-lined values
+    const stuckDays = new Set<string>();
+    let runStart = 0;
+    for (let i = 1; i <= inRange.length; i++) {
+      const prev = cellValue(inRange[i - 1], col);
+      const curr = i < inRange.length ? cellValue(inRange[i], col) : null;
+      if (curr !== null && curr === prev) continue;
+      if (i - runStart >= STUCK_RUN_LENGTH && prev !== null && prev !== 0) {
+        for (let j = runStart; j < i; j++) stuckDays.add(toLocalDate(inRange[j].timestamp));
+      }
+      runStart = i;
+    }
+    if (stuckDays.size > 0) {
+      issues.push({
+        id: `stuck-${col}`,
+        kind: 'stuck',
+        severity: 'warning',
+        title: `${label} 数值卡死`,
+        detail: `连续 ${STUCK_RUN_LENGTH} 个及以上时段数值完全相同 (非零)，可能是采集中断或数据冻结。`,
+        days: sortedKeys(stuckDays)
+      });
+    }
+
+    // 4. Negative power
+    const negDays = new Set<string>();
+    inRange.forEach(r => {
+      const v = cellValue(r, col);
+      if (v !== null && v < 0) negDays.add(toLocalDate(r.timestamp));
+    });
+    if (negDays.size > 0) {
+      issues.push({
+        id: `negative-${col}`,
+        kind: 'negative',
+        severity: 'warning',
+        title: `${label} 出现负功率`,
+        detail: '功率值小于 0，通常为厂用电或计量符号问题。',
+        days: sortedKeys(negDays)
+      });
+    }
+  }
+
+  // 5. Real above installed capacity
+  const overCapDays = new Set<string>();
+  inRange.forEach(r => {
+    const v = cellValue(r, realCol);
+    if (v !== null && v > cap) overCapDays.add(toLocalDate(r.timestamp));
+  });
+  if (overCapDays.size > 0) {
+    issues.push({
+      id: 'overCap',
+      kind: 'overCap',
+      severity: 'error',
+      title: `实测超过装机容量 (${cap} MW)`,
+      detail: '实测功率高于配置的 Cap，请检查容量设置或数据单位。',
+      days: sortedKeys(overCapDays)
+    });
+  }
+
+  // 6. Forecast columns that are all zero
+  for (const col of foreCols) {
+    const nonZeroDays = new Set<string>();
+    const allDays = new Set<string>();
+    inRange.forEach(r => {
+      const d = toLocalDate(r.timestamp);
+      allDays.add(d);
+      const v = cellValue(r, col);
+      if (v !== null && v !== 0) nonZeroDays.add(d);
+    });
+    const zeroDays = sortedKeys(allDays).filter(d => !nonZeroDays.has(d));
+    if (zeroDays.length === 0) continue;
+
+    const wholeColumn = zeroDays.length === allDays.size;
+    issues.push({
+      id: `zeroForecast-${col}`,
+      kind: 'zeroForecast',
+      severity: wholeColumn ? 'error' : 'warning',
+      title: wholeColumn ? `预测 [${col}] 全部为零` : `预测 [${col}] 整日为零`,
+      detail: wholeColumn
+        ? '该预测列在所选范围内全部为 0 或缺测，会拉低预测均值，建议取消选择该列。'
+        : '该预测列在部分日期全天为 0 或缺测，可能是预测未上报。',
+      days: zeroDays
+    });
+  }
+
+  return issues;
+};
@@ -0,0 +1,143 @@
+import { DataPoint, EnsembleConfig } from '../types';
+import { BatchDayInput } from './workerProtocol';
+import { mean, median, sum } from './mathUtils';
+import { toLocalDate } from './dataPrep';
+
+// --- Forecast Ensembles: how DataPoint.forecasts are combined into DataPoint.forecast ---
+
+export const ENSEMBLE_METHOD_LABELS: Record<EnsembleConfig['method'], string> = {
+  mean: '简单平均 (Mean)',
+  median: '中位数 (Median)',
+  weighted: '自定义权重 (Weighted)',
+  trimmed: '截尾平均 (Trimmed Mean)',
+  optimised: '优化权重 (Fitted Weights)'
+};
+
+export const DEFAULT_ENSEMBLE: EnsembleConfig = { method: 'mean', weights: {}, trimPct: 20, trainEnd: '' };
+
+export interface EnsembleFit {
+  weights: number[]; // One per forecast column, summing to 1
+  trainDays: string[];
+  evalDays: string[];
+  trainAccuracy: number; // Mean regional accuracy over the training window with the fitted weights
+}
+
+const normalise = (weights: number[]): number[] => {
+  const total = sum(weights);
+  return total > 0 ? weights.map(w => w / total) : weights.map(() => 1 / weights.length);
+};
+
+const weightedSum = (values: number[], weights: number[]) => values.reduce((acc, v, i) => acc + v * weights[i], 0);
+
+const trimmedMean = (values: number[], trimPct: number): number => {
+  const cut = Math.floor(values.length * Math.min(Math.max(trimPct, 0), 49) / 100);
+  const sorted = [...values].sort((a, b) => a - b);
+  return mean(sorted.slice(cut, sorted.length - cut));
+};
+
+/**
+ * Builds the combiner for one row of forecasts. 'optimised' uses the fitted weights (plain mean until fitted).
+ */
+export const createCombiner = (config: EnsembleConfig, foreCols: string[], fit: EnsembleFit | null): (values: number[]) => number => {
+  switch (config.method) {
+    case 'median':
+      return median;
+    case 'trimmed':
+      return values => trimmedMean(values, config.trimPct);
+    case 'weighted': {
+      const weights = normalise(foreCols.map(c => Math.max(config.weights[c] ?? 1, 0)));
+      return values => weightedSum(values, weights);
+    }
+    case 'optimised':
+      return fit ? values => weightedSum(values, fit.weights) : mean;
+    default:
+      return mean;
+  }
+};
+
+/**
+ * Name of the combined forecast in reports and the provider leaderboard: the method, plus its weights or
+ * trim share where those decide the result.
+ */
+export const describeEnsemble = (config: EnsembleConfig, foreCols: string[], fit: EnsembleFit | null): string => {
+  const label = `集成: ${ENSEMBLE_METHOD_LABELS[config.method]}`;
+  const formatWeights = (weights: number[]) => foreCols.map((c, i) => `${c} ${weights[i].toFixed(2)}`).join(' / ');
+  switch (config.method) {
+    case 'trimmed':
+      return `${label} ${config.trimPct}%`;
+    case 'weighted':
+      return `${label} [${formatWeights(normalise(foreCols.map(c => Math.max(config.weights[c] ?? 1, 0))))}]`;
+    case 'optimised':
+      return fit ? `${label} [${formatWeights(fit.weights)}]` : `${label} (未拟合，按简单平均)`;
+    default:
+      return label;
+  }
+};
+
+export const applyEnsemble = (points: DataPoint[], combine: (values: number[]) => number): DataPoint[] => {
+  return points.map(p => ({ ...p, forecast: p.forecasts.length > 0 ? combine(p.forecasts) : 0 }));
+};
+
+// Default split point: the first half of the days trains, the second half evaluates
+export const defaultTrainEnd = (dates: string[]): string => dates.length < 2 ? '' : dates[Math.ceil(dates.length / 2) - 1];
+
+const MAX_FIT_PASSES = 500;
+
+// Accuracy of one day under the active formula, for a candidate combined forecast
+export type EnsembleScorer = (real: number[], fore: number[], foreRaw: number[][]) => number;
+
+/**
+ * Fits non-negative weights (summing to 1) that maximise the mean accuracy of the active formula over the
+ * training window, by pairwise coordinate search on the weight simplex. `score` runs thousands of times,
+ * so it must be a native evaluator; callers without one do not offer the fit.
+ */
+export const fitEnsembleWeights = (
+  days: BatchDayInput[],
+  trainEnd: string,
+  score: EnsembleScorer
+): EnsembleFit | null => {
+  const provided = days.length > 0 ? days[0].foreRaw[0]?.length ?? 0 : 0;
+  if (provided < 2 || days.length < 2) return null;
+
+  const splitAt = trainEnd || defaultTrainEnd(days.map(d => d.date));
+  const train = days.filter(d => d.date <= splitAt);
+  const evalDays = days.filter(d => d.date > splitAt).map(d => d.date);
+  if (train.length === 0) return null;
+
+  const trainScore = (weights: number[]) => mean(train.map(day => score(
+    day.real, day.foreRaw.map(row => weightedSum(row, weights)), day.foreRaw
+  )));
+
+  let weights = normalise(new Array(provided).fill(1));
+  let best = trainScore(weights);
+  let step = 0.2;
+  let passes = 0;
+
+  while (step >= 0.005 && passes++ < MAX_FIT_PASSES) {
+    let improved = false;
+    for (let i = 0; i < provided; i++) {
+      for (let j = 0; j < provided; j++) {
+        if (i === j || weights[j] < step) continue;
+        const candidate = [...weights];
+        candidate[i] += step;
+        candidate[j] -= step;
+        const s = trainScore(candidate);
+        if (s > best + 1e-9) {
+          best = s;
+          weights = candidate;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) step /= 2;
+  }
+
+  // Float drift from repeated +/- steps can leave tiny negatives
+  return { weights: normalise(weights.map(w => Math.max(w, 0))), trainDays: train.map(d => d.date), evalDays, trainAccuracy: best };
+};
+
+// Keeps only the held-out evaluation days of a fit
+export const restrictToEvalWindow = (points: DataPoint[], fit: EnsembleFit): DataPoint[] => {
+  const evalSet = new Set(fit.evalDays);
+  return points.filter(p => evalSet.has(toLocalDate(p.timestamp)));
+};
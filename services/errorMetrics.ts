@@ -0,0 +1,131 @@
+import { DailyResult, ErrorMetrics } from '../types';
+import { BatchDayInput } from './workerProtocol';
+import { mean, mae, rmse } from './mathUtils';
+
+// --- Error Decomposition Metrics ---
+// Accuracy alone says how bad a day was; these say why: systematic bias, scale of the error relative to
+// capacity, shape mismatch (correlation), value over a naive forecast, and behaviour at peaks and ramps.
+
+export type ErrorMetricKey = keyof ErrorMetrics;
+
+// A step counts as a ramp event when real changes by more than this share of cap
+export const RAMP_STEP_RATIO = 0.1;
+// MAPE ignores points with real below this share of cap, where the percentage error explodes
+export const MAPE_FLOOR_RATIO = 0.05;
+// Share of the day's intervals, by real output, treated as the peak period
+export const PEAK_SHARE = 0.25;
+
+export interface ErrorMetricDef {
+  label: string;
+  unit: '%' | 'MW' | '';
+  description: string;
+}
+
+export const ERROR_METRIC_DEFS: Record<ErrorMetricKey, ErrorMetricDef> = {
+  bias: { label: '偏差 ME', unit: 'MW', description: '平均误差 (预测 - 实测)，正值表示系统性高估' },
+  nmae: { label: 'nMAE', unit: '%', description: 'MAE / 装机容量' },
+  nrmse: { label: 'nRMSE', unit: '%', description: 'RMSE / 装机容量' },
+  mape: { label: 'MAPE', unit: '%', description: `平均绝对百分比误差，排除实测低于 ${MAPE_FLOOR_RATIO * 100}% 装机的时段` },
+  correlation: { label: '相关系数', unit: '', description: '实测与预测的皮尔逊相关系数，反映曲线形状是否一致' },
+  skill: { label: '技能评分', unit: '%', description: '相对前一日持续性预测的 RMSE 改善，负值表示不如持续性预测' },
+  peakError: { label: '高峰误差', unit: '%', description: `当日出力最高的 ${PEAK_SHARE * 100}% 时段的 MAE / 装机容量` },
+  rampHitRate: { label: '爬坡命中率', unit: '%', description: `实测单步变化超过 ${RAMP_STEP_RATIO * 100}% 装机的爬坡中，预测同向且幅度过半的比例` }
+};
+
+export const ERROR_METRIC_KEYS = Object.keys(ERROR_METRIC_DEFS) as ErrorMetricKey[];
+
+export const formatMetric = (key: ErrorMetricKey, value: number | null | undefined): string => {
+  if (value === null || value === undefined) return '-';
+  const { unit } = ERROR_METRIC_DEFS[key];
+  if (unit === '%') return `${(value * 100).toFixed(2)}%`;
+  if (unit === 'MW') return value.toFixed(2);
+  return value.toFixed(3);
+};
+
+// Chart value in display units (percent metrics scaled to 0-100)
+export const metricChartValue = (key: ErrorMetricKey, value: number | null | undefined): number | null => {
+  if (value === null || value === undefined) return null;
+  return ERROR_METRIC_DEFS[key].unit === '%' ? parseFloat((value * 100).toFixed(3)) : parseFloat(value.toFixed(4));
+};
+
+/**
+ * Ramp events of real (steps above RAMP_STEP_RATIO of cap) and how many the forecast followed:
+ * same direction and at least half the size.
+ */
+export const classifyRamps = (real: number[], fore: number[], cap: number) => {
+  let events = 0;
+  let hits = 0;
+  for (let i = 1; i < real.length; i++) {
+    const dReal = real[i] - real[i - 1];
+    if (Math.abs(dReal) <= cap * RAMP_STEP_RATIO) continue;
+    events++;
+    const dFore = fore[i] - fore[i - 1];
+    if (Math.sign(dFore) === Math.sign(dReal) && Math.abs(dFore) >= Math.abs(dReal) / 2) hits++;
+  }
+  return { events, hits };
+};
+
+const correlation = (a: number[], b: number[]): number | null => {
+  const ma = mean(a);
+  const mb = mean(b);
+  let cov = 0, va = 0, vb = 0;
+  a.forEach((x, i) => {
+    cov += (x - ma) * (b[i] - mb);
+    va += (x - ma) ** 2;
+    vb += (b[i] - mb) ** 2;
+  });
+  return va > 0 && vb > 0 ? cov / Math.sqrt(va * vb) : null;
+};
+
+/**
+ * Error decomposition of one day. `baseline` is the persistence forecast (previous day's real, same
+ * intervals); without one the skill score is null.
+ */
+export const computeErrorMetrics = (real: number[], fore: number[], cap: number, baseline: number[] | null = null): ErrorMetrics => {
+  const safeCap = cap > 0 ? cap : 1;
+  const n = Math.min(real.length, fore.length);
+  real = real.slice(0, n);
+  fore = fore.slice(0, n);
+
+  const mapePoints = real.map((r, i) => ({ r, f: fore[i] })).filter(p => p.r > cap * MAPE_FLOOR_RATIO);
+
+  const baselineRmse = baseline && baseline.length === n ? rmse(real, baseline) : 0;
+
+  // Highest-output intervals of the day (at least one)
+  const peakCount = Math.max(1, Math.round(n * PEAK_SHARE));
+  const peakIdx = real.map((r, i) => ({ r, i })).sort((a, b) => b.r - a.r).slice(0, peakCount).map(p => p.i);
+
+  const ramps = classifyRamps(real, fore, cap);
+
+  return {
+    bias: n ? mean(fore.map((f, i) => f - real[i])) : 0,
+    nmae: mae(real, fore) / safeCap,
+    nrmse: rmse(real, fore) / safeCap,
+    mape: mapePoints.length ? mean(mapePoints.map(p => Math.abs(p.f - p.r) / p.r)) : null,
+    correlation: n > 1 ? correlation(real, fore) : null,
+    skill: baselineRmse > 0 ? 1 - rmse(real, fore) / baselineRmse : null,
+    peakError: n ? mean(peakIdx.map(i => Math.abs(fore[i] - real[i]))) / safeCap : null,
+    rampHitRate: ramps.events ? ramps.hits / ramps.events : null
+  };
+};
+
+const previousDate = (date: string) => {
+  const d = new Date(`${date}T00:00:00`);
+  d.setDate(d.getDate() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Attaches `metrics` to every result from its day's data. The persistence baseline is the previous
+ * calendar day's real, used only when that day has the same number of intervals.
+ */
+export const attachErrorMetrics = (results: DailyResult[], days: BatchDayInput[], cap: number): DailyResult[] => {
+  const byDate = new Map(days.map(d => [d.date, d]));
+  return results.map(r => {
+    const day = byDate.get(r.date);
+    if (!day) return r;
+    const prev = byDate.get(previousDate(r.date));
+    const baseline = prev && prev.real.length === day.real.length ? prev.real : null;
+    return { ...r, metrics: computeErrorMetrics(day.real, day.fore, cap, baseline) };
+  });
+};
@@ -0,0 +1,343 @@
+import { AggMethod } from '../types';
+import { AGG_METHOD_LABELS } from './formulas';
+
+// --- Formula Library ---
+// Named formulas per region, each with an append-only version history. The active formula of a
+// region is what the editor loads; restoring an old version appends it again so history is never lost.
+
+export interface FormulaContent {
+  rowLogic: string;
+  aggMethod: AggMethod;
+  aggCode?: string; // Only used when aggMethod is 'custom'
+  script?: string; // Hand-edited full batch script, detached from the atomic parts above
+}
+
+export interface FormulaVersion extends FormulaContent {
+  version: number; // 1-based, increasing within a formula
+  author: string;
+  notes: string;
+  timestamp: number;
+}
+
+// Golden regression case: a small dataset whose accuracy must not drift when the formula is edited
+export interface FormulaTestCase {
+  id: string;
+  name: string;
+  cap: number;
+  threshold: number;
+  real: number[];
+  fore: number[];
+  fore_list?: number[][]; // Per-provider forecasts; defaults to [fore] per point
+  expected: number;
+  tolerance: number; // Absolute, on the 0~1 accuracy
+}
+
+export interface LibraryFormula {
+  id: string;
+  region: string;
+  name: string;
+  versions: FormulaVersion[]; // Oldest first
+  testCases?: FormulaTestCase[]; // Shared by all versions
+}
+
+interface LibraryData {
+  formulas: LibraryFormula[];
+  active: Record<string, string>; // region -> formula id
+}
+
+export interface FormulaBundle {
+  format: typeof BUNDLE_FORMAT;
+  exportedAt: number;
+  formulas: LibraryFormula[];
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+const LIBRARY_KEY = 'powersight_formula_library_v1';
+const LEGACY_KEY = 'powersight_formulas_v1'; // One saved formula per region, before the library
+const AUTHOR_KEY = 'powersight_formula_author';
+const BUNDLE_FORMAT = 'powersight-formula-bundle/v1';
+
+export const newTestCaseId = () => `t_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+const newFormulaId = () => `f_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Older saves stored the Shanxi weighted template under 'rmse' and relied on a region special-case
+const migrateContent = <T extends FormulaContent>(content: T): T =>
+  content.aggMethod === 'rmse' && content.rowLogic.includes('weight = abs(diff)')
+    ? { ...content, aggMethod: 'weighted' }
+    : content;
+
+const readLibrary = (): LibraryData => {
+  try {
+    const stored = localStorage.getItem(LIBRARY_KEY);
+    if (stored) return JSON.parse(stored);
+
+    // First use: every legacy per-region save becomes a one-version library formula
+    const legacy: Record<string, FormulaContent & { timestamp: number }> = JSON.parse(localStorage.getItem(LEGACY_KEY) || '{}');
+    const data: LibraryData = { formulas: [], active: {} };
+    Object.entries(legacy).forEach(([region, saved]) => {
+      const { timestamp, ...content } = saved;
+      const formula: LibraryFormula = {
+        id: newFormulaId(),
+        region,
+        name: '已保存公式',
+        versions: [{ ...migrateContent(content), version: 1, author: '', notes: '由旧版单一保存迁移', timestamp }]
+      };
+      data.formulas.push(formula);
+      data.active[region] = formula.id;
+    });
+    writeLibrary(data); // Keeps the generated ids stable
+    return data;
+  } catch (e) {
+    return { formulas: [], active: {} };
+  }
+};
+
+const writeLibrary = (data: LibraryData) => {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(data));
+  } catch (e) {
+    console.error("Save formula library failed", e);
+  }
+};
+
+const pickContent = (content: FormulaContent): FormulaContent => ({
+  rowLogic: content.rowLogic,
+  aggMethod: content.aggMethod,
+  ...(content.aggMethod === 'custom' && content.aggCode ? { aggCode: content.aggCode } : {}),
+  ...(content.script ? { script: content.script } : {})
+});
+
+export const isSameContent = (a: FormulaContent, b: FormulaContent): boolean => {
+  const x = pickContent(a), y = pickContent(b);
+  return x.rowLogic === y.rowLogic && x.aggMethod === y.aggMethod && x.aggCode === y.aggCode && x.script === y.script;
+};
+
+export const latestVersion = (formula: LibraryFormula): FormulaVersion => formula.versions[formula.versions.length - 1];
+
+// --- Queries ---
+
+export const listLibraryFormulas = (region: string): LibraryFormula[] =>
+  readLibrary().formulas.filter(f => f.region === region);
+
+export const getActiveFormula = (region: string): LibraryFormula | null => {
+  const data = readLibrary();
+  const id = data.active[region];
+  return data.formulas.find(f => f.id === id) || null;
+};
+
+// Null switches the region back to its rule's default template; the library itself is kept
+export const setActiveFormula = (region: string, id: string | null) => {
+  const data = readLibrary();
+  if (id) data.active[region] = id;
+  else delete data.active[region];
+  writeLibrary(data);
+};
+
+export const getLastAuthor = (): string => localStorage.getItem(AUTHOR_KEY) || '';
+
+// --- Mutations ---
+
+/**
+ * Saves the editor content as a new version of an existing formula, or as a new named formula
+ * when `formulaId` is null. The saved formula becomes the region's active one.
+ */
+export const saveFormulaVersion = (
+  region: string,
+  formulaId: string | null,
+  content: FormulaContent,
+  meta: { name?: string, author: string, notes: string, testCases?: FormulaTestCase[] }
+): LibraryFormula => {
+  const data = readLibrary();
+  let formula = formulaId ? data.formulas.find(f => f.id === formulaId && f.region === region) : undefined;
+
+  if (formulaId && !formula) throw new Error("公式库中找不到该公式，可能已被删除");
+  if (!formula) {
+    const name = meta.name?.trim();
+    if (!name) throw new Error("请填写公式名称");
+    formula = { id: newFormulaId(), region, name, versions: [] };
+    data.formulas.push(formula);
+  } else if (meta.name?.trim()) {
+    formula.name = meta.name.trim();
+  }
+  if (meta.testCases) formula.testCases = meta.testCases;
+
+  const prev = formula.versions[formula.versions.length - 1];
+  formula.versions.push({
+    ...pickContent(content),
+    version: prev ? prev.version + 1 : 1,
+    author: meta.author.trim(),
+    notes: meta.notes.trim(),
+    timestamp: Date.now()
+  });
+  data.active[region] = formula.id;
+  writeLibrary(data);
+  if (meta.author.trim()) localStorage.setItem(AUTHOR_KEY, meta.author.trim());
+  return formula;
+};
+
+/**
+ * Restores an old version by appending a copy of it as the newest version.
+ */
+export const restoreFormulaVersion = (formulaId: string, version: number, author: string): LibraryFormula => {
+  const formula = readLibrary().formulas.find(f => f.id === formulaId);
+  const source = formula?.versions.find(v => v.version === version);
+  if (!formula || !source) throw new Error("找不到要恢复的公式版本");
+  return saveFormulaVersion(formula.region, formula.id, source, { author, notes: `恢复自 v${version}` });
+};
+
+export const deleteLibraryFormula = (formulaId: string) => {
+  const data = readLibrary();
+  data.formulas = data.formulas.filter(f => f.id !== formulaId);
+  Object.keys(data.active).forEach(region => {
+    if (data.active[region] === formulaId) delete data.active[region];
+  });
+  writeLibrary(data);
+};
+
+// --- Import / Export ---
+
+export const exportFormulaBundle = (formulas: LibraryFormula[]): string => {
+  const bundle: FormulaBundle = { format: BUNDLE_FORMAT, exportedAt: Date.now(), formulas };
+  return JSON.stringify(bundle, null, 2);
+};
+
+const normaliseTestCase = (raw: any, where: string): FormulaTestCase => {
+  const isNumbers = (v: any) => Array.isArray(v) && v.every((x: any) => Number.isFinite(x));
+  if (!raw || typeof raw !== 'object') throw new Error(`${where} 不是对象`);
+  if (!isNumbers(raw.real) || !isNumbers(raw.fore) || raw.real.length === 0 || raw.real.length !== raw.fore.length) {
+    throw new Error(`${where} 的 real / fore 必须是等长的非空数值数组`);
+  }
+  if (raw.fore_list !== undefined && (!Array.isArray(raw.fore_list) || raw.fore_list.length !== raw.real.length || !raw.fore_list.every(isNumbers))) {
+    throw new Error(`${where} 的 fore_list 必须与 real 等长，每项为数值数组`);
+  }
+  ['cap', 'threshold', 'expected', 'tolerance'].forEach(k => {
+    if (!Number.isFinite(raw[k]) || raw[k] < 0) throw new Error(`${where} 的 ${k} 必须是非负数`);
+  });
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : newTestCaseId(),
+    name: typeof raw.name === 'string' ? raw.name : '',
+    cap: raw.cap,
+    threshold: raw.threshold,
+    real: raw.real,
+    fore: raw.fore,
+    ...(raw.fore_list ? { fore_list: raw.fore_list } : {}),
+    expected: raw.expected,
+    tolerance: raw.tolerance
+  };
+};
+
+const normaliseVersion = (raw: any, where: string): FormulaVersion => {
+  if (!raw || typeof raw !== 'object') throw new Error(`${where} 不是对象`);
+  if (typeof raw.rowLogic !== 'string') throw new Error(`${where} 缺少 rowLogic`);
+  if (!(raw.aggMethod in AGG_METHOD_LABELS)) throw new Error(`${where} 的 aggMethod "${raw.aggMethod}" 无效`);
+  if (!Number.isInteger(raw.version) || raw.version < 1) throw new Error(`${where} 的 version 必须是正整数`);
+  return {
+    ...migrateContent(pickContent(raw)),
+    version: raw.version,
+    author: typeof raw.author === 'string' ? raw.author : '',
+    notes: typeof raw.notes === 'string' ? raw.notes : '',
+    timestamp: Number.isFinite(raw.timestamp) ? raw.timestamp : Date.now()
+  };
+};
+
+/**
+ * Merges a JSON bundle into the library. A formula already in the library only gains the versions
+ * newer than its own; when its histories have diverged the bundle copy is added as a separate formula.
+ */
+export const importFormulaBundle = (text: string): { added: number, updated: number } => {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`公式包不是有效的 JSON: ${e.message}`);
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.formulas)) {
+    throw new Error(`不是 PowerSight 公式包 (需要 format: "${BUNDLE_FORMAT}")`);
+  }
+
+  const incoming: LibraryFormula[] = bundle.formulas.map((raw: any, i: number) => {
+    const where = `第 ${i + 1} 个公式`;
+    if (typeof raw?.id !== 'string' || !raw.id) throw new Error(`${where} 缺少 id`);
+    if (typeof raw.region !== 'string' || !raw.region) throw new Error(`${where} 缺少 region`);
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error(`${where} 缺少 name`);
+    if (!Array.isArray(raw.versions) || raw.versions.length === 0) throw new Error(`${where} 没有任何版本`);
+    const versions = raw.versions.map((v: any, j: number) => normaliseVersion(v, `${where} (${raw.name}) 的第 ${j + 1} 个版本`));
+    versions.sort((a: FormulaVersion, b: FormulaVersion) => a.version - b.version);
+    if (raw.testCases !== undefined && !Array.isArray(raw.testCases)) throw new Error(`${where} 的 testCases 必须是数组`);
+    const testCases = (raw.testCases ?? []).map((c: any, j: number) => normaliseTestCase(c, `${where} (${raw.name}) 的第 ${j + 1} 个回归用例`));
+    return { id: raw.id, region: raw.region, name: raw.name.trim(), versions, ...(testCases.length ? { testCases } : {}) };
+  });
+
+  const data = readLibrary();
+  let added = 0, updated = 0;
+  incoming.forEach(formula => {
+    const local = data.formulas.find(f => f.id === formula.id);
+    if (!local) {
+      data.formulas.push(formula);
+      added++;
+      return;
+    }
+    const diverged = local.versions.some(lv => {
+      const iv = formula.versions.find(v => v.version === lv.version);
+      return iv && !isSameContent(iv, lv);
+    });
+    if (diverged) {
+      data.formulas.push({ ...formula, id: newFormulaId(), name: `${formula.name} (导入)` });
+      added++;
+      return;
+    }
+    const localMax = latestVersion(local).version;
+    const newer = formula.versions.filter(v => v.version > localMax);
+    if (newer.length > 0) {
+      local.versions.push(...newer);
+      if (formula.testCases) local.testCases = formula.testCases; // The newer side owns the cases
+      updated++;
+    }
+  });
+  writeLibrary(data);
+  return { added, updated };
+};
+
+// --- Diff ---
+
+// Line diff (LCS) between two versions' code, for the history view
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n'), b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ type: 'same', text: a[i] }); i++; j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: 'removed', text: a[i++] });
+    } else {
+      out.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) out.push({ type: 'added', text: b[j++] });
+  return out;
+};
+
+// The code a version runs, shown as one text in the diff view
+export const formatVersionCode = (v: FormulaContent): string => {
+  if (v.script) return `# [完整脚本]\n${v.script}`;
+  const parts = [`# [单行逻辑]\n${v.rowLogic}`, `# [聚合方式] ${AGG_METHOD_LABELS[v.aggMethod]}`];
+  if (v.aggMethod === 'custom' && v.aggCode) parts.push(`# [聚合代码]\n${v.aggCode}`);
+  return parts.join('\n');
+};
+
+// How a report refers to the formula that produced it
+export const formatFormulaLabel = (formula: LibraryFormula, version: FormulaVersion): string =>
+  `${formula.name} v${version.version}${version.author ? ` (${version.author})` : ''}`;
@@ -1,144 +1,53 @@
-import { DataPoint, CalculationParams } from '../types';
-import { GoogleGenAI } from "@google/genai";
+import { DataPoint, CalculationParams, AggMethod } from '../types';
+import { initPythonWorker, runRowLogic, runFormulaBatch, createPythonError, RowRunResult } from './pythonEngine';
+import { getRegionRule } from './regionRules';
+import { generateText, LlmMessage } from './llmProvider';
 
 // --- Constants & Storage Types ---
 
-export const ROW_TEMPLATES: Record<string, string> = {
-  'Shanxi': `# 变量说明: real(实测值), fore(预测均值), cap(容量)
-diff = real - fore
-weight = abs(diff) # 权重暂时存为中间变量，最后聚合时使用
-# 山西规则较复杂，通常建议使用完整脚本模式，但在原子模式下，
-# 我们可以计算单点的 (R-F)^2 * |R-F|
-result = (diff ** 2) * abs(diff)`,
-  
-  'Northeast': `# 变量说明: real(实测), fore_list(预测列表), cap(容量)
-import numpy as np
-
-# 1. 获取该时刻的预测均值 (fore_list 是该时刻的多家预测值列表)
-mean_fore = np.mean(fore_list)
-
-# 2. 判断死区 (实测和预测均值都小于 10% Cap)
-if real < cap * 0.1 and mean_fore < cap * 0.1:
-    result = 0.0
-else:
-    # 3. 计算归一化误差
-    if mean_fore == 0:
-        result = 0.0
-    else:
-        err = abs((mean_fore - real) / mean_fore)
-        result = min(err, 1.0) # 误差最大限制为 1
-
-# 结果 result 将被收集，最后取均值计算准确率`,
-
-  'General': `diff = abs(real - fore)
-result = diff ** 2  # 计算平方误差`
+export const AGG_METHOD_LABELS: Record<AggMethod, string> = {
+  mean: '1 - Average(Result)',
+  rmse: '1 - Sqrt(Average(Result))/Cap',
+  rms: '1 - Sqrt(Average(Result))',
+  weighted: '1 - Sqrt(ΣResult/Σ|R-F|)/Cap',
+  harmonic: '1 - 2·ΣResult/Σ|R-F| (有效点)',
+  sum: '1 - Sum(Result)',
+  custom: '自定义聚合代码 (Custom)'
 };
 
-export interface SavedFormula {
-  rowLogic: string;
-  aggMethod: 'mean' | 'sum' | 'rmse' | 'custom';
-  timestamp: number;
-}
+// Header of a fresh custom aggregation pane
+export const AGG_CODE_HEADER = `# 变量说明: row_results(单行 result 列表), real / fore(当日列表), fore_list, cap, threshold
+# 最终将当日准确率 (0~1) 赋值给 result`;
 
-const STORAGE_KEY = 'powersight_formulas_v1';
-
-// --- Storage Functions ---
-
-export const saveFormulaToStorage = (region: string, rowLogic: string, aggMethod: string) => {
-  try {
-    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
-    data[region] = { rowLogic, aggMethod, timestamp: Date.now() };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-  } catch (e) {
-    console.error("Save formula failed", e);
-  }
-};
-
-export const loadFormulaFromStorage = (region: string): SavedFormula | null => {
-  try {
-    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
-    return data[region] || null;
-  } catch (e) {
-    return null;
-  }
-};
-
-export const clearFormulaFromStorage = (region: string) => {
-    try {
-    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
-    delete data[region];
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-  } catch (e) {
-    console.error("Clear formula failed", e);
-  }
-};
-
-export const getDefaultFormulaState = (region: string) => {
-    let rowLogic = ROW_TEMPLATES['General'];
-    let aggMethod: 'mean' | 'sum' | 'rmse' | 'custom' = 'rmse';
-
-    if (region === 'Northeast') {
-        rowLogic = ROW_TEMPLATES['Northeast'];
-        aggMethod = 'mean';
-    } else if (region === 'Shanxi') {
-        rowLogic = ROW_TEMPLATES['Shanxi'];
-        aggMethod = 'rmse';
-    } else {
-        // Northwest, South, East, Central default to General/RMSE for now
-        rowLogic = ROW_TEMPLATES['General'];
-        aggMethod = 'rmse';
-    }
-    return { rowLogic, aggMethod };
+// Row logic and aggregation declared by the region's rule
+export const getDefaultFormulaState = (region: string): { rowLogic: string, aggMethod: AggMethod, aggCode: string } => {
+    const rule = getRegionRule(region);
+    return { rowLogic: rule.rowLogic, aggMethod: rule.aggMethod, aggCode: rule.aggCode ?? '' };
 };
 
 
 // --- Pyodide Setup ---
-
-let pyodideInstance: any = null;
-
-declare global {
-  interface Window {
-    loadPyodide: any;
-  }
-}
+// Pyodide lives in a dedicated Web Worker (see pyodide.worker.ts); this only warms it up.
 
 export const initPyodide = async () => {
-  if (pyodideInstance) return pyodideInstance;
-  
-  if (typeof window.loadPyodide !== 'function') {
-    throw new Error('Pyodide script not loaded');
-  }
-
-  // Initialize Pyodide
-  pyodideInstance = await window.loadPyodide({
-    indexURL: "https://cdn.jsdelivr.net/pyodide/v0.23.4/full/"
-  });
-  
-  // Load Numpy explicitly as it is commonly used in custom logic
-  await pyodideInstance.loadPackage("numpy");
-  
-  return pyodideInstance;
+  await initPythonWorker();
 };
 
 // --- Helper: Generate Batch Script from Atomic Logic ---
 
-export const generateBatchScript = (
-    rowLogic: string, 
-    aggMethod: 'mean' | 'sum' | 'rmse' | 'custom',
-    region: string
-): string => {
-    // Prevent "UnboundLocalError: local variable 'np' referenced before assignment"
-    // This happens if user code imports numpy as np inside the function, making 'np' local,
-    // but we use 'np' in the boilerplate before the user code runs.
-    let cleanRowLogic = rowLogic;
-    
-    // Comment out 'import numpy as np' or 'import numpy' found in user logic
-    // We already import numpy as np at the top level of the generated script
-    cleanRowLogic = cleanRowLogic.replace(/^(\s*)(import\s+numpy(?:\s+as\s+np)?\s*;?\s*$)/gm, '$1# $2 # Pre-imported globally');
-
-    // Indent the user's row logic twice (for function body)
-    const indentedLogic = cleanRowLogic.split('\n').map(line => '        ' + line).join('\n');
+// Comment out 'import numpy as np' or 'import numpy' found in user code.
+// Prevents "UnboundLocalError: local variable 'np' referenced before assignment": the import would make
+// 'np' local inside the row function, but the boilerplate uses 'np' before the user code runs.
+// numpy is already imported as np at the top level of the generated script.
+const commentOutNumpyImport = (code: string): string => {
+    return code.replace(/^(\s*)(import\s+numpy(?:\s+as\s+np)?\s*;?\s*$)/gm, '$1# $2 # Pre-imported globally');
+};
 
+/**
+ * Python that folds `row_results` into the day's `result` for a built-in aggregation method.
+ * Also used to prefill the custom aggregation pane with the method it replaces.
+ */
+export const getAggregationCode = (aggMethod: AggMethod): string => {
     let aggregationCode = '';
     
     if (aggMethod === 'mean') {
@@ -147,56 +56,96 @@ export const generateBatchScript = (
 mean_val = np.mean(row_results)
 result = max(0, 1 - mean_val)`;
     } else if (aggMethod === 'rmse') {
-        if (region === 'Shanxi') {
-           // Shanxi special aggregation logic
-           // Note: This relies on global 'real' and 'fore' lists being available and intact
-           aggregationCode = `
-# Aggregation: 1 - Sqrt(Sum(Results))/Cap or similar
-# Assuming row_results contains Squared Errors or Weighted Squared Errors
-sum_val = sum(row_results)
-import math
-# Try to detect if it is weighted sum (Shanxi) or simple MSE
-if len(row_results) > 0:
-    mse = sum_val / len(row_results)
-    rmse_val = math.sqrt(mse)
-    result = max(0, 1 - (rmse_val / cap))
-else:
-    result = 1.0`;
-           // Override for Shanxi if the row logic was the template
-           if (rowLogic.includes('weight = abs(diff)')) {
-               aggregationCode = `
-# Shanxi Aggregation
-total_weight = sum([abs(r-f) for r,f in zip(real, fore)])
-if total_weight == 0:
-    result = 1.0
-else:
-    # row_results should contain (diff**2)*abs(diff)
-    weighted_sum = sum(row_results) / total_weight
-    import math
-    error = math.sqrt(weighted_sum) / cap
-    result = max(0, 1 - error)`;
-           }
-        } else {
-             // General RMSE
-             aggregationCode = `
+        aggregationCode = `
 # Aggregation: RMSE based
 # Assuming row_results are Squared Errors ((R-F)^2)
 mse = np.mean(row_results)
 import math
 rmse_val = math.sqrt(mse)
 result = max(0, 1 - (rmse_val / cap))`;
-        }
-    } else {
-        aggregationCode = `result = 0 # Custom aggregation not fully auto-generated`;
+    } else if (aggMethod === 'rms') {
+        aggregationCode = `
+# Aggregation: 1 - Sqrt(Mean(Results))
+# Assuming row_results are already normalised squared errors
+import math
+result = max(0, 1 - math.sqrt(np.mean(row_results))) if len(row_results) > 0 else 1.0`;
+    } else if (aggMethod === 'weighted') {
+        aggregationCode = `
+# Aggregation: error-weighted RMSE (Shanxi)
+# row_results should contain (diff**2)*abs(diff)
+import math
+total_weight = sum([abs(r-f) for r,f in zip(real, fore)])
+if total_weight == 0:
+    result = 1.0
+else:
+    weighted_sum = sum(row_results) / total_weight
+    result = max(0, 1 - math.sqrt(weighted_sum) / cap)`;
+    } else if (aggMethod === 'harmonic') {
+        aggregationCode = `
+# Aggregation: harmonic weighting (Northwest)
+# row_results should contain |R/(R+F)-0.5|*|R-F|, zero in the dead band
+_dead = cap * threshold
+p_sum = sum([abs(r-f) for r,f in zip(real, fore) if not (r < _dead and f < _dead)])
+if p_sum == 0:
+    result = 1.0
+else:
+    result = max(0, 1 - 2 * sum(row_results) / p_sum)`;
+    } else if (aggMethod === 'sum') {
+        aggregationCode = `
+# Aggregation: 1 - Sum(Results)
+result = max(0, 1 - sum(row_results))`;
     }
+    // 'custom' has no built-in code: generateBatchScript embeds the user's aggregation pane instead
+    return aggregationCode;
+};
+
+export const generateBatchScript = (
+    rowLogic: string, 
+    aggMethod: AggMethod,
+    aggCode: string = ''
+): string => {
+    const cleanRowLogic = commentOutNumpyImport(rowLogic);
+
+    // Indent the user's row logic twice (for function body)
+    const indentedLogic = cleanRowLogic.split('\n').map(line => '        ' + line).join('\n');
+
+    // Straight-line arithmetic can run once on whole-day numpy arrays instead of row by row
+    const vectorise = canVectoriseRowLogic(cleanRowLogic);
+    const vectorisedLogic = cleanRowLogic.split('\n').map(line => '    ' + line).join('\n');
+
+    const aggregationCode = aggMethod === 'custom'
+        ? `
+# Aggregation: custom code (row_results, real, fore, fore_list, cap, threshold -> result)
+${commentOutNumpyImport(aggCode)}`
+        : getAggregationCode(aggMethod);
 
     return `# Auto-Generated Batch Script
 import numpy as np
 
+_VECTORISE = ${vectorise ? 'True' : 'False'}
+
+def _calculate_vectorised(real, fore, cap, threshold):
+    # Same row logic, evaluated on whole-day arrays (real, fore are numpy arrays here)
+    result = 0.0
+    # --- User Row Logic Start ---
+${vectorisedLogic}
+    # --- User Row Logic End ---
+    return result
+
 def _calculate_batch(real_arr, fore_arr, fore_list_arr, cap, threshold):
     results = []
     count = len(real_arr)
 
+    if _VECTORISE and count > 0:
+        try:
+            # numpy only warns on x/0, 0/0 or a negative base to a fractional power and returns inf / nan,
+            # where the row loop raises (ZeroDivisionError, ...): raise instead and let the loop decide
+            with np.errstate(all='raise', under='ignore'):
+                vec = _calculate_vectorised(np.asarray(real_arr, dtype=float), np.asarray(fore_arr, dtype=float), cap, threshold)
+                return np.broadcast_to(np.asarray(vec, dtype=float), (count,)).tolist()
+        except Exception:
+            pass # FloatingPointError or anything else: fall back to the row-by-row loop below
+
     for i in range(count):
         # Context Variables (Scalars)
         # These local variables 'real', 'fore' do not overwrite the global lists
@@ -235,60 +184,61 @@ result
 `;
 };
 
-// --- Helper: Run Row Preview (Top 10) ---
+/**
+ * Whether row logic can be evaluated on whole-day numpy arrays with identical results.
+ * Only straight-line arithmetic qualifies: any control flow, per-row forecast list,
+ * or scalar-only builtin (min/max/round/float/int) forces the row-by-row loop.
+ */
+export const canVectoriseRowLogic = (rowLogic: string): boolean => {
+    const code = rowLogic
+        .split('\n')
+        .map(line => line.replace(/#.*$/, ''))
+        .filter(line => line.trim().length > 0);
+
+    if (code.length === 0) return false;
+    if (code.some(line => /^\s/.test(line))) return false; // Indented blocks imply control flow
+    if (code.some(line => /^\s*(if|elif|else|for|while|try|except|with|def|return|lambda)\b/.test(line))) return false;
+    if (code.some(line => /\b(if|else|and|or|not|lambda)\b/.test(line))) return false; // Inline conditionals / boolean ops
+    if (code.some(line => /\b(fore_list|min|max|round|float|int|bool|len|math)\b/.test(line))) return false;
+    if (code.some(line => /\bnp\.(mean|sum|median|std|var|average|min|max)\s*\(/.test(line))) return false; // Reductions change meaning
+    return code.some(line => /^\s*result\s*=/.test(line));
+};
+
+// --- Helper: Run Row Preview (per-row `result`, used by the editor sample and the day drill-down) ---
 
 export const runRowPreview = async (
     rowLogic: string,
     inputs: { real: number[], fore: number[], fore_list: number[][], cap: number, threshold: number }
-): Promise<(number | string)[]> => {
+): Promise<RowRunResult> => {
     try {
-        const py = await initPyodide();
-        
-        // Prepare a script that loops 10 times and returns a list of results
-        const script = `
-import numpy as np
-
-results = []
-cap = ${inputs.cap}
-threshold = ${inputs.threshold}
-
-real_arr = ${JSON.stringify(inputs.real)}
-fore_arr = ${JSON.stringify(inputs.fore)}
-fore_list_arr = ${JSON.stringify(inputs.fore_list)}
-
-for i in range(len(real_arr)):
-    # Setup Context
-    real = real_arr[i]
-    fore = fore_arr[i]
-    # Handle potentially empty/scalar fore_list logic safely
-    if i < len(fore_list_arr) and len(fore_list_arr[i]) > 0:
-        fore_list = np.array(fore_list_arr[i]) 
-    else:
-        fore_list = np.array([fore])
-    
-    # Reset result
-    result = None
-    
-    try:
-${rowLogic.split('\n').map(l => '        ' + l).join('\n')}
-        if result is None:
-            results.append("No Result")
-        else:
-            results.append(float(result))
-    except Exception as e:
-        results.append(f"Error: {str(e)}")
-
-results
-`;
-        const output = await py.runPythonAsync(script);
-        return output.toJs();
-        
+        // Every row runs in its own sandboxed namespace; errors carry the line within rowLogic
+        const rows = inputs.real.map((real, i) => ({ real, fore: inputs.fore[i], fore_list: inputs.fore_list[i] ?? [] }));
+        return await runRowLogic(rowLogic, rows, inputs.cap, inputs.threshold);
     } catch (e) {
         console.error("Preview Error", e);
         throw e;
     }
 };
 
+/**
+ * Maps a line of a script produced by generateBatchScript back to the pane it came from,
+ * so errors can be highlighted in the row logic or custom aggregation editor. Null for template lines.
+ */
+export const mapBatchLineToSource = (script: string, line: number): { pane: 'row' | 'agg', line: number } | null => {
+    const lines = script.split('\n');
+    const idx = line - 1;
+    // Row logic is embedded twice (vectorised and row-by-row), each between Start / End markers
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].includes('# --- User Row Logic Start ---')) continue;
+        const end = lines.findIndex((l, k) => k > i && l.includes('# --- User Row Logic End ---'));
+        if (idx > i && idx < end) return { pane: 'row', line: idx - i };
+    }
+    const aggStart = lines.findIndex(l => l.startsWith('# Aggregation: custom code'));
+    const aggEnd = lines.lastIndexOf('result');
+    if (aggStart >= 0 && idx > aggStart && idx < aggEnd) return { pane: 'agg', line: idx - aggStart };
+    return null;
+};
+
 // --- AI / Smart Parsing Logic ---
 
 export const aiGenerateFormula = (input: string): string => {
@@ -341,13 +291,14 @@ result = 0.0 # Initialize
 
 export const getFormulaDefaultCode = (region: string): string => {
   // Use the new helper to get default atomic logic, then generate full script
-  const { rowLogic, aggMethod } = getDefaultFormulaState(region);
-  return generateBatchScript(rowLogic, aggMethod, region);
+  const { rowLogic, aggMethod, aggCode } = getDefaultFormulaState(region);
+  return generateBatchScript(rowLogic, aggMethod, aggCode);
 };
 
 /**
  * Executes custom user-defined PYTHON code using Pyodide.
  * Now accepts fore_list (List of Lists) for matrix calculations.
+ * Runs in the Pyodide worker as a single-day batch; use runFormulaBatch for many days at once.
  */
 export const executeCustomFormula = async (
   code: string,
@@ -358,101 +309,32 @@ export const executeCustomFormula = async (
   foreRaw: number[][] = [] 
 ): Promise<number> => {
   try {
-    const py = await initPyodide();
-
-    // Set globals for Python context as JsProxies
-    py.globals.set("real_proxy", real);
-    py.globals.set("fore_proxy", fore); 
-    py.globals.set("fore_list_proxy", foreRaw);
-    py.globals.set("cap", cap);
-    py.globals.set("threshold", threshold);
-    
-    // Explicitly convert JsProxies to Python Lists/Arrays
-    // This fixes "TypeError: unsupported operand type(s) for /: 'pyodide.ffi.JsProxy' and 'int'"
-    // inside Numpy functions like mean()
-    py.runPython(`
-import numpy as np
-real = real_proxy.to_py()
-fore = fore_proxy.to_py()
-fore_list = fore_list_proxy.to_py()
-
-# Cleanup proxies from namespace (optional but good practice)
-del real_proxy
-del fore_proxy
-del fore_list_proxy
-`);
-    
-    // Initialize result in global scope
-    py.runPython("result = 0.0");
-
-    // Execute the code
-    const result = await py.runPythonAsync(code);
-
-    // Ensure result is a number
-    const numResult = Number(result);
-    if (isNaN(numResult)) return 0;
-    return numResult;
-
+    const { results, errorInfo } = await runFormulaBatch(code, [{ date: '', real, fore, foreRaw }], cap, threshold);
+    if (errorInfo) throw createPythonError(errorInfo);
+    return results[0]?.accuracy ?? 0;
   } catch (err) {
     console.error("Python Execution Error:", err);
     throw err;
-  } finally {
-      // Cleanup globals in finally block
-      if (pyodideInstance && pyodideInstance.globals) {
-          try { pyodideInstance.globals.delete("real"); } catch (e) {}
-          try { pyodideInstance.globals.delete("fore"); } catch (e) {}
-          try { pyodideInstance.globals.delete("fore_list"); } catch (e) {}
-          try { pyodideInstance.globals.delete("cap"); } catch (e) {}
-          try { pyodideInstance.globals.delete("threshold"); } catch (e) {}
-          try { pyodideInstance.globals.delete("real_proxy"); } catch (e) {}
-          try { pyodideInstance.globals.delete("fore_proxy"); } catch (e) {}
-          try { pyodideInstance.globals.delete("fore_list_proxy"); } catch (e) {}
-      }
   }
 };
 
 export const getFormulaInfo = (region: string) => {
-  switch (region) {
-    case 'Shanxi':
-      return {
-        name: '山西 (Shanxi) - 双细则',
-        desc: '基于误差权重的均方根偏差计算。',
-        formula: 'Accuracy = 1 - sqrt( sum((R-F)^2 * |R-F| / sum(|R-F|)) ) / Cap'
-      };
-    case 'Northwest':
-      return {
-        name: '西北 (Northwest) - 双细则',
-        desc: '引入死区概念的加权调和平均误差计算。',
-        formula: 'Accuracy = 1 - 2 * Σ ( | R/(R+F) - 0.5 | * ( |R-F| / Σ|R-F| ) )'
-      };
-    case 'Northeast':
-      return {
-        name: '东北 (Northeast)',
-        desc: '基于 RMSE 的考核公式，通常包含 10% 容量的死区豁免。',
-        formula: 'Accuracy = 1 - ( RMSE / Cap )'
-      };
-    case 'South':
-      return {
-        name: '南方 (South)',
-        desc: '分段归一化误差计算 (20% Cap 分界)。',
-        formula: 'Accuracy = 1 - sqrt( Mean( ((R-F)/Ref)^2 ) )'
-      };
-    default:
-      return {
-        name: '通用 RMSE (General)',
-        desc: '标准均方根误差计算。',
-        formula: 'Accuracy = 1 - ( RMSE / Cap )'
-      };
-  }
+  const { title, desc, formula } = getRegionRule(region).explainer;
+  return { name: title, desc, formula };
 };
 
-// --- NEW: Gemini AI Generation ---
+// --- AI Generation ---
 
-export const generateFormulaWithAI = async (prompt: string, region: string): Promise<string> => {
+/**
+ * Asks the configured LLM provider (see llmProvider.ts) for row logic. With `repair`, the previous attempt
+ * and the problems found when running it are sent back as a follow-up turn so the model can fix its own code.
+ */
+export const generateFormulaWithAI = async (
+  prompt: string,
+  region: string,
+  repair?: { code: string, feedback: string }
+): Promise<string> => {
   try {
-    // API Key must be in process.env.API_KEY
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-
     const systemInstruction = `You are a Python coding assistant for a power plant accuracy analysis tool.
 Your goal is to translate natural language logic into a Python code snippet that calculates a specific metric for a single row of data.
 
@@ -482,22 +364,26 @@ else:
     result = (real - fore) ** 2
 `;
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        temperature: 0.2, // Low temperature for deterministic code
-      }
+    const messages: LlmMessage[] = repair
+      ? [
+          { role: 'user', content: prompt },
+          { role: 'assistant', content: repair.code },
+          { role: 'user', content: repair.feedback }
+        ]
+      : [{ role: 'user', content: prompt }];
+
+    const text = await generateText({
+      system: systemInstruction,
+      messages,
+      temperature: 0.2 // Low temperature for deterministic code
     });
 
-    let code = response.text || "";
     // Clean up code blocks if the model ignores instructions
-    code = code.replace(/```python/g, '').replace(/```/g, '').trim();
+    const code = text.replace(/```python/g, '').replace(/```/g, '').trim();
     return code;
 
-  } catch (error) {
+  } catch (error: any) {
     console.error("AI Generation Error:", error);
-    throw new Error("AI 生成失败，请检查 API Key 配置或网络连接。");
+    throw new Error(`AI 生成失败：${error.message}`);
   }
 };
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { HandCalculator } from '../types';
+import { mean, sum } from './mathUtils';
+
+// --- Step-by-Step Hand Calculations ---
+// The formula explainer's per-interval columns for each built-in rule (`RegionRule.explainer.handCalc`).
+// Derived independently of nativeFormulas.ts so the explainer can reconcile it against the formula engine.
+// Imported rules have none; the explainer shows their own Python row results instead.
+
+const isDeadBand = (r: number, f: number, thresholdVal: number) => r < thresholdVal && f < thresholdVal;
+
+// Shanxi: (R-F)^2 * |R-F| / Σ|R-F|
+export const explainShanxi: HandCalculator = (real, fore, cap) => {
+  const diffs = real.map((r, i) => r - fore[i]);
+  const totalAbsDiff = sum(diffs.map(Math.abs));
+  const weighted = diffs.map(diff => totalAbsDiff === 0 ? 0 : Math.pow(diff, 2) * Math.abs(diff) / totalAbsDiff);
+  const sumWeighted = sum(weighted);
+
+  return {
+    columns: [
+      { label: 'Diff (R-F)', digits: 2 },
+      { label: '|Diff|', digits: 2 },
+      { label: 'Sq.Err (D²)', digits: 2 },
+      { label: 'Weighted Sq.Err', digits: 4 }
+    ],
+    rows: diffs.map((diff, i) => ({ values: [diff, Math.abs(diff), Math.pow(diff, 2), weighted[i]] })),
+    summary: [`Sum |Diff|: ${totalAbsDiff.toFixed(2)}`, `Sum Weighted: ${sumWeighted.toFixed(4)}`],
+    accuracy: totalAbsDiff === 0 ? 1 : Math.max(0, 1 - Math.sqrt(sumWeighted) / cap)
+  };
+};
+
+// Northwest: | R/(R+F) - 0.5 | * |R-F| / Σ|R-F|, Σ over the intervals outside the dead band
+export const explainNorthwest: HandCalculator = (real, fore, cap, threshold) => {
+  const thresholdVal = cap * threshold;
+  const exempt = real.map((r, i) => isDeadBand(r, fore[i], thresholdVal));
+  const pSum = sum(real.map((r, i) => exempt[i] ? 0 : Math.abs(r - fore[i])));
+
+  const rows = real.map((r, i) => {
+    if (exempt[i]) return { values: [null, null, 0], exempt: true };
+    const f = fore[i];
+    const denom = r + f;
+    const term1 = denom === 0 ? 0 : Math.abs((r / denom) - 0.5);
+    const term2 = pSum === 0 ? 0 : Math.abs(r - f) / pSum;
+    return { values: [term1, term2, term1 * term2] };
+  });
+  const total = sum(rows.map(row => row.values[2] as number));
+
+  return {
+    columns: [
+      { label: 'Term 1: |R/(R+F)-0.5|', digits: 4 },
+      { label: 'Term 2: |R-F|/Σ', digits: 4 },
+      { label: 'Step Value', digits: 6 }
+    ],
+    rows,
+    summary: [`Σ|R-F| (有效点): ${pSum.toFixed(2)}`, `Acc = 1 - 2 × ${total.toFixed(6)}`],
+    accuracy: pSum === 0 ? 1 : Math.max(0, 1 - 2 * total)
+  };
+};
+
+// Northeast: 1 - RMSE / Cap; dead-band intervals contribute zero error but still count towards N
+export const explainNortheast: HandCalculator = (real, fore, cap, threshold) => {
+  const thresholdVal = cap * threshold;
+  const rows = real.map((r, i) => {
+    const f = fore[i];
+    if (isDeadBand(r, f, thresholdVal)) return { values: [null, 0], exempt: true };
+    return { values: [r - f, Math.pow(r - f, 2)] };
+  });
+  const sumSqError = sum(rows.map(row => row.values[1] as number));
+  const rmseVal = real.length === 0 ? 0 : Math.sqrt(sumSqError / real.length);
+
+  return {
+    columns: [
+      { label: 'Diff (R-F)', digits: 2 },
+      { label: 'Sq.Error (D²)', digits: 2 }
+    ],
+    rows,
+    summary: [
+      `Count: ${real.length}`,
+      `RMSE = √(${sumSqError.toFixed(2)} / ${real.length}) = ${rmseVal.toFixed(4)}`,
+      `Acc = 1 - (RMSE / ${cap})`
+    ],
+    accuracy: Math.max(0, 1 - rmseVal / cap)
+  };
+};
+
+// South: ((R-F)/Ref)^2 with Ref = max(R, 20% Cap)
+export const explainSouth: HandCalculator = (real, fore, cap) => {
+  const lowBound = cap * 0.2;
+  const rows = real.map((r, i) => {
+    const ref = r < lowBound ? lowBound : r;
+    const norm = ref === 0 ? 0 : (r - fore[i]) / ref;
+    return { values: [ref, norm, Math.pow(norm, 2)], ...(r < lowBound ? { marked: [0] } : {}) };
+  });
+
+  return {
+    columns: [
+      { label: 'Ref', digits: 2 },
+      { label: '(R-F)/Ref', digits: 4 },
+      { label: 'Sq.Norm.Err', digits: 6 }
+    ],
+    rows,
+    summary: [],
+    accuracy: Math.max(0, 1 - Math.sqrt(mean(rows.map(row => row.values[2] as number))))
+  };
+};
+
+// East: ((R-F)/Cap)^2, root-mean-square
+export const explainEast: HandCalculator = (real, fore, cap) => {
+  const norms = real.map((r, i) => (r - fore[i]) / cap);
+  return {
+    columns: [
+      { label: '(R-F)/Cap', digits: 4 },
+      { label: 'Sq.Norm.Err', digits: 6 }
+    ],
+    rows: norms.map(norm => ({ values: [norm, Math.pow(norm, 2)] })),
+    summary: [],
+    accuracy: Math.max(0, 1 - Math.sqrt(mean(norms.map(norm => Math.pow(norm, 2)))))
+  };
+};
+
+// Central: |R-F|/Cap, mean
+export const explainCentral: HandCalculator = (real, fore, cap) => {
+  const norms = real.map((r, i) => (r - fore[i]) / cap);
+  return {
+    columns: [
+      { label: '(R-F)/Cap', digits: 4 },
+      { label: 'Abs.Norm.Err', digits: 6 }
+    ],
+    rows: norms.map(norm => ({ values: [norm, Math.abs(norm)] })),
+    summary: [],
+    accuracy: Math.max(0, 1 - mean(norms.map(Math.abs)))
+  };
+};
+
+// General: (R-F)^2, 1 - RMSE / Cap
+export const explainGeneral: HandCalculator = (real, fore, cap) => {
+  const diffs = real.map((r, i) => r - fore[i]);
+  return {
+    columns: [
+      { label: 'Diff (R-F)', digits: 2 },
+      { label: 'Sq.Error (R-F)²', digits: 2 }
+    ],
+    rows: diffs.map(diff => ({ values: [diff, Math.pow(diff, 2)] })),
+    summary: [],
+    accuracy: Math.max(0, 1 - Math.sqrt(mean(diffs.map(diff => Math.pow(diff, 2)))) / cap)
+  };
+};
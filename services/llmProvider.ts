@@ -0,0 +1,119 @@
+// --- LLM provider abstraction ---
+// The browser never talks to a model directly: requests go to the backend (server.py), which holds
+// the API keys and forwards them to Gemini or an OpenAI-compatible endpoint (vLLM, Ollama, ...).
+
+export type LlmProvider = 'gemini' | 'openai' | 'disabled';
+
+export interface LlmSettings {
+  provider: LlmProvider;
+  backendUrl: string; // Same base as the server file browser, e.g. http://host:8000/api
+  model: string; // Empty = the backend's default for the provider
+  endpoint: string; // OpenAI-compatible base URL (…/v1); must be allowed by the backend
+}
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  system: string;
+  messages: LlmMessage[];
+  temperature?: number;
+}
+
+// What the backend reports about its configuration (GET /llm/status)
+export interface LlmBackendStatus {
+  gemini: { configured: boolean, defaultModel: string };
+  openai: { endpoints: string[], defaultModel: string };
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProvider, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 兼容接口 (vLLM / Ollama)',
+  disabled: '关闭 AI 功能'
+};
+
+const SETTINGS_KEY = 'powersight_llm_settings_v1';
+
+const defaultBackendUrl = () =>
+  typeof window === 'undefined' ? 'http://localhost:8000/api' : `http://${window.location.hostname}:8000/api`;
+
+export const getDefaultLlmSettings = (): LlmSettings => ({
+  provider: 'gemini',
+  backendUrl: defaultBackendUrl(),
+  model: '',
+  endpoint: ''
+});
+
+export const getLlmSettings = (): LlmSettings => {
+  try {
+    return { ...getDefaultLlmSettings(), ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch (e) {
+    return getDefaultLlmSettings();
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const isAiEnabled = (settings: LlmSettings = getLlmSettings()) => settings.provider !== 'disabled';
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+// FastAPI's `detail` is a string for HTTPException, but a list of { loc, msg } entries for 422 validation errors
+const formatErrorDetail = (detail: any): string => {
+  if (!Array.isArray(detail)) return typeof detail === 'string' ? detail : JSON.stringify(detail);
+  return detail.map(entry => {
+    const loc = Array.isArray(entry?.loc) ? entry.loc.filter((part: any) => part !== 'body').join('.') : '';
+    const msg = entry?.msg ?? JSON.stringify(entry);
+    return loc ? `${loc}: ${msg}` : msg;
+  }).join('; ');
+};
+
+// Turns fetch/HTTP failures into the Chinese messages shown in the UI
+const requestBackend = async <T>(settings: LlmSettings, path: string, init?: RequestInit): Promise<T> => {
+  const base = trimSlash(settings.backendUrl);
+  let response: Response;
+  try {
+    response = await fetch(`${base}${path}`, init);
+  } catch (err) {
+    throw new Error(`无法连接后端 ${base}，请确认 server.py 已启动。`);
+  }
+  if (!response.ok) {
+    let detail = response.statusText;
+    try {
+      const body = await response.json();
+      if (body?.detail !== undefined) detail = formatErrorDetail(body.detail);
+    } catch (e) {
+      // Non-JSON error body
+    }
+    throw new Error(`AI 服务错误 (${response.status}): ${detail}`);
+  }
+  return response.json();
+};
+
+export const fetchLlmBackendStatus = (settings: LlmSettings = getLlmSettings()) =>
+  requestBackend<LlmBackendStatus>(settings, '/llm/status');
+
+/**
+ * Sends one chat request through the backend with the saved provider settings and returns the reply text.
+ */
+export const generateText = async (request: LlmRequest, settings: LlmSettings = getLlmSettings()): Promise<string> => {
+  if (!isAiEnabled(settings)) throw new Error('AI 功能已关闭，请在 AI 设置中选择模型服务。');
+
+  const data = await requestBackend<{ text: string }>(settings, '/llm/generate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      provider: settings.provider,
+      model: settings.model.trim() || null,
+      endpoint: settings.provider === 'openai' ? trimSlash(settings.endpoint) || null : null,
+      system: request.system,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.2
+    })
+  });
+  return data.text ?? '';
+};
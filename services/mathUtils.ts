@@ -20,3 +20,10 @@ export const mae = (real: number[], fore: number[]): number => {
   const absDiffs = real.map((r, i) => Math.abs(r - fore[i]));
   return mean(absDiffs);
 };
+
+export const median = (arr: number[]): number => {
+  if (arr.length === 0) return 0;
+  const sorted = [...arr].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
@@ -0,0 +1,112 @@
+import { NativeEvaluator, RegionRule } from '../types';
+import { mean, sum } from './mathUtils';
+
+// --- Native (Pure TypeScript) Regional Evaluators ---
+// These mirror the built-in rules in regionRules.ts, which reference them as `RegionRule.native`, so the
+// default calculation does not depend on Pyodide being reachable (air-gapped intranets).
+// Imported rules have no native evaluator and always run on the Python engine.
+
+// Shanxi: Accuracy = 1 - sqrt( sum((R-F)^2 * |R-F| / sum(|R-F|)) ) / Cap
+export const evaluateShanxi: NativeEvaluator = (real, fore, cap) => {
+  const absDiffs = real.map((r, i) => Math.abs(r - fore[i]));
+  const totalWeight = sum(absDiffs);
+  if (totalWeight === 0) return 1.0;
+
+  const weightedSum = sum(absDiffs.map(d => (d ** 2) * d)) / totalWeight;
+  const error = Math.sqrt(weightedSum) / cap;
+  return Math.max(0, 1 - error);
+};
+
+// Northwest: Accuracy = 1 - 2 * Σ ( |R/(R+F) - 0.5| * (|R-F| / Σ|R-F|) )
+// Points where both R and F are below threshold * Cap are exempt (dead band).
+export const evaluateNorthwest: NativeEvaluator = (real, fore, cap, threshold) => {
+  const thresholdVal = cap * threshold;
+  const validIdx = real
+    .map((_, i) => i)
+    .filter(i => !(real[i] < thresholdVal && fore[i] < thresholdVal));
+
+  const pSum = sum(validIdx.map(i => Math.abs(real[i] - fore[i])));
+  if (pSum === 0) return 1.0;
+
+  const total = sum(validIdx.map(i => {
+    const r = real[i];
+    const f = fore[i];
+    const denom = r + f;
+    const term1 = denom === 0 ? 0 : Math.abs((r / denom) - 0.5);
+    const term2 = Math.abs(r - f) / pSum;
+    return term1 * term2;
+  }));
+  return Math.max(0, 1 - 2 * total);
+};
+
+// Northeast: Accuracy = 1 - RMSE / Cap
+// Dead-band points (R and F both below threshold * Cap) contribute zero error but still count towards N.
+export const evaluateNortheast: NativeEvaluator = (real, fore, cap, threshold) => {
+  if (real.length === 0) return 1.0;
+  const thresholdVal = cap * threshold;
+
+  const sqErrors = real.map((r, i) => {
+    const f = fore[i];
+    if (r < thresholdVal && f < thresholdVal) return 0;
+    return (r - f) ** 2;
+  });
+  const rmseVal = Math.sqrt(mean(sqErrors));
+  return Math.max(0, 1 - (rmseVal / cap));
+};
+
+// South: Accuracy = 1 - sqrt( Mean( ((R-F)/Ref)^2 ) )
+// Piecewise normalisation: Ref = 20% Cap when R is below 20% Cap, otherwise Ref = R.
+export const evaluateSouth: NativeEvaluator = (real, fore, cap) => {
+  if (real.length === 0) return 1.0;
+  const lowBound = cap * 0.2;
+
+  const normSqErrors = real.map((r, i) => {
+    const ref = r < lowBound ? lowBound : r;
+    if (ref === 0) return 0;
+    return ((r - fore[i]) / ref) ** 2;
+  });
+  const error = Math.sqrt(mean(normSqErrors));
+  return Math.max(0, 1 - error);
+};
+
+// East: Accuracy = 1 - sqrt( Mean( ((R-F)/Cap)^2 ) )
+export const evaluateEast: NativeEvaluator = (real, fore, cap) => {
+  if (real.length === 0) return 1.0;
+  const normSqErrors = real.map((r, i) => ((r - fore[i]) / cap) ** 2);
+  const error = Math.sqrt(mean(normSqErrors));
+  return Math.max(0, 1 - error);
+};
+
+// Central: Accuracy = 1 - Mean( |R-F| / Cap )
+export const evaluateCentral: NativeEvaluator = (real, fore, cap) => {
+  if (real.length === 0) return 1.0;
+  const normAbsErrors = real.map((r, i) => Math.abs(r - fore[i]) / cap);
+  return Math.max(0, 1 - mean(normAbsErrors));
+};
+
+// General: Accuracy = 1 - RMSE / Cap
+export const evaluateGeneral: NativeEvaluator = (real, fore, cap) => {
+  if (real.length === 0) return 1.0;
+  const sqErrors = real.map((r, i) => (r - fore[i]) ** 2);
+  const rmseVal = Math.sqrt(mean(sqErrors));
+  return Math.max(0, 1 - (rmseVal / cap));
+};
+
+export const hasNativeEvaluator = (rule: RegionRule): boolean => rule.native !== undefined;
+
+/**
+ * Evaluates a day's accuracy with the rule's built-in TypeScript evaluator (plain RMSE when it has none).
+ * Same argument order as executeCustomFormula, but synchronous and Pyodide-free.
+ */
+export const executeNativeFormula = (
+  rule: RegionRule,
+  real: number[],
+  fore: number[],
+  cap: number,
+  threshold: number,
+  foreRaw: number[][] = []
+): number => {
+  const evaluator = rule.native ?? evaluateGeneral;
+  const result = evaluator(real, fore, cap, threshold, foreRaw);
+  return isNaN(result) ? 0 : result;
+};
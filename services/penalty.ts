@@ -0,0 +1,32 @@
+import { DailyResult, PenaltyModel, Region } from '../types';
+import { sum } from './mathUtils';
+import { getRegionRule } from './regionRules';
+
+// --- "双细则" Assessment: daily accuracy -> assessed energy -> fee ---
+
+// Starting points come from the region rule; local rules differ by province and year, so every field is editable in the UI
+export const getDefaultPenaltyModel = (region: Region): PenaltyModel => ({ ...getRegionRule(region).penalty });
+
+export const computeDailyPenalty = (accuracy: number, cap: number, model: PenaltyModel) => {
+  const shortfall = Math.max(0, model.passLine - accuracy);
+  const mwh = shortfall * cap * model.coefficient;
+  return { mwh, fee: mwh * model.pointsPerMwh * model.pricePerPoint };
+};
+
+/**
+ * Attaches penaltyMwh / penaltyFee to every day.
+ */
+export const applyPenaltyModel = (results: DailyResult[], cap: number, model: PenaltyModel): DailyResult[] => {
+  return results.map(r => {
+    const { mwh, fee } = computeDailyPenalty(r.accuracy, cap, model);
+    return { ...r, penaltyMwh: mwh, penaltyFee: fee };
+  });
+};
+
+export const totalPenalty = (results: DailyResult[]) => ({
+  mwh: sum(results.map(r => r.penaltyMwh ?? 0)),
+  fee: sum(results.map(r => r.penaltyFee ?? 0)),
+  assessedDays: results.filter(r => (r.penaltyMwh ?? 0) > 0).length
+});
+
+export const formatFee = (fee: number) => fee.toLocaleString('zh-CN', { maximumFractionDigits: 2, minimumFractionDigits: 2 });
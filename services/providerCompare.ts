@@ -0,0 +1,77 @@
+import { ProviderResult } from '../types';
+import { BatchDayInput } from './workerProtocol';
+import { mean } from './mathUtils';
+
+// --- Per-Forecast-Provider Comparison (each forecast column scored on its own) ---
+
+export interface ProviderDays {
+  name: string;
+  days: BatchDayInput[];
+}
+
+export interface ProviderLeaderboardEntry {
+  name: string;
+  isEnsemble: boolean;
+  days: number;
+  meanAccuracy: number;
+  minAccuracy: number;
+  meanRmse: number;
+  wins: number; // Days on which this provider had the best accuracy among the individual providers
+}
+
+/**
+ * Re-slices the grouped days so that fore/foreRaw hold a single forecast column each.
+ */
+export const splitDaysByProvider = (days: BatchDayInput[], foreCols: string[]): ProviderDays[] => {
+  return foreCols.map((name, idx) => ({
+    name,
+    days: days.map(day => {
+      const fore = day.foreRaw.map(row => row[idx]);
+      return { ...day, fore, foreRaw: fore.map(v => [v]) };
+    })
+  }));
+};
+
+// Winner per date among the individual providers (the ensemble does not compete)
+export const dailyWinners = (providers: ProviderResult[]): Record<string, string> => {
+  const best: Record<string, { name: string, accuracy: number }> = {};
+  providers.filter(p => !p.isEnsemble).forEach(p => {
+    p.daily.forEach(d => {
+      if (!best[d.date] || d.accuracy > best[d.date].accuracy) best[d.date] = { name: p.name, accuracy: d.accuracy };
+    });
+  });
+
+  const winners: Record<string, string> = {};
+  Object.keys(best).forEach(date => { winners[date] = best[date].name; });
+  return winners;
+};
+
+export const buildProviderLeaderboard = (providers: ProviderResult[]): ProviderLeaderboardEntry[] => {
+  const winners = Object.values(dailyWinners(providers));
+  return providers
+    .filter(p => p.daily.length > 0)
+    .map(p => {
+      const accuracies = p.daily.map(d => d.accuracy);
+      return {
+        name: p.name,
+        isEnsemble: p.isEnsemble,
+        days: p.daily.length,
+        meanAccuracy: mean(accuracies),
+        minAccuracy: Math.min(...accuracies),
+        meanRmse: mean(p.daily.map(d => d.rmse)),
+        wins: p.isEnsemble ? 0 : winners.filter(w => w === p.name).length
+      };
+    })
+    .sort((a, b) => b.meanAccuracy - a.meanAccuracy);
+};
+
+/**
+ * Daily accuracy difference A - B (percentage points) on the dates both providers were scored.
+ */
+export const pairwiseDifference = (a: ProviderResult, b: ProviderResult): { date: string, diffPct: number }[] => {
+  const other: Record<string, number> = {};
+  b.daily.forEach(d => { other[d.date] = d.accuracy; });
+  return a.daily
+    .filter(d => other[d.date] !== undefined)
+    .map(d => ({ date: d.date, diffPct: parseFloat(((d.accuracy - other[d.date]) * 100).toFixed(2)) }));
+};
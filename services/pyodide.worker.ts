@@ -0,0 +1,262 @@
+import type { WorkerRequest, WorkerResponse } from './workerProtocol';
+
+// Dedicated worker that owns the Pyodide runtime so Python never blocks the UI thread.
+
+const PYODIDE_INDEX_URL = 'https://cdn.jsdelivr.net/pyodide/v0.23.4/full/';
+
+const ctx: Worker = self as any;
+
+let pyodideInstance: any = null;
+
+const post = (msg: WorkerResponse) => ctx.postMessage(msg);
+
+const initPyodide = async () => {
+  if (pyodideInstance) return pyodideInstance;
+
+  const { loadPyodide } = await import(/* @vite-ignore */ `${PYODIDE_INDEX_URL}pyodide.mjs`);
+  pyodideInstance = await loadPyodide({ indexURL: PYODIDE_INDEX_URL });
+
+  // Load Numpy explicitly as it is commonly used in custom logic
+  await pyodideInstance.loadPackage("numpy");
+
+  return pyodideInstance;
+};
+
+// Sandbox shared by every driver. User code is compiled as '<formula>' and executed in a fresh
+// namespace whose builtins route imports through a blocklist (js, pyodide, ...) and drop exec/eval/open.
+// This keeps formulas away from the JS bridge by accident or by a naive attempt; it is not a hard
+// security boundary, which is why the main thread can still kill the whole worker on a timeout.
+const SANDBOX_PRELUDE = `
+import builtins as _builtins
+import math
+import tracemalloc as _tracemalloc
+import numpy as np
+
+_blocked = set(_blocked_proxy.to_py())
+_max_bytes = int(_max_memory_mb * 1024 * 1024)
+_real_import = _builtins.__import__
+
+def _guarded_import(name, globals=None, locals=None, fromlist=(), level=0):
+    _root = name.split('.')[0]
+    if level == 0 and _root in _blocked:
+        raise ImportError(f"公式沙箱禁止导入模块 '{_root}'")
+    return _real_import(name, globals, locals, fromlist, level)
+
+_safe_builtins = dict(_builtins.__dict__)
+_safe_builtins['__import__'] = _guarded_import
+for _name in ('exec', 'eval', 'compile', 'open', 'input', 'breakpoint', 'exit', 'quit'):
+    _safe_builtins.pop(_name, None)
+
+def _fresh_namespace(**values):
+    _ns = {'__builtins__': _safe_builtins, '__name__': '__formula__'}
+    _ns.update(values)
+    return _ns
+
+def _error_info(exc):
+    if isinstance(exc, SyntaxError):
+        return {'type': type(exc).__name__, 'message': str(exc.msg), 'line': exc.lineno if exc.filename == '<formula>' else None}
+    # Innermost frame of the user's code
+    _line = None
+    _tb = exc.__traceback__
+    while _tb is not None:
+        if _tb.tb_frame.f_code.co_filename == '<formula>':
+            _line = _tb.tb_lineno
+        _tb = _tb.tb_next
+    return {'type': type(exc).__name__, 'message': str(exc), 'line': _line}
+
+# Tracing slows every allocation, so it is on only while a driver with a memory limit runs (started once
+# here, stopped at the end of the driver); a driver that died mid-loop leaves it to the next one to turn off
+if _max_bytes:
+    _tracemalloc.start()
+elif _tracemalloc.is_tracing():
+    _tracemalloc.stop()
+
+def _run_guarded(code_obj, ns):
+    # Post-run report: the peak is read once the day / row returns, so one run can go over the limit before
+    # it is reported. A runaway allocation inside a single run is stopped by the timeout, not by this check.
+    if _max_bytes:
+        _tracemalloc.reset_peak()
+    exec(code_obj, ns)
+    if _max_bytes:
+        _peak = _tracemalloc.get_traced_memory()[1]
+        if _peak > _max_bytes:
+            raise MemoryError(f"内存峰值 {_peak / 1048576:.1f} MB 超过限制 {_max_bytes / 1048576:.0f} MB")
+`;
+
+// Runs the user's batch script once per day inside a single Python call.
+// The dataset is converted from JS once; each day gets a fresh namespace with
+// real / fore / fore_list as plain lists, exactly as the script expects.
+const BATCH_DRIVER = `${SANDBOX_PRELUDE}
+_real_all = np.asarray(_real_proxy.to_py(), dtype=float)
+_fore_all = np.asarray(_fore_proxy.to_py(), dtype=float)
+_fore_list_all = _fore_list_proxy.to_py()
+_days = _days_proxy.to_py()
+
+_out = []
+_error = None
+_failed_date = None
+
+try:
+    _code_obj = compile(_user_code, '<formula>', 'exec')
+except SyntaxError as _exc:
+    _error = _error_info(_exc)
+    _failed_date = _days[0][0] if _days else None
+    _days = []
+
+for _date, _s, _e in _days:
+    _s, _e = int(_s), int(_e)
+    _real = _real_all[_s:_e]
+    _fore = _fore_all[_s:_e]
+    _ns = _fresh_namespace(
+        real=_real.tolist(),
+        fore=_fore.tolist(),
+        fore_list=_fore_list_all[_s:_e],
+        cap=_cap,
+        threshold=_threshold,
+        result=0.0,
+    )
+    try:
+        _run_guarded(_code_obj, _ns)
+        _acc = float(_ns.get('result', 0.0))
+    except Exception as _exc:
+        _error = _error_info(_exc)
+        _failed_date = _date
+        break
+    if math.isnan(_acc):
+        _acc = 0.0
+
+    _diff = _real - _fore
+    _n = len(_real)
+    _day = {
+        'date': _date,
+        'accuracy': _acc,
+        'mae': float(np.mean(np.abs(_diff))) if _n else 0.0,
+        'rmse': float(np.sqrt(np.mean(_diff ** 2))) if _n else 0.0,
+        'avgReal': float(np.mean(_real)) if _n else 0.0,
+        'avgFore': float(np.mean(_fore)) if _n else 0.0,
+    }
+    _out.append(_day)
+    _report_progress(len(_out), len(_days), _date, _day['accuracy'], _day['mae'], _day['rmse'], _day['avgReal'], _day['avgFore'])
+
+_tracemalloc.stop()
+{'results': _out, 'error': _error, 'failedDate': _failed_date}
+`;
+
+// Runs per-row logic once per row (scalars real / fore, fore_list as a numpy array), each row in a
+// fresh namespace. A failing row records its error and the next row still runs.
+const ROWS_DRIVER = `${SANDBOX_PRELUDE}
+_rows = _rows_proxy.to_py()
+
+_values = []
+_errors = []
+_compile_error = None
+
+try:
+    _code_obj = compile(_user_code, '<formula>', 'exec')
+except SyntaxError as _exc:
+    _compile_error = _error_info(_exc)
+    _rows = []
+
+for _real, _fore, _fl in _rows:
+    _ns = _fresh_namespace(
+        np=np,
+        real=_real,
+        fore=_fore,
+        fore_list=np.array(_fl if len(_fl) > 0 else [_fore]),
+        cap=_cap,
+        threshold=_threshold,
+        result=None,
+    )
+    try:
+        _run_guarded(_code_obj, _ns)
+        _r = _ns.get('result')
+        _values.append("No Result" if _r is None else float(_r))
+        _errors.append(None)
+    except Exception as _exc:
+        _info = _error_info(_exc)
+        _values.append(f"Error: {_info['message']}")
+        _errors.append(_info)
+
+_tracemalloc.stop()
+{'values': _values, 'errors': _errors, 'compileError': _compile_error}
+`;
+
+// Runs a driver in its own globals dict, so nothing survives into the next request
+const runIsolated = async (py: any, driver: string, values: Record<string, any>) => {
+  const ns = py.globals.get('dict')();
+  try {
+    Object.entries(values).forEach(([key, value]) => ns.set(key, value));
+    const output = await py.runPythonAsync(driver, { globals: ns });
+    const out = output.toJs({ dict_converter: Object.fromEntries });
+    output.destroy();
+    return out;
+  } finally {
+    ns.destroy();
+  }
+};
+
+const handleMessage = async (msg: WorkerRequest) => {
+  try {
+    switch (msg.type) {
+      case 'init': {
+        await initPyodide();
+        post({ type: 'ready', id: msg.id });
+        break;
+      }
+      case 'rows': {
+        const py = await initPyodide();
+        post({ type: 'started', id: msg.id });
+        const out = await runIsolated(py, ROWS_DRIVER, {
+          _rows_proxy: msg.rows.map(r => [r.real, r.fore, r.fore_list]),
+          _user_code: msg.code,
+          _cap: msg.cap,
+          _threshold: msg.threshold,
+          _max_memory_mb: msg.guards.maxMemoryMb,
+          _blocked_proxy: msg.guards.blockedModules
+        });
+        // Python None arrives as undefined
+        post({
+          type: 'rowsDone',
+          id: msg.id,
+          values: out.values,
+          errors: out.errors.map((e: any) => e ?? null),
+          compileError: out.compileError ?? null
+        });
+        break;
+      }
+      case 'batch': {
+        const py = await initPyodide();
+        const { dataset } = msg;
+        post({ type: 'started', id: msg.id });
+        const out = await runIsolated(py, BATCH_DRIVER, {
+          _real_proxy: dataset.real,
+          _fore_proxy: dataset.fore,
+          _fore_list_proxy: dataset.foreRaw,
+          // Plain JS objects stay JsProxies in to_py(), so send boundaries as [date, start, end] tuples
+          _days_proxy: dataset.days.map(d => [d.date, d.start, d.end]),
+          _user_code: msg.code,
+          _cap: msg.cap,
+          _threshold: msg.threshold,
+          _max_memory_mb: msg.guards.maxMemoryMb,
+          _blocked_proxy: msg.guards.blockedModules,
+          // Scalars only, so nothing has to be converted from a PyProxy
+          _report_progress: (done: number, total: number, date: string, accuracy: number, mae: number, rmse: number, avgReal: number, avgFore: number) => {
+            post({ type: 'progress', id: msg.id, done, total, date, result: { date, accuracy, mae, rmse, avgReal, avgFore } });
+          }
+        });
+        post({ type: 'batchDone', id: msg.id, results: out.results, error: out.error ?? null, failedDate: out.failedDate ?? null });
+        break;
+      }
+    }
+  } catch (err: any) {
+    post({ type: 'error', id: msg.id, message: String(err?.message ?? err) });
+  }
+};
+
+// Requests share one interpreter (and its globals), so they are processed strictly in order
+let queue: Promise<void> = Promise.resolve();
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const msg = event.data;
+  queue = queue.then(() => handleMessage(msg));
+};
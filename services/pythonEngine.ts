@@ -0,0 +1,285 @@
+import type { WorkerRequest, WorkerResponse, BatchDayInput, BatchDataset, BatchDailyResult, RowInput, SandboxGuards, PythonErrorInfo } from './workerProtocol';
+
+// --- Main-thread client for the Pyodide worker ---
+
+export interface BatchProgress {
+  done: number;
+  total: number;
+  date: string;
+}
+
+export interface BatchRunResult {
+  results: BatchDailyResult[];
+  error: string | null;
+  errorInfo: PythonErrorInfo | null; // Same failure, with exception type and line for the editor
+  failedDate: string | null;
+  cancelled: boolean; // Stopped by the caller's signal; `results` holds the days finished before that
+}
+
+export interface RowRunResult {
+  values: (number | string)[]; // Per-row result, "No Result" or "Error: ..."
+  errors: (PythonErrorInfo | null)[];
+}
+
+// --- Sandbox limits ---
+
+export interface SandboxLimits extends SandboxGuards {
+  timeoutMs: number; // Per request, or per day for batches; the worker is killed when exceeded
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 10000,
+  maxMemoryMb: 0, // tracemalloc slows every allocation, so memory tracing is opt-in
+  blockedModules: ['js', 'pyodide', 'pyodide_js', '_pyodide', 'micropip', 'importlib', 'sys', 'os', 'builtins', 'ctypes']
+};
+
+const LIMITS_KEY = 'powersight_python_sandbox_v1';
+
+export const getSandboxLimits = (): SandboxLimits => {
+  try {
+    return { ...DEFAULT_SANDBOX_LIMITS, ...JSON.parse(localStorage.getItem(LIMITS_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_SANDBOX_LIMITS;
+  }
+};
+
+export const saveSandboxLimits = (limits: SandboxLimits) => {
+  localStorage.setItem(LIMITS_KEY, JSON.stringify(limits));
+};
+
+const toGuards = ({ maxMemoryMb, blockedModules }: SandboxLimits): SandboxGuards => ({ maxMemoryMb, blockedModules });
+
+// --- Structured Python errors ---
+
+export interface PythonError extends Error {
+  python: PythonErrorInfo;
+}
+
+export const formatPythonError = (info: PythonErrorInfo): string =>
+  `${info.type}: ${info.message}${info.line !== null ? ` (第 ${info.line} 行)` : ''}`;
+
+export const createPythonError = (info: PythonErrorInfo): PythonError =>
+  Object.assign(new Error(formatPythonError(info)), { python: info });
+
+export const getPythonErrorInfo = (err: any): PythonErrorInfo | null => err?.python ?? null;
+
+// Request payload without the id (distributes over the union so each variant keeps its fields)
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type WorkerRequestBody = WithoutId<WorkerRequest>;
+
+interface PendingRequest {
+  message: WorkerRequest; // Kept so the request can be replayed on a fresh worker
+  resolve: (msg: WorkerResponse) => void;
+  reject: (err: any) => void;
+  onProgress?: (progress: BatchProgress, result?: BatchDailyResult) => void;
+  onActivity?: () => void; // User code started or reported progress: restart the timeout clock
+  onReplay: () => void; // Re-sent to a fresh worker: stop the clock until it starts again
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+
+const createAbortError = () => new DOMException('计算已取消', 'AbortError');
+
+export const isAbortError = (err: any): boolean => err?.name === 'AbortError';
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./pyodide.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const msg = event.data;
+    const req = pending.get(msg.id);
+    if (!req) return;
+
+    if (msg.type === 'started') {
+      req.onActivity?.();
+      return;
+    }
+    if (msg.type === 'progress') {
+      req.onActivity?.();
+      req.onProgress?.({ done: msg.done, total: msg.total, date: msg.date }, msg.result);
+      return;
+    }
+
+    pending.delete(msg.id);
+    if (msg.type === 'error') {
+      req.reject(new Error(msg.message));
+    } else {
+      req.resolve(msg);
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error("Python Worker Error:", event);
+    failAll(new Error(event.message || 'Python worker crashed'));
+  };
+
+  return worker;
+};
+
+const failAll = (err: any) => {
+  pending.forEach(req => req.reject(err));
+  pending.clear();
+};
+
+// Kills the worker (and any Python running inside it) and replays the other pending requests, in their
+// original order, on a fresh one. Each request loads Pyodide itself, so nothing else needs restoring.
+const restartWorker = () => {
+  worker?.terminate();
+  worker = null;
+  if (pending.size === 0) return;
+  const w = getWorker();
+  pending.forEach(req => {
+    req.onReplay();
+    w.postMessage(req.message);
+  });
+};
+
+/**
+ * Cancels one request: it rejects with an AbortError, unrelated requests (editor previews, validations)
+ * keep going on a restarted worker.
+ */
+const cancelRequest = (id: number) => {
+  const req = pending.get(id);
+  if (!req) return;
+  pending.delete(id);
+  req.reject(createAbortError());
+  restartWorker();
+};
+
+// Kills a worker stuck in user code; the stuck request gets the timeout error, queued ones are replayed
+const killForTimeout = (id: number, timeoutMs: number) => {
+  const stuck = pending.get(id);
+  pending.delete(id);
+  stuck?.reject(createPythonError({ type: 'TimeoutError', message: `执行超过 ${timeoutMs / 1000} 秒，已终止 (可能存在死循环)`, line: null }));
+  restartWorker();
+};
+
+const request = (
+  body: WorkerRequestBody,
+  options: { signal?: AbortSignal; onProgress?: (progress: BatchProgress, result?: BatchDailyResult) => void; timeoutMs?: number } = {}
+): Promise<WorkerResponse> => {
+  const { signal, onProgress, timeoutMs } = options;
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  const id = nextId++;
+  const w = getWorker();
+
+  return new Promise((resolve, reject) => {
+    // The clock only runs while user code runs, so Pyodide start-up and queueing never count
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => cancelRequest(id);
+    const detach = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const message = { ...body, id } as WorkerRequest;
+    pending.set(id, {
+      message,
+      resolve: msg => { detach(); resolve(msg); },
+      reject: err => { detach(); reject(err); },
+      onProgress,
+      onReplay: () => clearTimeout(timer),
+      onActivity: timeoutMs ? () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => killForTimeout(id, timeoutMs), timeoutMs);
+      } : undefined
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    w.postMessage(message);
+  });
+};
+
+export const initPythonWorker = async (): Promise<void> => {
+  await request({ type: 'init' });
+};
+
+/**
+ * Runs per-row logic on each row in an isolated namespace. A syntax error rejects with a PythonError;
+ * runtime errors are reported per row so the other rows still show their result.
+ */
+export const runRowLogic = async (
+  code: string,
+  rows: RowInput[],
+  cap: number,
+  threshold: number,
+  signal?: AbortSignal
+): Promise<RowRunResult> => {
+  const limits = getSandboxLimits();
+  const msg = await request(
+    { type: 'rows', code, rows, cap, threshold, guards: toGuards(limits) },
+    { signal, timeoutMs: limits.timeoutMs }
+  );
+  if (msg.type !== 'rowsDone') throw new Error('Unexpected worker response');
+  if (msg.compileError) throw createPythonError(msg.compileError);
+  return { values: msg.values, errors: msg.errors };
+};
+
+// Flattens per-day inputs into one contiguous dataset plus day boundaries
+export const toBatchDataset = (days: BatchDayInput[]): BatchDataset => {
+  const dataset: BatchDataset = { real: [], fore: [], foreRaw: [], days: [] };
+  for (const day of days) {
+    const start = dataset.real.length;
+    dataset.real.push(...day.real);
+    dataset.fore.push(...day.fore);
+    dataset.foreRaw.push(...day.foreRaw);
+    dataset.days.push({ date: day.date, start, end: dataset.real.length });
+  }
+  return dataset;
+};
+
+/**
+ * Runs the batch script for every day in a single Python call and returns one
+ * result (accuracy, MAE, RMSE, averages) per day. A failing day does not reject: the days computed before
+ * it are returned together with the error. The same holds for a day running past the sandbox timeout
+ * (a TimeoutError) and for a cancel through `signal` (`cancelled`), using the days streamed with progress.
+ */
+export const runFormulaBatch = async (
+  code: string,
+  days: BatchDayInput[],
+  cap: number,
+  threshold: number,
+  options: { signal?: AbortSignal; onProgress?: (progress: BatchProgress) => void } = {}
+): Promise<BatchRunResult> => {
+  const dataset = toBatchDataset(days);
+  const limits = getSandboxLimits();
+  const finished: BatchDailyResult[] = [];
+  let msg: WorkerResponse;
+  try {
+    msg = await request(
+      { type: 'batch', code, dataset, cap, threshold, guards: toGuards(limits) },
+      {
+        signal: options.signal,
+        timeoutMs: limits.timeoutMs,
+        onProgress: (progress, result) => {
+          // A replay on a restarted worker counts from the first day again
+          finished.length = progress.done - 1;
+          if (result) finished.push(result);
+          options.onProgress?.(progress);
+        }
+      }
+    );
+  } catch (err) {
+    const cancelled = isAbortError(err);
+    const info: PythonErrorInfo | null = cancelled ? { type: 'AbortError', message: (err as Error).message, line: null } : getPythonErrorInfo(err);
+    if (!info) throw err;
+    return {
+      results: finished,
+      error: formatPythonError(info),
+      errorInfo: info,
+      failedDate: days[finished.length]?.date ?? null,
+      cancelled
+    };
+  }
+  if (msg.type !== 'batchDone') return { results: [], error: 'Unexpected worker response', errorInfo: null, failedDate: null, cancelled: false };
+  return {
+    results: msg.results,
+    error: msg.error ? formatPythonError(msg.error) : null,
+    errorInfo: msg.error,
+    failedDate: msg.failedDate,
+    cancelled: false
+  };
+};
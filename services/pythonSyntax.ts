@@ -0,0 +1,122 @@
+// --- Lightweight Python syntax support for the formula code editor ---
+// Line-level tokenising for highlighting, auto-indent and completion candidates. Formulas are short,
+// so a regex tokenizer is enough; multi-line strings are not tracked across lines.
+
+export type TokenKind = 'keyword' | 'builtin' | 'variable' | 'number' | 'string' | 'comment' | 'operator' | 'text';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+// A name offered by autocomplete, with the hint shown next to it
+export interface CompletionItem {
+  label: string;
+  detail: string;
+  kind: 'variable' | 'function' | 'keyword';
+}
+
+const KEYWORDS = new Set([
+  'and', 'as', 'assert', 'break', 'continue', 'def', 'del', 'elif', 'else', 'except', 'False', 'finally',
+  'for', 'from', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or', 'pass', 'raise', 'return',
+  'True', 'try', 'while', 'with', 'yield'
+]);
+
+const BUILTINS = new Set([
+  'abs', 'all', 'any', 'bool', 'dict', 'enumerate', 'float', 'int', 'len', 'list', 'map', 'max', 'min',
+  'range', 'round', 'sorted', 'sum', 'tuple', 'zip', 'math'
+]);
+
+// Variables each pane's code can use
+export const ROW_VARIABLES: CompletionItem[] = [
+  { label: 'real', detail: '实测值 (当前行)', kind: 'variable' },
+  { label: 'fore', detail: '预测均值 (当前行)', kind: 'variable' },
+  { label: 'fore_list', detail: '各预测源 (numpy 数组)', kind: 'variable' },
+  { label: 'cap', detail: '装机容量 MW', kind: 'variable' },
+  { label: 'threshold', detail: '死区阈值比例', kind: 'variable' },
+  { label: 'np', detail: 'numpy', kind: 'variable' },
+  { label: 'result', detail: '本行结果 (必须赋值)', kind: 'variable' }
+];
+
+export const AGG_VARIABLES: CompletionItem[] = [
+  { label: 'row_results', detail: '各行 result 列表', kind: 'variable' },
+  { label: 'real', detail: '当日实测值列表', kind: 'variable' },
+  { label: 'fore', detail: '当日预测值列表', kind: 'variable' },
+  { label: 'fore_list', detail: '各预测源 (按行)', kind: 'variable' },
+  { label: 'cap', detail: '装机容量 MW', kind: 'variable' },
+  { label: 'threshold', detail: '死区阈值比例', kind: 'variable' },
+  { label: 'np', detail: 'numpy', kind: 'variable' },
+  { label: 'result', detail: '当日准确率 (必须赋值)', kind: 'variable' }
+];
+
+export const SCRIPT_VARIABLES: CompletionItem[] = AGG_VARIABLES.filter(v => v.label !== 'row_results');
+
+// Members offered after `np.`
+const NUMPY_MEMBERS: CompletionItem[] = [
+  'abs', 'array', 'asarray', 'clip', 'maximum', 'mean', 'minimum', 'nan', 'nanmean', 'sqrt', 'std', 'sum', 'where'
+].map(label => ({ label, detail: 'numpy', kind: 'function' as const }));
+
+const GENERAL_COMPLETIONS: CompletionItem[] = [
+  ...[...BUILTINS].map(label => ({ label, detail: '内置函数', kind: 'function' as const })),
+  ...['if', 'elif', 'else', 'for', 'and', 'or', 'not', 'None', 'True', 'False'].map(label => ({ label, detail: '关键字', kind: 'keyword' as const }))
+];
+
+const TOKEN_RE = /(#.*$)|("(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?)|(\b\d+(?:\.\d*)?(?:e[+-]?\d+)?\b|\.\d+\b)|([A-Za-z_][A-Za-z0-9_]*)|([+\-*/%=<>!&|^~@:]+)/g;
+
+/**
+ * Splits one line into highlight tokens; names in `variables` are marked as context variables.
+ */
+export const tokenizePythonLine = (line: string, variables: ReadonlySet<string>): Token[] => {
+  const tokens: Token[] = [];
+  let last = 0;
+  for (const m of line.matchAll(TOKEN_RE)) {
+    const start = m.index ?? 0;
+    if (start > last) tokens.push({ kind: 'text', text: line.slice(last, start) });
+    const [text, comment, str, num, name] = m;
+    let kind: TokenKind = 'operator';
+    if (comment) kind = 'comment';
+    else if (str) kind = 'string';
+    else if (num) kind = 'number';
+    else if (name) kind = KEYWORDS.has(name) ? 'keyword' : BUILTINS.has(name) ? 'builtin' : variables.has(name) ? 'variable' : 'text';
+    tokens.push({ kind, text });
+    last = start + text.length;
+  }
+  if (last < line.length) tokens.push({ kind: 'text', text: line.slice(last) });
+  return tokens;
+};
+
+// Indentation for the line after `lineBeforeCaret`: keep the current level, one deeper after a colon
+export const nextLineIndent = (lineBeforeCaret: string): string => {
+  const indent = lineBeforeCaret.match(/^\s*/)?.[0] ?? '';
+  const code = lineBeforeCaret.replace(/#.*$/, '').trimEnd();
+  return code.endsWith(':') ? indent + '    ' : indent;
+};
+
+/**
+ * Completion candidates for the identifier being typed before the caret, or null when none apply.
+ * `from` is the offset in `lineBeforeCaret` where the accepted label replaces the typed prefix.
+ */
+export const getCompletions = (
+  lineBeforeCaret: string,
+  variables: CompletionItem[]
+): { from: number, items: CompletionItem[] } | null => {
+  if (/#/.test(lineBeforeCaret.replace(/(["']).*?\1/g, ''))) return null; // Inside a comment
+
+  const member = lineBeforeCaret.match(/\bnp\.([A-Za-z_]*)$/);
+  if (member) {
+    const prefix = member[1];
+    const items = NUMPY_MEMBERS.filter(i => i.label.startsWith(prefix) && i.label !== prefix);
+    return items.length ? { from: lineBeforeCaret.length - prefix.length, items } : null;
+  }
+
+  const word = lineBeforeCaret.match(/(?:^|[^A-Za-z0-9_.])([A-Za-z_][A-Za-z0-9_]*)$/);
+  if (!word) return null;
+  const prefix = word[1];
+  const seen = new Set<string>();
+  const items = [...variables, ...GENERAL_COMPLETIONS].filter(i => {
+    if (!i.label.startsWith(prefix) || i.label === prefix || seen.has(i.label)) return false;
+    seen.add(i.label);
+    return true;
+  });
+  return items.length ? { from: lineBeforeCaret.length - prefix.length, items: items.slice(0, 8) } : null;
+};
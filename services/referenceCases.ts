@@ -0,0 +1,103 @@
+import { RegionRule, RuleFixture } from '../types';
+import { executeNativeFormula, hasNativeEvaluator } from './nativeFormulas';
+import { executeCustomFormula, generateBatchScript } from './formulas';
+import { FormulaTestCase, newTestCaseId } from './formulaLibrary';
+
+// --- Worked Reference Datasets ---
+// Every region rule carries hand-derived fixtures (see regionRules.ts); both the native TypeScript
+// evaluator and the rule's generated Python script must reproduce their `expected` accuracy.
+
+export interface ReferenceCheck {
+  expected: number;
+  actual: number | null;
+  passed: boolean;
+  error?: string;
+}
+
+// Differences below this are float noise, not a formula mismatch
+export const REFERENCE_TOLERANCE = 1e-9;
+
+const toCheck = (fixture: RuleFixture, actual: number): ReferenceCheck => ({
+  expected: fixture.expected,
+  actual,
+  passed: Math.abs(actual - fixture.expected) <= REFERENCE_TOLERANCE
+});
+
+/**
+ * Runs a fixture through the built-in TypeScript evaluator; null when the rule has none (imported rules).
+ */
+export const checkNativeReference = (rule: RegionRule, fixture: RuleFixture): ReferenceCheck | null => {
+  if (!hasNativeEvaluator(rule)) return null;
+  const actual = executeNativeFormula(rule, fixture.real, fixture.fore, fixture.cap, fixture.threshold);
+  return toCheck(fixture, actual);
+};
+
+/**
+ * Whether the native evaluator reproduces every fixture the rule's Python template is checked against.
+ * The default calculation only takes the native path when it does, so an unedited formula gives the same
+ * numbers on either engine.
+ */
+export const nativeMatchesRule = (rule: RegionRule): boolean =>
+  rule.fixtures.length > 0 && rule.fixtures.every(f => checkNativeReference(rule, f)?.passed === true);
+
+/**
+ * Runs a fixture through the rule's generated Python batch script.
+ */
+export const checkPythonReference = async (rule: RegionRule, fixture: RuleFixture): Promise<ReferenceCheck> => {
+  try {
+    const actual = await executeCustomFormula(
+      generateBatchScript(rule.rowLogic, rule.aggMethod, rule.aggCode),
+      fixture.real,
+      fixture.fore,
+      fixture.cap,
+      fixture.threshold,
+      fixture.real.map((_, i) => [fixture.fore[i]])
+    );
+    return toCheck(fixture, actual);
+  } catch (err: any) {
+    return { expected: fixture.expected, actual: null, passed: false, error: err.message };
+  }
+};
+
+/**
+ * Checks every fixture of a rule on the Python engine, one after another.
+ */
+export const checkRuleFixtures = async (rule: RegionRule): Promise<ReferenceCheck[]> => {
+  const checks: ReferenceCheck[] = [];
+  for (const fixture of rule.fixtures) {
+    checks.push(await checkPythonReference(rule, fixture));
+  }
+  return checks;
+};
+
+// --- Golden Regression Cases ---
+// Cases attached to a library formula, checked against the editor's full script on every edit.
+
+/**
+ * Runs every golden case through a full batch script, one after another.
+ */
+export const checkGoldenCases = async (script: string, cases: FormulaTestCase[]): Promise<ReferenceCheck[]> => {
+  const checks: ReferenceCheck[] = [];
+  for (const c of cases) {
+    try {
+      const actual = await executeCustomFormula(script, c.real, c.fore, c.cap, c.threshold, c.fore_list ?? c.fore.map(f => [f]));
+      checks.push({ expected: c.expected, actual, passed: Math.abs(actual - c.expected) <= c.tolerance });
+    } catch (err: any) {
+      checks.push({ expected: c.expected, actual: null, passed: false, error: err.message });
+    }
+  }
+  return checks;
+};
+
+// A rule's worked fixtures, as golden cases for a formula of that region
+export const fixturesToGoldenCases = (rule: RegionRule): FormulaTestCase[] =>
+  rule.fixtures.map((f, i) => ({
+    id: newTestCaseId(),
+    name: `${rule.name} 参考算例 ${i + 1}`,
+    cap: f.cap,
+    threshold: f.threshold,
+    real: f.real,
+    fore: f.fore,
+    expected: f.expected,
+    tolerance: REFERENCE_TOLERANCE
+  }));
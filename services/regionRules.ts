@@ -0,0 +1,390 @@
+import { AggMethod, PenaltyModel, RegionRule, RuleFixture } from '../types';
+import { parseYaml } from './yaml';
+import { evaluateCentral, evaluateEast, evaluateGeneral, evaluateNortheast, evaluateNorthwest, evaluateShanxi, evaluateSouth } from './nativeFormulas';
+import { explainCentral, explainEast, explainGeneral, explainNortheast, explainNorthwest, explainShanxi, explainSouth } from './handCalculations';
+
+// --- Region Rule Registry ---
+// Everything region-specific (name, parameters, Python row logic, aggregation, explainer text and hand
+// calculation, penalty defaults, worked fixtures and native evaluator) is declared here once. Built-in
+// provinces ship with the app; further provinces are imported from JSON/YAML definitions and kept in
+// localStorage, without a native evaluator or hand calculation.
+
+const DEFAULT_PENALTY: PenaltyModel = { passLine: 0.80, coefficient: 0.2, pointsPerMwh: 1, pricePerPoint: 1000 };
+
+const NO_DEAD_BAND = { threshold: 0.03, useThreshold: false };
+
+export const BUILTIN_REGION_RULES: RegionRule[] = [
+  {
+    id: 'Shanxi',
+    name: '山西 (Shanxi)',
+    params: NO_DEAD_BAND,
+    penalty: { ...DEFAULT_PENALTY, passLine: 0.85 },
+    rowLogic: `# 变量说明: real(实测值), fore(预测均值), cap(容量)
+diff = real - fore
+weight = abs(diff) # 权重暂时存为中间变量，最后聚合时使用
+# 山西规则较复杂，通常建议使用完整脚本模式，但在原子模式下，
+# 我们可以计算单点的 (R-F)^2 * |R-F|
+result = (diff ** 2) * abs(diff)`,
+    aggMethod: 'weighted',
+    explainer: {
+      title: '山西 (Shanxi) - 双细则',
+      desc: '基于误差权重的均方根偏差计算。',
+      formula: 'Accuracy = 1 - sqrt( sum((R-F)^2 * |R-F| / sum(|R-F|)) ) / Cap',
+      handCalc: explainShanxi
+    },
+    fixtures: [{
+      cap: 100,
+      threshold: 0.03,
+      real: [50, 60, 40, 80],
+      fore: [46, 63, 40, 72],
+      expected: 0.9365965300634106,
+      steps: [
+        '|R-F| = [4, 3, 0, 8]，Σ|R-F| = 15',
+        '(R-F)² · |R-F| = [64, 27, 0, 512]，合计 603',
+        '加权均方 = 603 / 15 = 40.2，开方 = 6.3403',
+        '准确率 = 1 - 6.3403 / 100 = 93.66%'
+      ]
+    }],
+    native: evaluateShanxi,
+    builtin: true
+  },
+  {
+    id: 'Northwest',
+    name: '西北 (Northwest)',
+    params: { threshold: 0.03, useThreshold: true, thresholdHint: '西北区域建议 3%' },
+    penalty: DEFAULT_PENALTY,
+    rowLogic: `# 变量说明: real(实测), fore(预测均值), cap(容量), threshold(免考阈值)
+# 西北双细则: 实测与预测均低于 threshold * Cap 的点免考 (死区)
+if real < cap * threshold and fore < cap * threshold:
+    result = 0.0
+else:
+    denom = real + fore
+    term1 = abs(real / denom - 0.5) if denom != 0 else 0.0
+    # 单点贡献 |R/(R+F) - 0.5| * |R-F|，聚合时除以有效点 Σ|R-F|
+    result = term1 * abs(real - fore)`,
+    aggMethod: 'harmonic',
+    explainer: {
+      title: '西北 (Northwest) - 双细则',
+      desc: '引入死区概念的加权调和平均误差计算：实测与预测均低于阈值 × Cap 的点免考，Σ 仅对有效点求和。',
+      formula: 'Accuracy = 1 - 2 * Σ ( | R/(R+F) - 0.5 | * ( |R-F| / Σ|R-F| ) )',
+      handCalc: explainNorthwest
+    },
+    fixtures: [{
+      cap: 100,
+      threshold: 0.03,
+      real: [2, 50, 30, 80, 1],
+      fore: [1, 40, 36, 80, 5],
+      expected: 0.7838383838383838,
+      steps: [
+        '死区 3 MW：第 1 点 (2, 1) 免考；第 5 点预测 5 ≥ 3 仍需考核',
+        '有效点 |R-F| = [10, 6, 0, 4]，Σ|R-F| = 20',
+        '|R/(R+F) - 0.5| = [0.0556, 0.0455, 0, 0.3333]',
+        'Σ |R/(R+F) - 0.5| · |R-F| = 0.5556 + 0.2727 + 0 + 1.3333 = 2.1616',
+        '准确率 = 1 - 2 × 2.1616 / 20 = 78.38%'
+      ]
+    }],
+    native: evaluateNorthwest,
+    builtin: true
+  },
+  {
+    id: 'Northeast',
+    name: '东北 (Dongbei)',
+    params: { threshold: 0.10, useThreshold: true, thresholdHint: '东北区域建议 10%' },
+    penalty: DEFAULT_PENALTY,
+    rowLogic: `# 变量说明: real(实测), fore(预测均值), cap(容量), threshold(免考阈值)
+# 东北: 实测与预测均低于 threshold * Cap (通常 10%) 的点误差记 0，但仍计入点数 N
+if real < cap * threshold and fore < cap * threshold:
+    result = 0.0
+else:
+    result = (real - fore) ** 2  # 平方误差，聚合为 1 - RMSE/Cap`,
+    aggMethod: 'rmse',
+    explainer: {
+      title: '东北 (Northeast)',
+      desc: '基于 RMSE 的考核公式，通常包含 10% 容量的死区豁免 (死区点误差记 0，仍计入点数)。',
+      formula: 'Accuracy = 1 - ( RMSE / Cap )',
+      handCalc: explainNortheast
+    },
+    fixtures: [{
+      cap: 100,
+      threshold: 0.10,
+      real: [5, 50, 70, 8],
+      fore: [8, 45, 80, 20],
+      expected: 0.9179939026657163,
+      steps: [
+        '死区 10 MW：第 1 点 (5, 8) 误差记 0；第 4 点预测 20 ≥ 10 仍需考核',
+        '(R-F)² = [0, 25, 100, 144]，合计 269，N = 4',
+        'RMSE = sqrt(269 / 4) = 8.2006',
+        '准确率 = 1 - 8.2006 / 100 = 91.80%'
+      ]
+    }],
+    native: evaluateNortheast,
+    builtin: true
+  },
+  {
+    id: 'South',
+    name: '南方 (South)',
+    params: NO_DEAD_BAND,
+    penalty: { ...DEFAULT_PENALTY, passLine: 0.85 },
+    rowLogic: `# 变量说明: real(实测), fore(预测均值), cap(容量)
+# 南方: 分段归一化，实测低于 20% Cap 时以 20% Cap 为基准
+ref = cap * 0.2 if real < cap * 0.2 else real
+result = ((real - fore) / ref) ** 2 if ref != 0 else 0.0`,
+    aggMethod: 'rms',
+    explainer: {
+      title: '南方 (South)',
+      desc: '分段归一化误差计算 (20% Cap 分界)：Ref = max(R, 20% Cap)。',
+      formula: 'Accuracy = 1 - sqrt( Mean( ((R-F)/Ref)^2 ) )',
+      handCalc: explainSouth
+    },
+    fixtures: [{
+      cap: 100,
+      threshold: 0.03,
+      real: [10, 50, 100, 0],
+      fore: [14, 45, 90, 6],
+      expected: 0.8063508326896291,
+      steps: [
+        'Ref = max(R, 20 MW) = [20, 50, 100, 20]',
+        '((R-F)/Ref)² = [0.04, 0.01, 0.01, 0.09]，均值 0.0375',
+        '准确率 = 1 - sqrt(0.0375) = 1 - 0.1936 = 80.64%'
+      ]
+    }],
+    native: evaluateSouth,
+    builtin: true
+  },
+  {
+    id: 'East',
+    name: '华东 (Huadong)',
+    params: NO_DEAD_BAND,
+    penalty: { ...DEFAULT_PENALTY, passLine: 0.85 },
+    rowLogic: `# 变量说明: real(实测), fore(预测均值), cap(容量)
+# 华东: 按装机容量归一化的均方根误差
+result = ((real - fore) / cap) ** 2`,
+    aggMethod: 'rms',
+    explainer: {
+      title: '华东 (East)',
+      desc: '按装机容量归一化的均方根误差。',
+      formula: 'Accuracy = 1 - sqrt( Mean( ((R-F)/Cap)^2 ) )',
+      handCalc: explainEast
+    },
+    fixtures: [{
+      cap: 100,
+      threshold: 0.03,
+      real: [40, 60, 80, 20],
+      fore: [44, 57, 80, 28],
+      expected: 0.952830094339717,
+      steps: [
+        '(R-F)/Cap = [-0.04, 0.03, 0, -0.08]',
+        '平方均值 = (0.0016 + 0.0009 + 0 + 0.0064) / 4 = 0.002225',
+        '准确率 = 1 - sqrt(0.002225) = 1 - 0.0472 = 95.28%'
+      ]
+    }],
+    native: evaluateEast,
+    builtin: true
+  },
+  {
+    id: 'Central',
+    name: '华中 (Central)',
+    params: NO_DEAD_BAND,
+    penalty: DEFAULT_PENALTY,
+    rowLogic: `# 变量说明: real(实测), fore(预测均值), cap(容量)
+# 华中: 按装机容量归一化的平均绝对误差
+result = abs(real - fore) / cap`,
+    aggMethod: 'mean',
+    explainer: {
+      title: '华中 (Central)',
+      desc: '按装机容量归一化的平均绝对误差。',
+      formula: 'Accuracy = 1 - Mean( |R-F| / Cap )',
+      handCalc: explainCentral
+    },
+    fixtures: [{
+      cap: 100,
+      threshold: 0.03,
+      real: [40, 60, 80, 20],
+      fore: [44, 57, 80, 28],
+      expected: 0.9625,
+      steps: [
+        '|R-F|/Cap = [0.04, 0.03, 0, 0.08]',
+        '均值 = 0.15 / 4 = 0.0375',
+        '准确率 = 1 - 0.0375 = 96.25%'
+      ]
+    }],
+    native: evaluateCentral,
+    builtin: true
+  }
+];
+
+// Fallback for unknown ids (e.g. a removed imported rule still referenced by saved state)
+export const GENERAL_RULE: RegionRule = {
+  id: 'General',
+  name: '通用 RMSE (General)',
+  params: NO_DEAD_BAND,
+  penalty: DEFAULT_PENALTY,
+  rowLogic: `diff = abs(real - fore)
+result = diff ** 2  # 计算平方误差`,
+  aggMethod: 'rmse',
+  explainer: {
+    title: '通用 RMSE (General)',
+    desc: '标准均方根误差计算。',
+    formula: 'Accuracy = 1 - ( RMSE / Cap )',
+    handCalc: explainGeneral
+  },
+  fixtures: [],
+  native: evaluateGeneral,
+  builtin: true
+};
+
+// --- Imported Rules ---
+
+const STORAGE_KEY = 'powersight_region_rules_v1';
+
+const IMPORTABLE_AGG_METHODS: AggMethod[] = ['mean', 'sum', 'rmse', 'rms', 'weighted', 'harmonic', 'custom'];
+
+const RESERVED_IDS = new Set([...BUILTIN_REGION_RULES.map(r => r.id), GENERAL_RULE.id]);
+
+const loadImportedRules = (): RegionRule[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+let importedRules: RegionRule[] = loadImportedRules();
+
+const persistImportedRules = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(importedRules));
+  } catch (e) {
+    console.error("Save region rules failed", e);
+  }
+};
+
+export const listRegionRules = (): RegionRule[] => [...BUILTIN_REGION_RULES, ...importedRules];
+
+export const getRegionRule = (id: string): RegionRule => {
+  return listRegionRules().find(r => r.id === id) || GENERAL_RULE;
+};
+
+/**
+ * Adds imported rules to the registry, replacing earlier imports with the same id.
+ */
+export const registerRegionRules = (rules: RegionRule[]) => {
+  const ids = new Set(rules.map(r => r.id));
+  importedRules = [...importedRules.filter(r => !ids.has(r.id)), ...rules];
+  persistImportedRules();
+};
+
+export const removeRegionRule = (id: string) => {
+  importedRules = importedRules.filter(r => r.id !== id);
+  persistImportedRules();
+};
+
+// --- Definition Parsing & Validation ---
+
+const isNumber = (v: any): v is number => typeof v === 'number' && isFinite(v);
+
+const isNumberList = (v: any): v is number[] => Array.isArray(v) && v.length > 0 && v.every(isNumber);
+
+const normaliseFixture = (raw: any, label: string, defaultThreshold: number): RuleFixture => {
+  if (!raw || typeof raw !== 'object') throw new Error(`${label} 格式错误`);
+  if (!isNumber(raw.cap) || raw.cap <= 0) throw new Error(`${label} 的 cap 必须为正数`);
+  if (!isNumberList(raw.real) || !isNumberList(raw.fore)) throw new Error(`${label} 的 real / fore 必须为非空数值列表`);
+  if (raw.real.length !== raw.fore.length) throw new Error(`${label} 的 real 与 fore 长度不一致`);
+  if (!isNumber(raw.expected)) throw new Error(`${label} 缺少预期准确率 expected`);
+  if (raw.threshold !== undefined && !isNumber(raw.threshold)) throw new Error(`${label} 的 threshold 必须为数值`);
+
+  return {
+    cap: raw.cap,
+    threshold: raw.threshold ?? defaultThreshold,
+    real: raw.real,
+    fore: raw.fore,
+    expected: raw.expected,
+    ...(Array.isArray(raw.steps) ? { steps: raw.steps.map(String) } : {})
+  };
+};
+
+/**
+ * Checks one raw definition and fills in defaults. Throws a readable error on the first problem found.
+ */
+export const normaliseRegionRule = (raw: any): RegionRule => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error("规则定义必须是对象");
+
+  const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+  if (!/^[A-Za-z][A-Za-z0-9_-]*$/.test(id)) throw new Error(`规则 id "${raw.id ?? ''}" 无效：需以字母开头，仅含字母、数字、_ 或 -`);
+  if (RESERVED_IDS.has(id)) throw new Error(`规则 id "${id}" 与内置区域重名，请换一个 id`);
+
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : id;
+
+  if (typeof raw.rowLogic !== 'string' || !/^\s*result\s*=/m.test(raw.rowLogic)) {
+    throw new Error(`规则 "${id}" 的 rowLogic 必须为 Python 代码，且需给 result 赋值`);
+  }
+  if (!IMPORTABLE_AGG_METHODS.includes(raw.aggMethod)) {
+    throw new Error(`规则 "${id}" 的 aggMethod 必须为 ${IMPORTABLE_AGG_METHODS.join(' / ')} 之一`);
+  }
+  if (raw.aggMethod === 'custom' && (typeof raw.aggCode !== 'string' || !/^\s*result\s*=/m.test(raw.aggCode))) {
+    throw new Error(`规则 "${id}" 使用 custom 聚合时需提供 aggCode，且需给 result 赋值`);
+  }
+
+  const rawParams = raw.params ?? {};
+  if (rawParams.threshold !== undefined && (!isNumber(rawParams.threshold) || rawParams.threshold < 0 || rawParams.threshold > 1)) {
+    throw new Error(`规则 "${id}" 的 params.threshold 必须在 0 到 1 之间`);
+  }
+  const params = {
+    threshold: rawParams.threshold ?? NO_DEAD_BAND.threshold,
+    useThreshold: rawParams.useThreshold === true,
+    ...(typeof rawParams.thresholdHint === 'string' ? { thresholdHint: rawParams.thresholdHint } : {})
+  };
+
+  const penalty = { ...DEFAULT_PENALTY };
+  (Object.keys(DEFAULT_PENALTY) as (keyof PenaltyModel)[]).forEach(key => {
+    const v = raw.penalty?.[key];
+    if (v === undefined) return;
+    if (!isNumber(v) || v < 0) throw new Error(`规则 "${id}" 的 penalty.${key} 必须为非负数`);
+    penalty[key] = v;
+  });
+
+  const rawExplainer = raw.explainer ?? {};
+  const explainer = {
+    title: typeof rawExplainer.title === 'string' ? rawExplainer.title : name,
+    desc: typeof rawExplainer.desc === 'string' ? rawExplainer.desc.trim() : '',
+    formula: typeof rawExplainer.formula === 'string' ? rawExplainer.formula.trim() : ''
+  };
+
+  if (!Array.isArray(raw.fixtures) || raw.fixtures.length === 0) {
+    throw new Error(`规则 "${id}" 至少需要一个 fixtures 参考算例，用于导入时校验公式`);
+  }
+  const fixtures = raw.fixtures.map((f: any, i: number) => normaliseFixture(f, `规则 "${id}" 的第 ${i + 1} 个算例`, params.threshold));
+
+  return {
+    id, name, params, penalty,
+    rowLogic: raw.rowLogic,
+    aggMethod: raw.aggMethod,
+    ...(raw.aggMethod === 'custom' ? { aggCode: raw.aggCode } : {}),
+    explainer, fixtures,
+    builtin: false
+  };
+};
+
+/**
+ * Parses a JSON or YAML rule file. Accepts a single definition, a list, or `{ rules: [...] }`.
+ */
+export const parseRegionRuleFile = (text: string, fileName: string): RegionRule[] => {
+  const trimmed = text.trim();
+  const isJson = /\.json$/i.test(fileName) || trimmed.startsWith('{') || trimmed.startsWith('[');
+
+  let doc: any;
+  try {
+    doc = isJson ? JSON.parse(trimmed) : parseYaml(text);
+  } catch (err: any) {
+    throw new Error(`规则文件解析失败 (${isJson ? 'JSON' : 'YAML'}): ${err.message}`);
+  }
+
+  const rawRules = Array.isArray(doc) ? doc : Array.isArray(doc?.rules) ? doc.rules : [doc];
+  const rules = rawRules.map(normaliseRegionRule);
+
+  const ids = rules.map((r: RegionRule) => r.id);
+  const duplicate = ids.find((id: string, i: number) => ids.indexOf(id) !== i);
+  if (duplicate) throw new Error(`规则文件中 id "${duplicate}" 重复`);
+  return rules;
+};
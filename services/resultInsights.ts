@@ -0,0 +1,201 @@
+import { DataPoint, DailyResult, CalculationStats, MonthlyStats, RegionRule } from '../types';
+import { mean } from './mathUtils';
+import { toLocalDate } from './dataPrep';
+import { generateText } from './llmProvider';
+import { RAMP_STEP_RATIO, classifyRamps } from './errorMetrics';
+
+// --- AI Results Explanation ---
+// The model only sees pre-computed evidence (overall stats, months, worst-day error patterns, the rule),
+// each tagged with an id. Every claim it writes must cite those ids, so the report can link a claim back to
+// the day or month it came from and flag claims that cite nothing it was given.
+
+export interface TimeOfDayBias {
+  label: string; // e.g. '午间 (10-14时)'
+  bias: number; // Mean (fore - real) / cap in the window, + = over-forecast
+}
+
+export interface DayErrorPattern {
+  date: string;
+  accuracy: number;
+  rmse: number;
+  bias: number; // Mean (fore - real) / cap over the day
+  worstWindow: TimeOfDayBias | null; // Time-of-day window with the largest absolute bias
+  rampEvents: number; // Steps where real moved by more than RAMP_STEP_RATIO of cap
+  rampMisses: number; // ... and the forecast moved the other way or by less than half as much
+  deadBandPoints: number; // Points with real below the dead band
+  deadBandFalseGeneration: number; // ... where the forecast was above the dead band
+  deadBandMissedGeneration: number; // Points with fore below the dead band while real was above it
+}
+
+export type InsightCitationKind = 'stats' | 'rule' | 'month' | 'day';
+
+export interface InsightCitation {
+  id: string; // As written by the model, e.g. 'D:2025-01-15'
+  kind: InsightCitationKind;
+  ref: string; // Date or month for 'day' / 'month'
+  known: boolean; // false when the id is not part of the evidence sent to the model
+}
+
+export interface InsightClaim {
+  text: string; // Claim text with the citation tags removed
+  citations: InsightCitation[];
+  uncited: boolean; // No citation that matches the evidence
+}
+
+export interface ResultInsight {
+  claims: InsightClaim[];
+  evidenceDays: string[];
+}
+
+// Hour windows used for the time-of-day bias (local time, end exclusive)
+const DAY_WINDOWS: { label: string, from: number, to: number }[] = [
+  { label: '夜间 (0-6时)', from: 0, to: 6 },
+  { label: '上午 (6-10时)', from: 6, to: 10 },
+  { label: '午间 (10-14时)', from: 10, to: 14 },
+  { label: '下午 (14-18时)', from: 14, to: 18 },
+  { label: '晚间 (18-24时)', from: 18, to: 24 }
+];
+
+export const DEFAULT_INSIGHT_WORST_DAYS = 5;
+
+/**
+ * Error pattern of one day's points: bias, worst time-of-day window, ramp misses and dead-band behaviour.
+ */
+export const analyseDayPattern = (day: DailyResult, points: DataPoint[], cap: number, threshold: number): DayErrorPattern => {
+  const safeCap = cap > 0 ? cap : 1;
+  const deadBand = cap * threshold;
+
+  let worstWindow: TimeOfDayBias | null = null;
+  for (const w of DAY_WINDOWS) {
+    const inWindow = points.filter(p => {
+      const hour = new Date(p.timestamp).getHours();
+      return hour >= w.from && hour < w.to;
+    });
+    if (inWindow.length === 0) continue;
+    const bias = mean(inWindow.map(p => (p.forecast - p.real) / safeCap));
+    if (!worstWindow || Math.abs(bias) > Math.abs(worstWindow.bias)) worstWindow = { label: w.label, bias };
+  }
+
+  const ramps = classifyRamps(points.map(p => p.real), points.map(p => p.forecast), cap);
+
+  const belowReal = points.filter(p => p.real < deadBand);
+  return {
+    date: day.date,
+    accuracy: day.accuracy,
+    rmse: day.rmse,
+    bias: points.length ? mean(points.map(p => (p.forecast - p.real) / safeCap)) : 0,
+    worstWindow,
+    rampEvents: ramps.events,
+    rampMisses: ramps.events - ramps.hits,
+    deadBandPoints: belowReal.length,
+    deadBandFalseGeneration: belowReal.filter(p => p.forecast >= deadBand).length,
+    deadBandMissedGeneration: points.filter(p => p.real >= deadBand && p.forecast < deadBand).length
+  };
+};
+
+/**
+ * Patterns of the `count` lowest-accuracy days.
+ */
+export const analyseWorstDays = (
+  results: DailyResult[],
+  points: DataPoint[],
+  cap: number,
+  threshold: number,
+  count: number = DEFAULT_INSIGHT_WORST_DAYS
+): DayErrorPattern[] => {
+  const worst = [...results].sort((a, b) => a.accuracy - b.accuracy).slice(0, count);
+  const byDate: Record<string, DataPoint[]> = {};
+  points.forEach(p => {
+    const date = toLocalDate(p.timestamp);
+    if (!byDate[date]) byDate[date] = [];
+    byDate[date].push(p);
+  });
+  return worst.map(day => analyseDayPattern(day, byDate[day.date] ?? [], cap, threshold));
+};
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+
+const describePattern = (p: DayErrorPattern) => [
+  `[D:${p.date}] accuracy ${pct(p.accuracy)}, RMSE ${p.rmse.toFixed(2)} MW, mean bias ${pct(p.bias)} of cap`,
+  p.worstWindow ? `largest time-of-day bias in ${p.worstWindow.label}: ${pct(p.worstWindow.bias)} of cap` : null,
+  `ramps (>${RAMP_STEP_RATIO * 100}% cap per step): ${p.rampEvents}, missed: ${p.rampMisses}`,
+  `dead band: ${p.deadBandPoints} points with real below it, forecast above it on ${p.deadBandFalseGeneration}; forecast below while real above on ${p.deadBandMissedGeneration}`
+].filter(Boolean).join('; ');
+
+/**
+ * Evidence block sent to the model; every line starts with the id it must cite.
+ */
+export const buildInsightEvidence = (
+  stats: CalculationStats,
+  monthly: MonthlyStats[],
+  worstDays: DayErrorPattern[],
+  rule: RegionRule,
+  cap: number,
+  threshold: number
+): string => [
+  `[S] ${monthly.reduce((n, m) => n + m.daysCount, 0)} days, mean accuracy ${pct(stats.meanAccuracy)}, min ${pct(stats.minAccuracy)}, max ${pct(stats.maxAccuracy)}, std ${pct(stats.stdDev)}; days >=80%: ${stats.distribution.high}, 60-80%: ${stats.distribution.medium}, <60%: ${stats.distribution.low}`,
+  `[R] region rule ${rule.name}: ${rule.explainer.title} — ${rule.explainer.formula}; aggregation ${rule.aggMethod}; dead band ${rule.params.useThreshold ? `${pct(threshold)} of cap (${(cap * threshold).toFixed(2)} MW)` : 'none'}; capacity ${cap} MW`,
+  ...monthly.map(m => `[M:${m.month}] ${m.daysCount} days, mean accuracy ${pct(m.meanAccuracy)}, mean RMSE ${m.meanRmse.toFixed(2)} MW, days >=80%/60-80%/<60%: ${m.distribution.high}/${m.distribution.medium}/${m.distribution.low}`),
+  ...worstDays.map(describePattern)
+].join('\n');
+
+const SYSTEM_INSTRUCTION = `You are an analyst reviewing day-ahead power forecast accuracy for a renewable plant under Chinese grid assessment rules ("双细则").
+Write a short diagnostic in Simplified Chinese from the evidence only.
+
+Rules:
+- Output 4 to 8 lines, each starting with "- ", one claim per line. No headings, no other text.
+- Every line must end with one or more citations copied exactly from the evidence ids, e.g. [D:2025-01-15] [M:2025-01] [S] [R].
+- Only state what the cited evidence supports. Do not invent days, months or numbers.
+- Cover: overall level, which months are weak, the recurring error pattern on the worst days (time-of-day bias, ramp misses, dead-band behaviour), and one concrete suggestion.`;
+
+const CITATION_RE = /\[(S|R|M:\d{4}-\d{2}|D:\d{4}-\d{2}-\d{2})\]/g;
+const CITATION_KINDS: Record<string, InsightCitationKind> = { S: 'stats', R: 'rule', M: 'month', D: 'day' };
+
+/**
+ * Splits the model's reply into claims and checks each citation against the evidence that was sent.
+ */
+export const parseInsightClaims = (text: string, monthly: MonthlyStats[], worstDays: DayErrorPattern[]): InsightClaim[] => {
+  const months = new Set(monthly.map(m => m.month));
+  const days = new Set(worstDays.map(d => d.date));
+
+  return text
+    .split('\n')
+    .map(line => line.trim().replace(/^[-*•]\s*/, ''))
+    .filter(line => line.length > 0)
+    .map(line => {
+      const citations: InsightCitation[] = [];
+      for (const m of line.matchAll(CITATION_RE)) {
+        const [tag, ref = ''] = m[1].split(/:(.*)/);
+        const kind = CITATION_KINDS[tag];
+        const known = kind === 'month' ? months.has(ref) : kind === 'day' ? days.has(ref) : true;
+        if (!citations.some(c => c.id === m[1])) citations.push({ id: m[1], kind, ref, known });
+      }
+      // Ids the model made up in another shape (e.g. [D:1月5日]) are removed along with the valid ones
+      const claimText = line.replace(CITATION_RE, '').replace(/\[[A-Z]:[^\]]*\]/g, '').replace(/\s+([。；，.])/g, '$1').trim();
+      return { text: claimText, citations, uncited: !citations.some(c => c.known) };
+    });
+};
+
+/**
+ * Asks the configured LLM for a cited diagnostic of the results. Throws when AI is off or the request fails,
+ * so callers keep showing the templated summary.
+ */
+export const generateResultInsight = async (
+  stats: CalculationStats,
+  monthly: MonthlyStats[],
+  worstDays: DayErrorPattern[],
+  rule: RegionRule,
+  cap: number,
+  threshold: number
+): Promise<ResultInsight> => {
+  const evidence = buildInsightEvidence(stats, monthly, worstDays, rule, cap, threshold);
+  const text = await generateText({
+    system: SYSTEM_INSTRUCTION,
+    messages: [{ role: 'user', content: `Evidence:\n${evidence}` }],
+    temperature: 0.3
+  });
+
+  const claims = parseInsightClaims(text, monthly, worstDays);
+  if (claims.length === 0) throw new Error('AI 未返回分析内容');
+  return { claims, evidenceDays: worstDays.map(d => d.date) };
+};
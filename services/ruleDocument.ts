@@ -0,0 +1,197 @@
+import { AggMethod, RuleFixture } from '../types';
+import { generateText } from './llmProvider';
+import { FormulaTestCase, newTestCaseId } from './formulaLibrary';
+import { AGG_METHOD_LABELS, getAggregationCode } from './formulas';
+
+// --- Rule Document -> Formula Draft ---
+// A pasted section of a province's assessment rules (PDF / Word text, LaTeX-ish formulas) is turned into
+// row logic + aggregation, the explainer card, the extracted parameters and any worked examples. Wording the
+// model had to interpret is returned as ambiguities, which the user resolves before the draft is applied.
+
+export interface RuleDocumentParameter {
+  name: string; // e.g. '死区阈值'
+  value: string; // As stated, e.g. '3% 装机容量'
+  source: string; // Quote from the document
+}
+
+export interface RuleAmbiguity {
+  question: string;
+  options: string[];
+  assumed: number; // Index into options the generated code follows
+  source: string; // Quote from the document
+}
+
+export interface RuleDocumentDraft {
+  card: { name: string, desc: string, formula: string }; // Same shape as getFormulaInfo
+  parameters: RuleDocumentParameter[];
+  threshold: number | null; // Dead-band ratio of cap, null when the rule has none
+  rowLogic: string;
+  aggMethod: AggMethod;
+  aggCode?: string;
+  examples: RuleFixture[]; // Worked examples found in the document
+  ambiguities: RuleAmbiguity[];
+}
+
+// An ambiguity the user has answered, sent back when regenerating
+export interface RuleResolution {
+  question: string;
+  answer: string;
+}
+
+const AGG_METHODS: AggMethod[] = ['mean', 'sum', 'rmse', 'rms', 'weighted', 'harmonic', 'custom'];
+
+// Worked examples from documents are rounded, so they are checked with a looser tolerance
+export const RULE_EXAMPLE_TOLERANCE = 1e-4;
+
+// The exact Python each built-in aggregation runs, so the prompt cannot drift from generateBatchScript
+const AGGREGATION_REFERENCE = AGG_METHODS
+  .filter(m => m !== 'custom')
+  .map(m => `   ${m} = ${AGG_METHOD_LABELS[m]}:\n${getAggregationCode(m).trim().split('\n').map(line => `      ${line}`).join('\n')}`)
+  .join('\n');
+
+const SYSTEM_INSTRUCTION = `You translate Chinese power-forecast assessment rules ("双细则" documents, often with LaTeX-like formulas) into code for an accuracy tool.
+
+The tool computes one day's accuracy in two steps:
+1. Row logic (Python, run once per interval) with variables real, fore (mean forecast), fore_list (numpy array of forecasts), cap (MW), threshold (dead-band ratio of cap), np. It must assign a float to \`result\`.
+2. Aggregation of the row results into accuracy. row_results is the list of every interval's \`result\`; each
+   method runs exactly this Python, so the row logic must produce what it expects (e.g. squared errors for rmse):
+${AGGREGATION_REFERENCE}
+   custom = Python in "aggCode" using row_results (list), real, fore, fore_list, cap, threshold, np, assigning \`result\`.
+
+Reply with ONE JSON object and nothing else:
+{
+  "card": {"name": "...", "desc": "one or two sentences in Chinese", "formula": "plain-text formula, e.g. Accuracy = 1 - sqrt(Σ(...)/n)/Cap"},
+  "parameters": [{"name": "死区阈值", "value": "3% 装机容量", "source": "exact quote"}],
+  "threshold": 0.03 or null,
+  "rowLogic": "python",
+  "aggMethod": "mean|sum|rmse|rms|weighted|harmonic|custom",
+  "aggCode": "python, only for custom",
+  "examples": [{"cap": 100, "threshold": 0.03, "real": [..], "fore": [..], "expected": 0.8765}],
+  "ambiguities": [{"question": "Chinese question", "options": ["...", "..."], "assumed": 0, "source": "exact quote"}]
+}
+
+Rules:
+- Use \`threshold\` in the code instead of hard-coding the dead-band ratio; put the ratio in "threshold".
+- Extract every numeric parameter (dead band, capacity fractions, piecewise breakpoints) with its quote.
+- "examples" only for worked examples with concrete numbers in the document; expected accuracy as a fraction (0-1). Otherwise [].
+- Whenever the text allows more than one reading (e.g. whether the dead band uses real or forecast, < or <=, daily or per-point normalisation, which points are excluded), add an ambiguity, write the code for the option in "assumed", and never guess silently.`;
+
+const isNumber = (v: any): v is number => typeof v === 'number' && isFinite(v);
+
+const asText = (v: any) => (typeof v === 'string' ? v.trim() : '');
+
+// Cuts the JSON object out of a reply that may be wrapped in a code fence or prose
+const extractJson = (reply: string): any => {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start < 0 || end <= start) throw new Error('AI 未返回 JSON 格式的解析结果');
+  try {
+    return JSON.parse(reply.slice(start, end + 1));
+  } catch (err: any) {
+    throw new Error(`AI 返回的 JSON 无法解析: ${err.message}`);
+  }
+};
+
+const normaliseExample = (raw: any, threshold: number): RuleFixture | null => {
+  if (!raw || !isNumber(raw.cap) || raw.cap <= 0 || !isNumber(raw.expected)) return null;
+  if (!Array.isArray(raw.real) || !Array.isArray(raw.fore) || raw.real.length === 0) return null;
+  if (raw.real.length !== raw.fore.length || ![...raw.real, ...raw.fore].every(isNumber)) return null;
+  return {
+    cap: raw.cap,
+    threshold: isNumber(raw.threshold) ? raw.threshold : threshold,
+    real: raw.real,
+    fore: raw.fore,
+    // Percentages slip through despite the instructions
+    expected: raw.expected > 1 ? raw.expected / 100 : raw.expected
+  };
+};
+
+/**
+ * Checks the model's JSON reply and fills in defaults. Throws a readable error when the code is unusable.
+ */
+export const parseRuleDocumentReply = (reply: string): RuleDocumentDraft => {
+  const raw = extractJson(reply);
+
+  const rowLogic = asText(raw.rowLogic).replace(/```python/g, '').replace(/```/g, '');
+  if (!/^\s*result\s*=/m.test(rowLogic)) throw new Error('AI 生成的单行逻辑没有给 result 赋值');
+  if (!AGG_METHODS.includes(raw.aggMethod)) throw new Error(`AI 返回的聚合方式 "${raw.aggMethod}" 不受支持`);
+  const aggCode = raw.aggMethod === 'custom' ? asText(raw.aggCode) : undefined;
+  if (raw.aggMethod === 'custom' && !/^\s*result\s*=/m.test(aggCode ?? '')) throw new Error('AI 生成的自定义聚合代码没有给 result 赋值');
+
+  const threshold = isNumber(raw.threshold) && raw.threshold >= 0 && raw.threshold < 1 ? raw.threshold : null;
+  const card = raw.card ?? {};
+
+  return {
+    card: { name: asText(card.name) || '规则文档公式', desc: asText(card.desc), formula: asText(card.formula) },
+    parameters: (Array.isArray(raw.parameters) ? raw.parameters : [])
+      .filter((p: any) => asText(p?.name))
+      .map((p: any) => ({ name: asText(p.name), value: asText(String(p.value ?? '')), source: asText(p.source) })),
+    threshold,
+    rowLogic,
+    aggMethod: raw.aggMethod,
+    ...(aggCode ? { aggCode } : {}),
+    examples: (Array.isArray(raw.examples) ? raw.examples : [])
+      .map((e: any) => normaliseExample(e, threshold ?? 0))
+      .filter((e: RuleFixture | null): e is RuleFixture => e !== null),
+    ambiguities: (Array.isArray(raw.ambiguities) ? raw.ambiguities : [])
+      .filter((a: any) => asText(a?.question) && Array.isArray(a.options) && a.options.length > 0)
+      .map((a: any) => {
+        const options = a.options.map((o: any) => String(o));
+        return {
+          question: asText(a.question),
+          options,
+          assumed: Number.isInteger(a.assumed) && a.assumed >= 0 && a.assumed < options.length ? a.assumed : 0,
+          source: asText(a.source)
+        };
+      })
+  };
+};
+
+/**
+ * Translates a pasted rule document section into a formula draft. With `resolutions`, the user's answers to
+ * earlier ambiguities are sent along so the code follows them instead of the model's assumptions.
+ */
+export const translateRuleDocument = async (
+  documentText: string,
+  region: string,
+  resolutions: RuleResolution[] = []
+): Promise<RuleDocumentDraft> => {
+  if (!documentText.trim()) throw new Error('请先粘贴规则文档内容');
+
+  const answers = resolutions.length
+    ? `\n\nThe user has resolved these points; follow them and do not list them as ambiguities again:\n${resolutions.map(r => `- ${r.question} -> ${r.answer}`).join('\n')}`
+    : '';
+  const reply = await generateText({
+    system: SYSTEM_INSTRUCTION,
+    messages: [{ role: 'user', content: `Region: ${region}\n\nRule document:\n${documentText.trim()}${answers}` }],
+    temperature: 0.1
+  });
+  return parseRuleDocumentReply(reply);
+};
+
+// Worked examples of a draft as golden cases, so they keep guarding the formula after it is applied
+export const examplesToGoldenCases = (draft: RuleDocumentDraft): FormulaTestCase[] =>
+  draft.examples.map((e, i) => ({
+    id: newTestCaseId(),
+    name: `${draft.card.name} 文档算例 ${i + 1}`,
+    cap: e.cap,
+    threshold: e.threshold,
+    real: e.real,
+    fore: e.fore,
+    expected: e.expected,
+    tolerance: RULE_EXAMPLE_TOLERANCE
+  }));
+
+/**
+ * Region rule definition (the JSON accepted by the rule registry import) built from a draft.
+ */
+export const draftToRuleDefinition = (draft: RuleDocumentDraft, id: string) => ({
+  id,
+  name: draft.card.name,
+  params: { threshold: draft.threshold ?? 0, useThreshold: draft.threshold !== null },
+  aggMethod: draft.aggMethod,
+  ...(draft.aggCode ? { aggCode: draft.aggCode } : {}),
+  rowLogic: draft.rowLogic,
+  explainer: { title: draft.card.name, desc: draft.card.desc, formula: draft.card.formula },
+  fixtures: draft.examples
+});
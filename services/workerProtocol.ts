@@ -0,0 +1,65 @@
+import type { DailyResult } from '../types';
+
+// --- Typed message protocol between the main thread and the Pyodide worker ---
+
+export interface BatchDayInput {
+  date: string;
+  real: number[];
+  fore: number[];
+  foreRaw: number[][];
+}
+
+// Half-open row range [start, end) of one day inside the flattened dataset
+export interface DayBoundary {
+  date: string;
+  start: number;
+  end: number;
+}
+
+// The whole filtered dataset, sent to Python in one message
+export interface BatchDataset {
+  real: number[];
+  fore: number[];
+  foreRaw: number[][];
+  days: DayBoundary[];
+}
+
+// Inputs of one row for the per-row preview; fore_list falls back to [fore] when empty
+export interface RowInput {
+  real: number;
+  fore: number;
+  fore_list: number[];
+}
+
+// Guards applied inside the worker to every run of user code (the timeout is enforced by the main thread)
+export interface SandboxGuards {
+  maxMemoryMb: number; // Peak Python allocation per day / row, reported after the run returns; 0 disables tracing
+  blockedModules: string[]; // Top-level modules user code may not import
+}
+
+// Structured failure of user code; `line` is 1-based in the code that was submitted, null when unknown
+export interface PythonErrorInfo {
+  type: string; // Python exception class, e.g. ZeroDivisionError, or TimeoutError for a killed run
+  message: string;
+  line: number | null;
+}
+
+// Per-day output of the batch driver; coverage is attached afterwards on the main thread
+export type BatchDailyResult = Omit<DailyResult, 'coverage'>;
+
+export type WorkerRequest =
+  | { type: 'init'; id: number }
+  // Run per-row logic once per row, each row in a fresh namespace
+  | { type: 'rows'; id: number; code: string; rows: RowInput[]; cap: number; threshold: number; guards: SandboxGuards }
+  // Run the batch script over every day of the dataset in a single Python call
+  | { type: 'batch'; id: number; code: string; dataset: BatchDataset; cap: number; threshold: number; guards: SandboxGuards };
+
+export type WorkerResponse =
+  | { type: 'ready'; id: number }
+  // Pyodide is loaded and user code starts now; the main thread's timeout clock runs from here
+  | { type: 'started'; id: number }
+  // `result` is the day just finished (batches), so a run killed later still keeps the days before it
+  | { type: 'progress'; id: number; done: number; total: number; date: string; result?: BatchDailyResult }
+  | { type: 'rowsDone'; id: number; values: (number | string)[]; errors: (PythonErrorInfo | null)[]; compileError: PythonErrorInfo | null }
+  | { type: 'batchDone'; id: number; results: BatchDailyResult[]; error: PythonErrorInfo | null; failedDate: string | null }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,250 @@
+// --- Minimal YAML Reader (for region rule definitions) ---
+// Supports the subset a hand-written rule file needs: nested block mappings and sequences,
+// literal/folded block scalars (| and >) for Python code, flow lists/maps of scalars,
+// quoted strings, numbers, booleans, null and # comments. Anchors, tags and multi-document
+// streams are not supported.
+
+interface YamlLine {
+  no: number; // 1-based line number, for error messages
+  indent: number;
+  text: string; // Content after the indentation
+}
+
+const MAPPING_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s'"#\-[{][^:#]*?|-[^\s:#][^:#]*?)\s*:(?:\s+|$)/;
+
+// Strips a trailing " # comment" that is not inside quotes
+const stripComment = (s: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '#' && (i === 0 || /\s/.test(s[i - 1]))) {
+      return s.slice(0, i).trimEnd();
+    }
+  }
+  return s.trimEnd();
+};
+
+// Splits a flow collection body on top-level commas
+const splitFlow = (body: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === '[' || c === '{') depth++;
+    else if (c === ']' || c === '}') depth--;
+    else if (c === ',' && depth === 0) {
+      parts.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(body.slice(start));
+  return parts.map(p => p.trim()).filter(p => p.length > 0);
+};
+
+const parseKey = (raw: string): string => {
+  const key = raw.trim();
+  if (key.startsWith('"')) return JSON.parse(key);
+  if (key.startsWith("'")) return key.slice(1, -1).replace(/''/g, "'");
+  return key;
+};
+
+const parseScalar = (raw: string, no: number): any => {
+  const s = stripComment(raw).trim();
+  if (s === '' || s === '~' || s === 'null') return null;
+  if (s === 'true') return true;
+  if (s === 'false') return false;
+  if (s.startsWith('"')) {
+    try {
+      return JSON.parse(s);
+    } catch {
+      throw new Error(`YAML 第 ${no} 行字符串格式错误: ${s}`);
+    }
+  }
+  if (s.startsWith("'")) {
+    if (!s.endsWith("'") || s.length < 2) throw new Error(`YAML 第 ${no} 行字符串未闭合: ${s}`);
+    return s.slice(1, -1).replace(/''/g, "'");
+  }
+  if (s.startsWith('[')) {
+    if (!s.endsWith(']')) throw new Error(`YAML 第 ${no} 行列表未闭合: ${s}`);
+    return splitFlow(s.slice(1, -1)).map(item => parseScalar(item, no));
+  }
+  if (s.startsWith('{')) {
+    if (!s.endsWith('}')) throw new Error(`YAML 第 ${no} 行映射未闭合: ${s}`);
+    const obj: Record<string, any> = {};
+    splitFlow(s.slice(1, -1)).forEach(entry => {
+      const idx = entry.indexOf(':');
+      if (idx < 0) throw new Error(`YAML 第 ${no} 行映射项缺少冒号: ${entry}`);
+      obj[parseKey(entry.slice(0, idx))] = parseScalar(entry.slice(idx + 1), no);
+    });
+    return obj;
+  }
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(s)) return Number(s);
+  return s;
+};
+
+// Folds the lines of a > block scalar: a single break between two text lines becomes a space and each
+// blank line a break; breaks next to more-indented lines are kept as written
+const foldLines = (lines: string[]): string => {
+  let body = '';
+  let prev: string | null = null;
+  let blanks = 0;
+  for (const line of lines) {
+    if (line === '') {
+      blanks++;
+      continue;
+    }
+    if (prev === null) body += '\n'.repeat(blanks);
+    else if (/^[ \t]/.test(prev) || /^[ \t]/.test(line)) body += '\n'.repeat(blanks + 1);
+    else body += blanks > 0 ? '\n'.repeat(blanks) : ' ';
+    body += line;
+    prev = line;
+    blanks = 0;
+  }
+  return body;
+};
+
+/**
+ * Parses a YAML document into plain JS values. Throws with the offending line number on malformed input.
+ */
+export const parseYaml = (text: string): any => {
+  const rawLines = text.replace(/\r\n?/g, '\n').split('\n');
+  let pos = 0;
+
+  const isContent = (raw: string) => {
+    const t = raw.trim();
+    return t.length > 0 && !t.startsWith('#') && t !== '---' && t !== '...';
+  };
+
+  // Current content line, skipping blanks and comments
+  const peek = (): YamlLine | null => {
+    while (pos < rawLines.length && !isContent(rawLines[pos])) pos++;
+    if (pos >= rawLines.length) return null;
+    const raw = rawLines[pos];
+    const indentStr = raw.match(/^[ \t]*/)![0];
+    if (indentStr.includes('\t')) throw new Error(`YAML 第 ${pos + 1} 行缩进包含 Tab，请使用空格`);
+    return { no: pos + 1, indent: indentStr.length, text: raw.slice(indentStr.length) };
+  };
+
+  // Collects a | or > block scalar whose header sits on a line indented at parentIndent
+  const readBlockScalar = (header: string, parentIndent: number): string => {
+    // Only the indicator right after | or > counts; a trailing comment may contain - or + too
+    const [, style, indicator] = header.match(/^([|>])([-+]?)/)!;
+    const folded = style === '>';
+    const chomp = indicator === '-' ? 'strip' : indicator === '+' ? 'keep' : 'clip';
+    const lines: string[] = [];
+    let blockIndent = -1;
+
+    while (pos < rawLines.length) {
+      const raw = rawLines[pos];
+      if (raw.trim() === '') {
+        lines.push('');
+        pos++;
+        continue;
+      }
+      const indent = raw.match(/^ */)![0].length;
+      if (indent <= parentIndent) break;
+      if (blockIndent < 0) blockIndent = indent;
+      if (indent < blockIndent) break;
+      lines.push(raw.slice(blockIndent));
+      pos++;
+    }
+
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailing++;
+    }
+    const body = folded ? foldLines(lines) : lines.join('\n');
+    if (chomp === 'strip' || lines.length === 0) return body;
+    return body + (chomp === 'keep' ? '\n'.repeat(trailing + 1) : '\n');
+  };
+
+  // Value following "key:" or "- " with nothing on the same line
+  const parseNested = (parentIndent: number, allowSameIndentSeq: boolean): any => {
+    const next = peek();
+    if (!next) return null;
+    if (next.indent > parentIndent) return parseBlock(next.indent);
+    if (allowSameIndentSeq && next.indent === parentIndent && /^-(\s|$)/.test(next.text)) return parseSequence(parentIndent);
+    return null;
+  };
+
+  // Value written inline after "key:" or "- "
+  const parseInline = (rest: string, lineIndent: number, no: number): any => {
+    if (/^[|>][-+]?\s*(#.*)?$/.test(rest)) return readBlockScalar(rest, lineIndent);
+    return parseScalar(rest, no);
+  };
+
+  const parseMapping = (indent: number, first?: YamlLine): Record<string, any> => {
+    const obj: Record<string, any> = {};
+    let line: YamlLine | null = first ?? peek();
+
+    while (line && line.indent === indent && !/^-(\s|$)/.test(line.text)) {
+      const m = line.text.match(MAPPING_KEY);
+      if (!m) throw new Error(`YAML 第 ${line.no} 行无法解析: ${line.text.trim()}`);
+      const key = parseKey(m[1]);
+      const rest = line.text.slice(m[0].length);
+      pos++;
+
+      obj[key] = stripComment(rest).trim() === ''
+        ? parseNested(indent, true)
+        : parseInline(rest, indent, line.no);
+      line = peek();
+    }
+    if (line && line.indent > indent) throw new Error(`YAML 第 ${line.no} 行缩进不一致: ${line.text.trim()}`);
+    return obj;
+  };
+
+  const parseSequence = (indent: number, first?: YamlLine): any[] => {
+    const items: any[] = [];
+    let line: YamlLine | null = first ?? peek();
+
+    while (line && line.indent === indent && /^-(\s|$)/.test(line.text)) {
+      const item = line.text.slice(1);
+      const itemText = item.trimStart();
+      const itemIndent = indent + 1 + (item.length - itemText.length);
+
+      if (stripComment(itemText) === '') {
+        pos++;
+        items.push(parseNested(indent, false));
+      } else if (/^-(\s|$)/.test(itemText)) {
+        // "- - x" opens a nested sequence aligned with the inner dash
+        items.push(parseSequence(itemIndent, { no: line.no, indent: itemIndent, text: itemText }));
+      } else if (MAPPING_KEY.test(itemText)) {
+        // "- key: value" opens a mapping whose keys align with the text after the dash
+        items.push(parseMapping(itemIndent, { no: line.no, indent: itemIndent, text: itemText }));
+      } else {
+        pos++;
+        items.push(parseInline(itemText, indent, line.no));
+      }
+      line = peek();
+    }
+    return items;
+  };
+
+  const parseBlock = (indent: number): any => {
+    const line = peek();
+    if (!line) return null;
+    if (/^-(\s|$)/.test(line.text)) return parseSequence(indent);
+    if (MAPPING_KEY.test(line.text)) return parseMapping(indent);
+    pos++;
+    return parseInline(line.text, indent - 1, line.no);
+  };
+
+  const first = peek();
+  if (!first) return null;
+  const result = parseBlock(first.indent);
+  const leftover = peek();
+  if (leftover) throw new Error(`YAML 第 ${leftover.no} 行缩进不一致: ${leftover.text.trim()}`);
+  return result;
+};
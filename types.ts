@@ -1,9 +1,92 @@
-export type Region = 'Shanxi' | 'Northwest' | 'Northeast' | 'South' | 'East' | 'Central';
+// Id of a rule in the region registry (services/regionRules.ts): a built-in province or an imported definition
+export type Region = string;
+
+// How the per-row results are folded into the day's accuracy
+export type AggMethod = 'mean' | 'sum' | 'rmse' | 'rms' | 'weighted' | 'harmonic' | 'custom';
+
+// A small hand-checkable day whose accuracy under the rule is known in advance
+export interface RuleFixture {
+  cap: number;
+  threshold: number;
+  real: number[];
+  fore: number[];
+  expected: number;
+  steps?: string[]; // Worked derivation, one line per step
+}
+
+export interface RegionRuleParams {
+  threshold: number; // Default dead-band ratio (fraction of Cap)
+  useThreshold: boolean; // Whether the rule has a dead band at all; the threshold input is disabled otherwise
+  thresholdHint?: string;
+}
+
+// Pure TypeScript evaluation of a day's accuracy, same argument order as executeCustomFormula
+export type NativeEvaluator = (
+  real: number[],
+  fore: number[],
+  cap: number,
+  threshold: number,
+  foreRaw: number[][]
+) => number;
+
+export interface HandCalcColumn {
+  label: string;
+  digits: number;
+}
+
+export interface HandCalcRow {
+  values: (number | null)[]; // One per column; null where the step does not apply
+  exempt?: boolean; // Dead-band interval
+  marked?: number[]; // Indexes of values where a piecewise branch applies
+}
+
+// A day worked through step by step, for the formula explainer
+export interface HandCalculation {
+  columns: HandCalcColumn[]; // Intermediate columns after Time / Real / Fore; the last is the interval's contribution
+  rows: HandCalcRow[];
+  summary: string[]; // Day-level totals shown under the rows
+  accuracy: number;
+}
+
+export type HandCalculator = (real: number[], fore: number[], cap: number, threshold: number) => HandCalculation;
+
+export interface RegionRule {
+  id: string;
+  name: string; // Display name, e.g. '山西 (Shanxi)'
+  params: RegionRuleParams;
+  penalty: PenaltyModel;
+  rowLogic: string; // Python row logic, see generateBatchScript
+  aggMethod: AggMethod;
+  aggCode?: string; // Python aggregation, required when aggMethod is 'custom'
+  explainer: { title: string, desc: string, formula: string, handCalc?: HandCalculator };
+  fixtures: RuleFixture[];
+  native?: NativeEvaluator; // Built-in rules only; imported rules always run on the Python engine
+  builtin: boolean;
+}
 
 export interface RawRow {
   time: string;
   timestamp: number;
-  [key: string]: number | string; // Dynamic columns
+  [key: string]: number | string | null; // Dynamic columns (null = missing / non-numeric cell)
+}
+
+// How missing (null) cells are handled before calculation
+export type GapFillMethod = 'exclude' | 'interpolate' | 'ffill';
+
+export interface GapPolicy {
+  method: GapFillMethod;
+  minCoverage: number; // Exclude the whole day if valid-point coverage is below this percentage (0 = off)
+  maxGap: number; // Longest run of consecutive missing points that is filled; longer runs stay missing (0 = no limit)
+}
+
+// How the selected forecast columns are combined into DataPoint.forecast
+export type EnsembleMethod = 'mean' | 'median' | 'weighted' | 'trimmed' | 'optimised';
+
+export interface EnsembleConfig {
+  method: EnsembleMethod;
+  weights: Record<string, number>; // User weights per forecast column ('weighted')
+  trimPct: number; // Share cut from each end before averaging ('trimmed'), in percent
+  trainEnd: string; // Last day (YYYY-MM-DD) of the fitting window ('optimised'); later days are evaluated
 }
 
 export interface DataPoint {
@@ -12,6 +95,7 @@ export interface DataPoint {
   real: number;
   forecast: number;
   forecasts: number[]; 
+  filled: boolean; // true if real or any forecast value was imputed by the gap policy
 }
 
 export interface DailyResult {
@@ -21,6 +105,30 @@ export interface DailyResult {
   rmse: number;
   avgReal: number;
   avgFore: number;
+  coverage: number; // Fraction (0-1) of expected points that had valid raw data
+  penaltyMwh?: number; // Assessed energy (MWh) under the penalty model, when one is applied
+  penaltyFee?: number; // Assessment amount (元)
+  metrics?: ErrorMetrics; // Error decomposition, see services/errorMetrics.ts
+}
+
+// Per-day error decomposition; null where the metric is undefined for the day (e.g. no ramp events)
+export interface ErrorMetrics {
+  bias: number; // Mean error fore - real (MW), + = over-forecast
+  nmae: number; // MAE / cap
+  nrmse: number; // RMSE / cap
+  mape: number | null; // Mean |error| / real over points with real above the zero guard
+  correlation: number | null; // Pearson r between real and fore
+  skill: number | null; // 1 - RMSE / RMSE of the previous-day persistence baseline
+  peakError: number | null; // MAE / cap over the day's highest-output intervals
+  rampHitRate: number | null; // Share of real ramp events the forecast followed
+}
+
+// "双细则" assessment: days below the pass line are charged in MWh, then priced per point
+export interface PenaltyModel {
+  passLine: number; // Accuracy (0-1) below which a day is assessed
+  coefficient: number; // Hours of capacity charged per unit of shortfall: MWh = (passLine - accuracy) * cap * coefficient
+  pointsPerMwh: number; // Assessment points per MWh
+  pricePerPoint: number; // 元 per point
 }
 
 export interface CalculationParams {
@@ -52,4 +160,41 @@ export interface MonthlyStats {
     low: number;
   };
   daysCount: number;
-}
\ No newline at end of file
+  penaltyMwh?: number;
+  penaltyFee?: number;
+}
+// --- Multi-Station Workspace ---
+
+export interface StationConfig {
+  id: string;
+  name: string;
+  fileName: string;
+  region: Region;
+  cap: number;
+  threshold: number;
+  realCol: string;
+  foreCols: string[];
+  headers: string[];
+  rows: RawRow[];
+}
+
+export interface StationResult {
+  stationId: string;
+  name: string;
+  region: Region;
+  cap: number;
+  daily: DailyResult[];
+  stats: CalculationStats | null;
+  passLine: number; // Pass line of the station's region rule (penalty.passLine)
+  passRate: number; // Share of days with accuracy >= passLine
+  meanRmse: number;
+  error?: string;
+}
+
+// --- Per-Forecast-Provider Comparison ---
+
+export interface ProviderResult {
+  name: string; // Forecast column name, or the ensemble label
+  isEnsemble: boolean;
+  daily: DailyResult[];
+}